@@ -112,6 +112,10 @@ stdenvNoCC.mkDerivation {
     mkdir -p "$dest"
     cp -R docs/site/dist/. "$dest/"
     cp ${nixcord-options}/share/doc/nixos/options.json "$dest/options.json"
+    mkdir -p "$dest/plugins"
+    cp ${../modules/plugins/shared.json} "$dest/plugins/shared.json"
+    cp ${../modules/plugins/vencord.json} "$dest/plugins/vencord.json"
+    cp ${../modules/plugins/equicord.json} "$dest/plugins/equicord.json"
     runHook postInstall
   '';
 }
@@ -3,12 +3,16 @@ import type {
   OptionEntry,
   OptionSection,
   OptionSectionItem,
+  PluginAuthor,
   PluginOptionGroup,
   RawOption,
 } from './types';
 
 const emptyText = 'Not specified';
 const pluginOptionPrefix = 'programs.nixcord.config.plugins.';
+const pluginCategories = ['shared', 'vencord', 'equicord'] as const;
+
+type PluginAuthors = Map<string, PluginAuthor[]>;
 
 export function stringifyDocValue(value: unknown): string {
   if (value == null) return emptyText;
@@ -41,7 +45,7 @@ function prepareOptions(raw: Record<string, RawOption>): OptionEntry[] {
     .sort((left, right) => left.name.localeCompare(right.name));
 }
 
-export function groupOptions(options: OptionEntry[]): OptionSection[] {
+export function groupOptions(options: OptionEntry[], authors: PluginAuthors = new Map()): OptionSection[] {
   const sections: Pick<OptionSection, 'description' | 'id' | 'title'>[] = [
     {
       description: 'Module, client, package, theme, and extra configuration options.',
@@ -71,7 +75,7 @@ export function groupOptions(options: OptionEntry[]): OptionSection[] {
 
     return {
       ...section,
-      items: groupSectionOptions(sectionOptions),
+      items: groupSectionOptions(sectionOptions, authors),
       optionCount: sectionOptions.length,
     };
   });
@@ -88,6 +92,23 @@ export async function loadOptions(): Promise<OptionEntry[]> {
   return prepareOptions(raw);
 }
 
+/** Authors per plugin, read from the generated plugin JSON; a missing file leaves its plugins without authors. */
+export async function loadPluginAuthors(): Promise<PluginAuthors> {
+  const authors: PluginAuthors = new Map();
+
+  for (const category of pluginCategories) {
+    const response = await fetch(`${import.meta.env.BASE_URL}plugins/${category}.json`).catch(() => null);
+    if (!response?.ok) continue;
+
+    const plugins = (await response.json()) as Record<string, { authors?: PluginAuthor[] }>;
+    for (const [name, plugin] of Object.entries(plugins)) {
+      if (plugin.authors?.length) authors.set(name, plugin.authors);
+    }
+  }
+
+  return authors;
+}
+
 function normalizeWhitespace(value: string): string {
   return value.replace(/\s+/g, ' ').trim();
 }
@@ -104,7 +125,7 @@ function getOptionCategory(option: RawOption): OptionCategory {
   return 'core';
 }
 
-function groupSectionOptions(options: OptionEntry[]): OptionSectionItem[] {
+function groupSectionOptions(options: OptionEntry[], authors: PluginAuthors): OptionSectionItem[] {
   const pluginGroups = new Map<string, OptionEntry[]>();
   const coreOptions: OptionSectionItem[] = [];
 
@@ -126,6 +147,7 @@ function groupSectionOptions(options: OptionEntry[]): OptionSectionItem[] {
 
     return {
       group: {
+        authors: authors.get(name.slice(pluginOptionPrefix.length)) ?? [],
         category: sortedOptions[0]?.category ?? 'core',
         name,
         optionCount: sortedOptions.length,
@@ -21,7 +21,13 @@ export type OptionEntry = RawOption & {
 
 export type OptionCategory = 'core' | 'shared' | 'vencord' | 'equicord';
 
+export type PluginAuthor = {
+  id?: string;
+  name: string;
+};
+
 export type PluginOptionGroup = {
+  authors: PluginAuthor[];
   category: OptionCategory;
   name: string;
   optionCount: number;
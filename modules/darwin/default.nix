@@ -27,6 +27,7 @@ in
         mkConfigDirs
         fileSpecs
         fileCopyCommands
+        fillSecretFunction
         ;
 
       homeDir = "/Users/${cfg.user}";
@@ -73,6 +74,8 @@ in
               sudo --user=${lib.escapeShellArg cfg.user} -- ${install} -D -m "$3" "$1" "$2"
             }
 
+            ${fillSecretFunction}
+
             ${fileCopyCommands}
           ''
         );
@@ -26,6 +26,9 @@ in
         packages
         mkConfigDirs
         fileSpecs
+        fillSecretFunction
+        mkSecretCommands
+        fileMode
         ;
 
       install = lib.getExe' pkgs.coreutils "install";
@@ -47,7 +50,11 @@ in
             elif [ -e "$dest" ]; then
               chmod u+w "$dest" 2>/dev/null || true
             fi
-            ${install} -Dm644 "$src" "$dest"
+            ${install} -Dm${fileMode spec} "$src" "$dest"
+            ${lib.optionalString (spec.secrets != [ ]) ''
+              ${fillSecretFunction}
+              ${mkSecretCommands spec}
+            ''}
           ''
         )
       );
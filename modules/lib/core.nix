@@ -81,8 +81,38 @@ let
     else
       name;
 
+  # collectSecretFileOptions :: attrset -> attrset
+  # Maps each plugin or setting group to its `<name>File` options, the ones
+  # mkPluginOptions.nix adds for sensitive settings, and the setting each one fills.
+  collectSecretFileOptions =
+    plugins:
+    lib.foldl' lib.recursiveUpdate { } (
+      lib.mapAttrsToList (
+        name: plugin:
+        let
+          settings = plugin.settings or { };
+        in
+        lib.recursiveUpdate {
+          ${name} = mapAttrs' (setting: _: nameValuePair "${setting}File" setting) (
+            lib.filterAttrs (_: setting: setting.sensitive or false) settings
+          );
+        } (collectSecretFileOptions (lib.filterAttrs (_: setting: !(setting ? type)) settings))
+      ) plugins
+    );
+
+  secretFileOptions = collectSecretFileOptions (
+    lib.mergeAttrsList (
+      map lib.importJSON [
+        ../plugins/shared.json
+        ../plugins/vencord.json
+        ../plugins/equicord.json
+      ]
+    )
+  );
+
   # mkVencordCfgInner :: string -> attrset -> attrset
   # Recursively transforms Nix option names to their JSON counterparts.
+  # `*File` options are dropped; mkSecretFiles hands them to activation instead.
   mkVencordCfgInner =
     context: cfg:
     mapAttrs' (
@@ -91,10 +121,34 @@ let
         normalizedValue = if builtins.isAttrs value then mkVencordCfgInner name value else value;
       in
       nameValuePair (normalizeName context name value) normalizedValue
-    ) cfg;
+    ) (removeAttrs cfg (builtins.attrNames (secretFileOptions.${context} or { })));
 
   mkVencordCfg = mkVencordCfgInner "";
 
+  # mkSecretFilesInner :: string -> [string] -> attrset -> [{ path, file }]
+  # Collects the `*File` options that are set, with the JSON path of the setting each fills.
+  mkSecretFilesInner =
+    context: path: cfg:
+    lib.concatLists (
+      lib.mapAttrsToList (
+        name: value:
+        let
+          setting = secretFileOptions.${context}.${name} or null;
+        in
+        if setting != null then
+          lib.optional (value != null) {
+            path = path ++ [ (normalizeName context setting (cfg.${setting} or null)) ];
+            file = value;
+          }
+        else if builtins.isAttrs value then
+          mkSecretFilesInner name (path ++ [ (normalizeName context name value) ]) value
+        else
+          [ ]
+      ) cfg
+    );
+
+  mkSecretFiles = mkSecretFilesInner "" [ ];
+
   # mkFinalPackages :: { cfg, vencord, equicord } -> { discord, vesktop, equibop, dorion }
   # Builds the final patched packages for each client.
   mkFinalPackages =
@@ -194,5 +248,5 @@ let
     };
 in
 {
-  inherit mkVencordCfg mkFinalPackages;
+  inherit mkVencordCfg mkSecretFiles mkFinalPackages;
 }
@@ -10,6 +10,7 @@ let
       inherit (files)
         quickCss
         settings
+        secrets
         themes
         dorionConfig
         legcordSettings
@@ -20,6 +21,7 @@ let
         spec:
         {
           writable = false;
+          secrets = [ ];
         }
         // spec;
 
@@ -38,6 +40,9 @@ let
             enable = client.enable;
             src = fullSettings;
             dest = "${client.configDir}/settings/settings.json";
+            secrets = secrets.${name};
+            # Secrets are filled into a copy, so the file cannot stay a store symlink
+            writable = secrets.${name} != [ ];
           })
           (copy {
             name = "${name}-client-settings";
@@ -111,6 +116,7 @@ let
             enable = discord.enable && mod.enable;
             inherit (mod) src;
             dest = "${configDir}/settings/settings.json";
+            secrets = secrets.${mod.name};
             writable = true;
           }
         ) discordMods;
@@ -210,10 +216,36 @@ let
       (map (spec: lib.removeAttrs spec [ "enable" ]))
     ];
 
+  # Defines `fill_secret DEST PATH FILE`, which sets the JSON path PATH in DEST to the
+  # contents of FILE. A missing secret file is reported without failing activation.
+  mkFillSecretFunction = jq: ''
+    fill_secret() {
+      local filled
+      if filled="$(${jq} --argjson path "$2" --rawfile value "$3" 'setpath($path; $value | rtrimstr("\n"))' "$1")"; then
+        printf '%s\n' "$filled" > "$1"
+      else
+        echo "nixcord: could not fill $1 from secret file $3" >&2
+      fi
+    }
+  '';
+
+  mkSecretCommands =
+    spec:
+    lib.concatMapStringsSep "\n" (
+      secret:
+      "fill_secret ${lib.escapeShellArg spec.dest} ${lib.escapeShellArg (builtins.toJSON secret.path)} ${lib.escapeShellArg secret.file}"
+    ) spec.secrets;
+
+  # Settings holding secrets are only readable by their owner.
+  fileMode = spec: if spec.secrets == [ ] then "0644" else "0600";
+
   mkCopyCommands =
     args:
     let
-      mkCopy = spec: "copy_file ${spec.src} ${lib.escapeShellArg spec.dest} 0644";
+      mkCopy = spec: ''
+        copy_file ${spec.src} ${lib.escapeShellArg spec.dest} ${fileMode spec}
+        ${mkSecretCommands spec}
+      '';
     in
     lib.pipe (mkFileSpecs args) [
       (lib.concatMapStringsSep "\n" mkCopy)
@@ -335,6 +367,9 @@ in
 {
   inherit
     mkFileSpecs
+    mkFillSecretFunction
+    mkSecretCommands
+    fileMode
     mkCopyCommands
     mkInstalledPackages
     mkSettingsFiles
@@ -20,12 +20,19 @@ let
     mkAllFullConfigs
     mkInstalledPackages
     mkFileSpecs
+    mkFillSecretFunction
+    mkSecretCommands
+    fileMode
     mkCopyCommands
     ;
 
   parseRules = cfg.parseRules;
 
-  inherit (pkgs.callPackage ./core.nix { inherit lib parseRules; }) mkVencordCfg mkFinalPackages;
+  inherit (pkgs.callPackage ./core.nix { inherit lib parseRules; })
+    mkVencordCfg
+    mkSecretFiles
+    mkFinalPackages
+    ;
 
   pluginKit = mkPluginKit cfg;
 
@@ -66,6 +73,14 @@ let
       ;
   };
 
+  # Sensitive settings whose `*File` option is set, filled into each settings file at activation.
+  secretFiles = lib.mapAttrs (_: mkSecretFiles) {
+    vencord = vencordFullConfig;
+    equicord = equicordFullConfig;
+    vesktop = vesktopFullConfig;
+    equibop = equibopFullConfig;
+  };
+
   vesktopThemes = lib.mapAttrs (mkThemeFile { inherit pkgs; }) cfg.config.themes;
 
   dorionConfigFile =
@@ -135,6 +150,7 @@ let
 
   files = {
     settings = settingsFiles;
+    secrets = secretFiles;
     themes = vesktopThemes;
     quickCss = quickCssFile;
     dorionConfig = dorionConfigFile;
@@ -168,6 +184,8 @@ let
   fileSpecs = mkFileSpecs fileSpecArgs;
 
   fileCopyCommands = mkCopyCommands fileSpecArgs;
+
+  fillSecretFunction = mkFillSecretFunction (lib.getExe pkgs.jq);
 in
 {
   inherit
@@ -181,5 +199,8 @@ in
     mkActivationScripts
     fileSpecs
     fileCopyCommands
+    fillSecretFunction
+    mkSecretCommands
+    fileMode
     ;
 }
@@ -3,9 +3,38 @@ let
   mkPluginKit =
     cfg:
     let
-      sharedPluginNames = builtins.attrNames (lib.importJSON ../plugins/shared.json);
-      vencordPluginNames = builtins.attrNames (lib.importJSON ../plugins/vencord.json);
-      equicordPluginNames = builtins.attrNames (lib.importJSON ../plugins/equicord.json);
+      sharedPlugins = lib.importJSON ../plugins/shared.json;
+      vencordPlugins = lib.importJSON ../plugins/vencord.json;
+      equicordPlugins = lib.importJSON ../plugins/equicord.json;
+
+      sharedPluginNames = builtins.attrNames sharedPlugins;
+      vencordPluginNames = builtins.attrNames vencordPlugins;
+      equicordPluginNames = builtins.attrNames equicordPlugins;
+
+      # Plugins the client always runs, whatever settings.json says.
+      requiredMask = lib.filterAttrs (_: plugin: plugin.required or false) (
+        sharedPlugins // vencordPlugins // equicordPlugins
+      );
+
+      # Plugins bundled into only some builds, see `targets` in the plugin JSON. Plugins the
+      # client enables by default are left out, their `enable` was not the user's choice.
+      pluginTargets = lib.mapAttrs (_: plugin: plugin.targets) (
+        lib.filterAttrs (
+          _: plugin: plugin ? targets && !(plugin.required or false) && !(plugin.enabledByDefault or false)
+        ) (sharedPlugins // vencordPlugins // equicordPlugins)
+      );
+
+      # Per-client dependency graph, see `dependencies` in the plugin sources.
+      dependencyGraph =
+        if builtins.pathExists ../plugins/dependencies.json then
+          lib.importJSON ../plugins/dependencies.json
+        else
+          { };
+
+      # Plugins the client enables unless settings.json turns them off.
+      defaultEnabledMask = lib.filterAttrs (
+        _: plugin: (plugin.required or false) || (plugin.enabledByDefault or false)
+      ) (sharedPlugins // vencordPlugins // equicordPlugins);
 
       deprecated = lib.importJSON ../plugins/deprecated.json;
       migrations = lib.importJSON ../plugins/migrations.json;
@@ -75,6 +104,67 @@ let
           builtins.attrNames
         ];
 
+      collectDisabledRequiredPlugins =
+        configAttrs:
+        lib.pipe (pluginsOf configAttrs) [
+          (lib.filterAttrs (
+            name: value:
+            builtins.hasAttr name requiredMask
+            && builtins.isAttrs value
+            && value ? enable
+            && !value.enable
+          ))
+          builtins.attrNames
+        ];
+
+      # collectEnabledUnbundledPlugins :: [string] -> attrset -> [string]
+      # Enabled plugins that none of the given platforms' builds bundle.
+      collectEnabledUnbundledPlugins =
+        platforms: configAttrs:
+        lib.pipe (pluginsOf configAttrs) [
+          (lib.filterAttrs (
+            name: value:
+            let
+              targets = pluginTargets.${name} or null;
+            in
+            targets != null
+            && isPluginEnabled value
+            && (
+              (targets.devOnly or false)
+              || !(lib.any (platform: builtins.elem platform targets.platforms) platforms)
+            )
+          ))
+          builtins.attrNames
+        ];
+
+      # collectUnmetPluginDependencies :: string -> attrset -> attrset
+      # Enabled plugins mapped to the dependencies they lack in the given client's build: ones
+      # that are not enabled, and ones the client does not have at all.
+      collectUnmetPluginDependencies =
+        client: configAttrs:
+        let
+          graph = dependencyGraph.${client} or { };
+          plugins = pluginsOf configAttrs;
+          isDependencyEnabled =
+            name:
+            let
+              plugin = plugins.${name} or null;
+            in
+            if builtins.isAttrs plugin && plugin ? enable then
+              plugin.enable
+            else
+              builtins.hasAttr name defaultEnabledMask;
+          unmetDependencies =
+            name:
+            lib.filter (dependency: !isDependencyEnabled dependency) (graph.dependencies.${name} or [ ])
+            ++ graph.missing.${name} or [ ];
+        in
+        lib.pipe plugins [
+          (lib.filterAttrs (_: isPluginEnabled))
+          (lib.mapAttrs (name: _: unmetDependencies name))
+          (lib.filterAttrs (_: unmet: unmet != [ ]))
+        ];
+
       collectEnabledEquicordOnlyPlugins = collectEnabledExclusivePlugins equicordMask vencordMask;
       collectEnabledVencordOnlyPlugins = collectEnabledExclusivePlugins vencordMask equicordMask;
 
@@ -129,8 +219,11 @@ let
         pluginsOf
         pluginNameMigrations
         collectDeprecatedPlugins
+        collectDisabledRequiredPlugins
         collectEnabledEquicordOnlyPlugins
+        collectEnabledUnbundledPlugins
         collectEnabledVencordOnlyPlugins
+        collectUnmetPluginDependencies
         filterPluginsFor
         mkFullConfig
         ;
@@ -140,6 +233,7 @@ let
     {
       cfg,
       pluginsOf,
+      collectDisabledRequiredPlugins,
       collectEnabledEquicordOnlyPlugins,
       collectEnabledVencordOnlyPlugins,
     }:
@@ -157,6 +251,7 @@ let
       );
       wrongEquicordPlugins = collectEnabledEquicordOnlyPlugins allPlugins;
       wrongVencordPlugins = collectEnabledVencordOnlyPlugins allPlugins;
+      disabledRequiredPlugins = collectDisabledRequiredPlugins allPlugins;
       hasVencordClient = with cfg; discord.vencord.enable || vesktop.enable || legcord.vencord.enable;
       hasEquicordClient = with cfg; discord.equicord.enable || equibop.enable || legcord.equicord.enable;
     in
@@ -177,6 +272,10 @@ let
         assertion = !(hasEquicordClient && !hasVencordClient) || wrongVencordPlugins == [ ];
         message = "The following Vencord-only plugins are enabled but only Equicord-based clients are active: ${lib.concatStringsSep ", " wrongVencordPlugins}. These plugins are not available in Equicord.";
       }
+      {
+        assertion = disabledRequiredPlugins == [ ];
+        message = "The following plugins are required by the client and cannot be disabled: ${lib.concatStringsSep ", " disabledRequiredPlugins}.";
+      }
     ];
 in
 {
@@ -24,6 +24,7 @@ in
         mkConfigDirs
         fileSpecs
         fileCopyCommands
+        fillSecretFunction
         ;
 
       activationScripts = common.mkActivationScripts (script: ''
@@ -52,6 +53,8 @@ in
             ${install} -D -m "$mode" -o "$target_user" -g "$target_group" "$src" "$dest"
           }
 
+          ${fillSecretFunction}
+
           ${fileCopyCommands}
         '';
     in
@@ -18,6 +18,17 @@ let
         MessageLatency.enable = false;
       };
     };
+
+  # Prefer the native option modules written by `nixcord-gen --nix-modules`
+  pluginOptions =
+    name:
+    if builtins.pathExists ../plugins/${name}.nix then
+      import ../plugins/${name}.nix { inherit lib; }
+    else
+      import ../plugins/mkPluginOptions.nix {
+        inherit lib;
+        file = ../plugins/${name}.json;
+      };
 in
 {
   options.programs.nixcord = {
@@ -70,20 +81,13 @@ in
         chatBarButtons = uiElementsOption "chat bar buttons";
         messagePopoverButtons = uiElementsOption "message popover buttons";
       };
-      plugins = lib.foldl' lib.recursiveUpdate { } [
-        (import ../plugins/mkPluginOptions.nix {
-          inherit lib;
-          file = ../plugins/shared.json;
-        })
-        (import ../plugins/mkPluginOptions.nix {
-          inherit lib;
-          file = ../plugins/vencord.json;
-        })
-        (import ../plugins/mkPluginOptions.nix {
-          inherit lib;
-          file = ../plugins/equicord.json;
-        })
-      ];
+      plugins = lib.foldl' lib.recursiveUpdate { } (
+        map pluginOptions [
+          "shared"
+          "vencord"
+          "equicord"
+        ]
+      );
     };
   };
 }
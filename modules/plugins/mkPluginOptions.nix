@@ -1,5 +1,7 @@
 # Builds NixOS module options from a plugin JSON schema.
-# Each plugin gets an `enable` option plus any declared settings.
+# Each plugin gets an `enable` option plus any declared settings. `enable` defaults to
+# true for plugins the client runs unless disabled (`required` or `enabledByDefault`),
+# and its description notes the builds the plugin is bundled into (`targets`).
 { lib, file, ... }:
 let
   inherit (lib)
@@ -9,19 +11,34 @@ let
     mapAttrs
     ;
 
-  # Map type strings from the JSON schema to actual Nix types.
-  typeMap = {
-    "types.bool" = types.bool;
-    "types.str" = types.str;
-    "types.int" = types.int;
-    "types.float" = types.float;
-    "types.attrs" = types.attrs;
-    "types.nullOr types.str" = types.nullOr types.str;
-    "types.nullOr types.attrs" = types.nullOr types.attrs;
-    "types.nullOr (types.listOf types.str)" = types.nullOr (types.listOf types.str);
-    "types.listOf types.str" = types.listOf types.str;
-    "types.listOf types.attrs" = types.listOf types.attrs;
-  };
+  unparen =
+    text:
+    let
+      inner = builtins.match "[(](.*)[)]" text;
+    in
+    if inner == null then text else builtins.head inner;
+
+  # Parse type strings from the JSON schema, e.g. `types.nullOr (types.listOf types.str)`,
+  # into actual Nix types. `types.enum` takes the values declared next to it.
+  parseType =
+    enumValues: text:
+    let
+      wrapper = builtins.match "types[.](nullOr|listOf|attrsOf) (.*)" text;
+      between = builtins.match "types[.]numbers[.]between ([^ ]+) ([^ ]+)" text;
+      simple = builtins.match "types[.](bool|int|float|str|attrs)" text;
+    in
+    if wrapper != null then
+      types.${builtins.elemAt wrapper 0} (parseType enumValues (unparen (builtins.elemAt wrapper 1)))
+    else if between != null then
+      types.numbers.between (builtins.fromJSON (unparen (builtins.elemAt between 0))) (
+        builtins.fromJSON (unparen (builtins.elemAt between 1))
+      )
+    else if text == "types.enum" then
+      types.enum enumValues
+    else if simple != null then
+      types.${builtins.head simple}
+    else
+      throw "nixcord: unsupported option type `${text}`";
 
   normalizeSetting =
     setting:
@@ -29,7 +46,14 @@ let
       normalized = {
         description = "";
         example = null;
+        restartNeeded = false;
+        hidden = false;
+        sensitive = false;
+        required = false;
+        enabledByDefault = false;
+        targets = null;
         type = null;
+        enumValues = [ ];
         settings = { };
       }
       // setting;
@@ -46,6 +70,17 @@ let
     else
       value;
 
+  # Spell out the setting's metadata flags after its description.
+  describeSetting =
+    setting:
+    lib.concatStringsSep "\n\n" (
+      lib.filter (text: text != "") [
+        setting.description
+        (lib.optionalString setting.restartNeeded "Changing this setting requires restarting the client.")
+        (lib.optionalString setting.hidden "This setting is hidden from the client's settings UI.")
+      ]
+    );
+
   mkSettingOption =
     _name: setting:
     if setting.type == null then
@@ -55,22 +90,58 @@ let
       let
         commonAttrs = {
           default = resolveDefault setting.default;
-          description = setting.description;
+          description = describeSetting setting;
         }
         // lib.optionalAttrs (setting.example != null) { example = setting.example; };
-        typeAttr =
-          if setting.type == "types.enum" then
-            { type = types.enum setting.enumValues; }
-          else
-            { type = typeMap.${setting.type}; };
       in
-      mkOption (typeAttr // commonAttrs);
+      mkOption ({ type = parseType setting.enumValues setting.type; } // commonAttrs);
+
+  # Sensitive settings also get a `<name>File` option, filled in at activation so the
+  # value never lands in the Nix store.
+  mkSecretFileOption =
+    name:
+    mkOption {
+      type = types.nullOr types.str;
+      default = null;
+      description = "Path to a file holding the value of `${name}`, read at activation so it stays out of the Nix store. Takes precedence over `${name}`.";
+    };
+
+  mkSettingOptions =
+    name: setting:
+    {
+      ${name} = mkSettingOption name setting;
+    }
+    // lib.optionalAttrs setting.sensitive { "${name}File" = mkSecretFileOption name; };
+
+  platformLabels = {
+    discordDesktop = "Discord desktop";
+    vesktop = "Vesktop";
+    web = "web";
+  };
+
+  # Notes on the builds a plugin is bundled into, from its directory suffix.
+  describeTargets =
+    targets:
+    let
+      platforms = targets.platforms;
+    in
+    lib.optional (builtins.length platforms < builtins.length (builtins.attrNames platformLabels))
+      "Only available in the ${
+        lib.concatMapStringsSep " and " (platform: platformLabels.${platform}) platforms
+      } build${lib.optionalString (builtins.length platforms != 1) "s"}."
+    ++ lib.optional (targets.devOnly or false) "Only available in development builds.";
 
   mkPlugin =
     _name: plugin:
     {
-      enable = mkEnableOption plugin.description;
+      enable = mkEnableOption plugin.description // {
+        default = plugin.required || plugin.enabledByDefault;
+        description = lib.concatStringsSep "\n\n" (
+          [ "Whether to enable ${plugin.description}." ]
+          ++ lib.optionals (plugin.targets != null) (describeTargets plugin.targets)
+        );
+      };
     }
-    // mapAttrs mkSettingOption plugin.settings;
+    // lib.concatMapAttrs mkSettingOptions plugin.settings;
 in
 mapAttrs mkPlugin data
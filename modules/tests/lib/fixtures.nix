@@ -5,6 +5,13 @@ let
   vencordNames = builtins.attrNames (lib.importJSON ../../plugins/vencord.json);
   equicordNames = builtins.attrNames (lib.importJSON ../../plugins/equicord.json);
 
+  dependencyFile = ../../plugins/dependencies.json;
+  vencordDependencies =
+    if builtins.pathExists dependencyFile then
+      (lib.importJSON dependencyFile).vencord.dependencies
+    else
+      { };
+
   sharedSet = lib.genAttrs sharedNames (_: null);
   vencordSet = lib.genAttrs vencordNames (_: null);
   equicordSet = lib.genAttrs equicordNames (_: null);
@@ -24,5 +31,19 @@ in
     firstEquicordOnly = lib.findFirst (
       name: !(builtins.hasAttr name sharedSet) && !(builtins.hasAttr name vencordSet)
     ) (throw "no equicord-only plugin found") equicordNames;
+
+    # A Vencord plugin with a single dependency, or null before dependencies.json is generated.
+    firstVencordDependent = lib.findFirst (entry: entry != null) null (
+      lib.mapAttrsToList (
+        name: dependencies:
+        if builtins.length dependencies != 1 then
+          null
+        else
+          {
+            inherit name;
+            dependency = builtins.head dependencies;
+          }
+      ) vencordDependencies
+    );
   };
 }
@@ -8,6 +8,7 @@ let
     ./mutual-exclusivity.nix
     ./plugin-client-compat.nix
     ./deprecated-plugins.nix
+    ./plugin-dependencies.nix
   ];
 in
 testLib.run.tests "assertions-test" tests
@@ -0,0 +1,52 @@
+{ testLib, lib }:
+
+let
+  inherit (testLib.assertions) hmWarnings;
+  inherit (testLib.fixtures.plugins) firstShared firstVencordDependent;
+
+  mentionsUnmetDependencies = lib.hasInfix "depend on plugins that are disabled or not available";
+in
+{
+  "plugin without unmet dependencies does not warn" =
+    let
+      warnings = hmWarnings {
+        enable = true;
+        discord.vencord.enable = true;
+        config.plugins.${firstShared}.enable = true;
+      };
+    in
+    assert !(builtins.any mentionsUnmetDependencies warnings);
+    true;
+}
+// lib.optionalAttrs (firstVencordDependent != null) (
+  let
+    inherit (firstVencordDependent) name dependency;
+  in
+  {
+    "plugin with a disabled dependency warns" =
+      let
+        warnings = hmWarnings {
+          enable = true;
+          discord.vencord.enable = true;
+          config.plugins.${name}.enable = true;
+          config.plugins.${dependency}.enable = false;
+        };
+      in
+      assert builtins.any (
+        message: mentionsUnmetDependencies message && lib.hasInfix "${name} (${dependency})" message
+      ) warnings;
+      true;
+
+    "plugin with enabled dependencies does not warn about them" =
+      let
+        warnings = hmWarnings {
+          enable = true;
+          discord.vencord.enable = true;
+          config.plugins.${name}.enable = true;
+          config.plugins.${dependency}.enable = true;
+        };
+      in
+      assert !(builtins.any (message: lib.hasInfix "${name} (${dependency})" message) warnings);
+      true;
+  }
+)
@@ -209,4 +209,29 @@ in
     assert lib.hasInfix "cp -r ${storePlugin} src/userplugins/BetterAudioDefaults" postPatch;
     assert !(lib.hasInfix (toString localPlugin) postPatch);
     true;
+
+  "submodule-typed settings evaluate as attribute sets" =
+    let
+      # The generator writes submodule types as `types.attrs`, the form parseType understands
+      options = import ../../../plugins/mkPluginOptions.nix {
+        inherit lib;
+        file = builtins.toFile "submodule-plugin.json" (
+          builtins.toJSON {
+            sample = {
+              description = "Sample";
+              settings.rules = {
+                type = "types.listOf types.attrs";
+                default = [ ];
+                description = "Rules";
+              };
+            };
+          }
+        );
+      };
+      ruleType = options.sample.rules.type;
+    in
+    assert ruleType.name == "listOf";
+    assert ruleType.nestedTypes.elemType.name == "attrs";
+    assert ruleType.check [ { pattern = "a"; } ];
+    true;
 }
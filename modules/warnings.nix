@@ -17,8 +17,11 @@ let
     pluginNameMigrations
     pluginsOf
     collectDeprecatedPlugins
+    collectDisabledRequiredPlugins
     collectEnabledEquicordOnlyPlugins
+    collectEnabledUnbundledPlugins
     collectEnabledVencordOnlyPlugins
+    collectUnmetPluginDependencies
     ;
 
   isOption = value: builtins.isAttrs value && (value._type or null) == "option";
@@ -63,6 +66,46 @@ let
 
   deprecatedPlugins = deprecatedTypedPlugins ++ deprecatedFreeformPlugins;
 
+  # Builds the enabled clients load; Equibop uses the Vesktop build and Legcord the web one.
+  activePlatforms =
+    lib.optional (
+      cfg.discord.enable && (cfg.discord.vencord.enable || cfg.discord.equicord.enable)
+    ) "discordDesktop"
+    ++ lib.optional (cfg.vesktop.enable || cfg.equibop.enable) "vesktop"
+    ++ lib.optional (
+      cfg.legcord.enable && (cfg.legcord.vencord.enable || cfg.legcord.equicord.enable)
+    ) "web";
+
+  unbundledPlugins = lib.optionals (activePlatforms != [ ]) (
+    collectEnabledUnbundledPlugins activePlatforms { plugins = configuredPlugins; }
+  );
+
+  # Dependencies are resolved against the plugin set of each client family in use.
+  activeClients =
+    lib.optional (
+      with cfg; discord.vencord.enable || vesktop.enable || legcord.vencord.enable
+    ) "vencord"
+    ++ lib.optional (
+      with cfg; discord.equicord.enable || equibop.enable || legcord.equicord.enable
+    ) "equicord";
+
+  generateUnmetDependencyWarning =
+    client: unmet:
+    let
+      describe = name: dependencies: "${name} (${lib.concatStringsSep ", " dependencies})";
+    in
+    ''
+      The following plugins are enabled but depend on plugins that are disabled or not available in ${client}: ${lib.concatStringsSep ", " (lib.mapAttrsToList describe unmet)}. Enable their dependencies, or they may fail to start.
+    '';
+
+  unmetDependencyWarnings = lib.concatMap (
+    client:
+    let
+      unmet = collectUnmetPluginDependencies client { plugins = configuredPlugins; };
+    in
+    lib.optional (unmet != { }) (generateUnmetDependencyWarning client unmet)
+  ) activeClients;
+
   deprecatedPluginsSorted = lib.filter (oldName: builtins.elem oldName deprecatedPlugins) (
     builtins.attrNames pluginNameMigrations
   );
@@ -112,6 +155,10 @@ in
       ++ lib.lists.optional discordHasNoModClient ''
         programs.nixcord.discord.vencord.enable and programs.nixcord.discord.equicord.enable are both disabled. Discord will be installed without Vencord or Equicord.
       ''
+      ++ lib.lists.optional (unbundledPlugins != [ ]) ''
+        The following plugins are enabled but not bundled into the builds of the enabled clients: ${lib.concatStringsSep ", " unbundledPlugins}. They will not run; see each plugin's `enable` option for the builds it is available in.
+      ''
+      ++ unmetDependencyWarnings
       ++ lib.lists.optional discordKrispUnsupported ''
         programs.nixcord.discord.krisp.enable is enabled, but the selected Discord package does not expose nixcord's withKrisp patch override. Krisp patching will be skipped for this package.
       '';
@@ -120,6 +167,7 @@ in
       inherit
         cfg
         pluginsOf
+        collectDisabledRequiredPlugins
         collectEnabledEquicordOnlyPlugins
         collectEnabledVencordOnlyPlugins
         ;
@@ -0,0 +1,68 @@
+import type { PluginAuthor } from '@nixcord/shared';
+import type { Node, ObjectLiteralExpression, TypeChecker } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import {
+  extractStringLiteralValue,
+  getPropertyInitializer,
+  resolveIdentifierInitializerNode,
+  unwrapNode,
+} from '../foundation/index.js';
+import { AUTHORS_PROPERTY, ID_PROPERTY, NAME_PROPERTY } from './constants.js';
+
+const OBJECT_FREEZE = 'Object.freeze';
+const BIGINT_SUFFIX_PATTERN = /n$/;
+const UNKNOWN_AUTHOR_ID = '0';
+
+/** `Devs` and `EquicordDevs` are declared as `Object.freeze({ ... } satisfies ...)`. */
+const unwrapFreeze = (node: Node): Node => {
+  const call = unwrapNode(node).asKind(SyntaxKind.CallExpression);
+  const [arg] = call?.getExpression().getText() === OBJECT_FREEZE ? call.getArguments() : [];
+  return unwrapNode(arg ?? node);
+};
+
+/** The `{ name, id }` object an `authors` entry refers to, e.g. `Devs.Ven` or an inline literal. */
+const resolveAuthorObject = (
+  element: Node,
+  checker: TypeChecker
+): ObjectLiteralExpression | undefined => {
+  const node = unwrapNode(element);
+  const inline = node.asKind(SyntaxKind.ObjectLiteralExpression);
+  if (inline) return inline;
+
+  const access = node.asKind(SyntaxKind.PropertyAccessExpression);
+  const devsInit = access && resolveIdentifierInitializerNode(access.getExpression(), checker);
+  const devs = devsInit && unwrapFreeze(devsInit).asKind(SyntaxKind.ObjectLiteralExpression);
+  const dev = access && devs && getPropertyInitializer(devs, access.getName());
+  return dev && unwrapNode(dev).asKind(SyntaxKind.ObjectLiteralExpression);
+};
+
+/** Discord user IDs are written as bigint literals; `0n` marks an author without one. */
+const extractAuthorId = (author: ObjectLiteralExpression): string | undefined => {
+  const init = getPropertyInitializer(author, ID_PROPERTY);
+  const literal = init && unwrapNode(init);
+  const id =
+    literal?.isKind(SyntaxKind.BigIntLiteral) || literal?.isKind(SyntaxKind.NumericLiteral)
+      ? literal.getText().replace(BIGINT_SUFFIX_PATTERN, '')
+      : undefined;
+  return id === UNKNOWN_AUTHOR_ID ? undefined : id;
+};
+
+/**
+ * Authors listed in `authors`, resolved through the `Devs`/`EquicordDevs` constants. Entries
+ * that cannot be resolved statically are left out.
+ */
+export const extractAuthors = (
+  obj: ObjectLiteralExpression,
+  checker: TypeChecker
+): PluginAuthor[] | undefined => {
+  const init = getPropertyInitializer(obj, AUTHORS_PROPERTY);
+  const array = init && unwrapNode(init).asKind(SyntaxKind.ArrayLiteralExpression);
+  if (!array) return undefined;
+  return array.getElements().flatMap((element): PluginAuthor[] => {
+    const author = resolveAuthorObject(element, checker);
+    const name = author && extractStringLiteralValue(author, NAME_PROPERTY);
+    if (!author || name === undefined) return [];
+    const id = extractAuthorId(author);
+    return [{ name, ...(id !== undefined && { id }) }];
+  });
+};
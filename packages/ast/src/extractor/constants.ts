@@ -6,6 +6,11 @@ export const GET_FUNCTION_NAME = 'get';
 export const NAME_PROPERTY = 'name';
 export const DESCRIPTION_PROPERTY = 'description';
 export const IS_MODIFIED_PROPERTY = 'isModified';
+export const DEPENDENCIES_PROPERTY = 'dependencies';
+export const REQUIRED_PROPERTY = 'required';
+export const ENABLED_BY_DEFAULT_PROPERTY = 'enabledByDefault';
+export const AUTHORS_PROPERTY = 'authors';
+export const ID_PROPERTY = 'id';
 export const DEFAULT_PROPERTY = 'default';
 export const TYPE_PROPERTY = 'type';
 export const OPTIONS_PROPERTY = 'options';
@@ -28,7 +33,7 @@ export const TS_TYPE_UNDEFINED = 'undefined';
 export const TS_ARRAY_BRACKET_PATTERN = '[]';
 export const TS_ARRAY_GENERIC_PATTERN = 'Array<';
 
-// Re-export canonical Nix type strings from shared (authoritative source)
+// Re-export canonical Nix types from shared (authoritative source)
 export {
   NIX_ENUM_TYPE,
   NIX_TYPE_ATTRS,
@@ -63,6 +68,5 @@ export const BOOLEAN_ENUM_LENGTH = 2;
 export const ARRAY_FIRST_INDEX = 0;
 
 // Regex helpers for identifier/type parsing
-export const RESTART_REQUIRED_SUFFIX = '(restart required)';
 export const STRING_ARRAY_TYPE_PATTERN = /string\[\]|\bArray<string>\b/;
 export { INTEGER_STRING_PATTERN } from '@nixcord/shared';
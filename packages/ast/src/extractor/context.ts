@@ -5,6 +5,7 @@ import {
   type ExtractedSettings,
   type ExtractionResult,
   type SettingsExtractionDiagnostic,
+  type SettingsExtractionOrigin,
   type SettingsExtractionSkip,
   type SettingsExtractionUnsupported,
 } from './types.js';
@@ -50,9 +51,10 @@ export const settingsResult = (
   items: ExtractedSettings,
   diagnostics: readonly SettingsExtractionDiagnostic[] = [],
   skipped: readonly SettingsExtractionSkip[] = [],
-  unsupported: readonly SettingsExtractionUnsupported[] = []
+  unsupported: readonly SettingsExtractionUnsupported[] = [],
+  origins: readonly SettingsExtractionOrigin[] = []
 ): ExtractionResult<ExtractedSettings> =>
-  createExtractionResult(items, diagnostics, skipped, unsupported);
+  createExtractionResult(items, diagnostics, skipped, unsupported, origins);
 
 export const mergeSettingsResults = (
   ...results: readonly ExtractionResult<ExtractedSettings>[]
@@ -61,9 +63,42 @@ export const mergeSettingsResults = (
     Object.assign({}, ...results.map((result) => result.items)),
     results.flatMap((result) => result.diagnostics),
     results.flatMap((result) => result.skipped),
-    results.flatMap((result) => result.unsupported)
+    results.flatMap((result) => result.unsupported),
+    // Later results win for duplicate keys, matching Object.assign on the items above
+    Array.from(
+      new Map(
+        results.flatMap((result) => result.origins).map((origin) => [origin.key, origin] as const)
+      ).values()
+    )
   );
 
+export const settingOrigin = (
+  key: string,
+  node: SettingsExtractionOrigin['node'],
+  extractor?: string
+): SettingsExtractionOrigin => ({
+  key,
+  node,
+  extractor,
+});
+
+/** Attribute origins that no nested extractor claimed to the pattern extractor that ran. */
+export const withOriginExtractor = (
+  result: ExtractionResult<ExtractedSettings>,
+  extractor: string
+): ExtractionResult<ExtractedSettings> => ({
+  ...result,
+  origins: result.origins.map((origin) =>
+    origin.extractor === undefined ? { ...origin, extractor } : origin
+  ),
+});
+
+export const prefixOrigins = (
+  origins: readonly SettingsExtractionOrigin[],
+  prefix: string
+): SettingsExtractionOrigin[] =>
+  origins.map((origin) => ({ ...origin, key: `${prefix}.${origin.key}` }));
+
 export const extractionDiagnostic = (
   kind: SettingsExtractionDiagnostic['kind'],
   message: string,
@@ -1,3 +1,4 @@
+import { type NixType, nixTypeEquals } from '@nixcord/shared';
 import type { ObjectLiteralExpression, TypeChecker } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import { getDefaultPropertyInitializer } from '../foundation/index.js';
@@ -81,13 +82,13 @@ const resolveAttrsDefault = (valueObj: ObjectLiteralExpression, checker: TypeChe
 };
 
 export interface ResolvedDefaultValue {
-  finalNixType: string;
+  finalNixType: NixType;
   defaultValue: unknown;
 }
 
 export function resolveDefaultValue(
   valueObj: ObjectLiteralExpression,
-  finalNixType: string,
+  finalNixType: NixType,
   defaultLiteralValue: unknown,
   selectEnumValues: readonly (string | number | boolean)[] | undefined,
   checker: TypeChecker
@@ -103,7 +104,7 @@ export function resolveDefaultValue(
   }
 
   if (
-    finalNixType === NIX_TYPE_LIST_OF_ATTRS &&
+    nixTypeEquals(finalNixType, NIX_TYPE_LIST_OF_ATTRS) &&
     Array.isArray(defaultLiteralValue) &&
     defaultLiteralValue.length === 0 &&
     hasStringArrayDefault(valueObj)
@@ -111,12 +112,12 @@ export function resolveDefaultValue(
     return { finalNixType: NIX_TYPE_LIST_OF_STR, defaultValue: [] };
   }
 
-  if (finalNixType === NIX_TYPE_BOOL && defaultLiteralValue === undefined) {
+  if (nixTypeEquals(finalNixType, NIX_TYPE_BOOL) && defaultLiteralValue === undefined) {
     const result = extractSelectDefault(valueObj, checker);
     defaultValue = result.ok && result.value !== undefined ? result.value : false;
   }
 
-  if (finalNixType === NIX_ENUM_TYPE && defaultLiteralValue === undefined) {
+  if (nixTypeEquals(finalNixType, NIX_ENUM_TYPE) && defaultLiteralValue === undefined) {
     const result = extractSelectDefault(valueObj, checker);
     defaultValue =
       result.ok && result.value !== undefined
@@ -126,7 +127,7 @@ export function resolveDefaultValue(
           : undefined;
   }
 
-  if (finalNixType === NIX_TYPE_STR && defaultValue === undefined) {
+  if (nixTypeEquals(finalNixType, NIX_TYPE_STR) && defaultValue === undefined) {
     finalNixTypeWithNull = NIX_TYPE_NULL_OR_STR;
     defaultValue = null;
     const attrsResult = classifyAsAttrsType(valueObj, checker);
@@ -136,22 +137,22 @@ export function resolveDefaultValue(
     }
   }
 
-  const isNullOrType = finalNixType.includes('nullOr') || finalNixTypeWithNull.includes('nullOr');
+  const isNullOrType = finalNixType.kind === 'nullOr' || finalNixTypeWithNull.kind === 'nullOr';
   if (isNullOrType && defaultLiteralValue === undefined) {
     defaultValue = null;
-    if (finalNixType.includes('nullOr') && !finalNixTypeWithNull.includes('nullOr')) {
+    if (finalNixType.kind === 'nullOr' && finalNixTypeWithNull.kind !== 'nullOr') {
       finalNixTypeWithNull = finalNixType;
     }
   }
 
-  if (finalNixType === NIX_TYPE_ATTRS && defaultValue === undefined) {
+  if (nixTypeEquals(finalNixType, NIX_TYPE_ATTRS) && defaultValue === undefined) {
     defaultValue = resolveAttrsDefault(valueObj, checker);
     if (defaultValue === undefined) {
       defaultValue = isBareComponentSetting(valueObj) ? {} : resolveAttrsDefault(valueObj, checker);
     }
   }
 
-  if (finalNixType === NIX_TYPE_NULL_OR_STR && defaultValue === null) {
+  if (nixTypeEquals(finalNixType, NIX_TYPE_NULL_OR_STR) && defaultValue === null) {
     const attrsResult = classifyAsAttrsType(valueObj, checker);
     if (attrsResult) {
       finalNixTypeWithNull = NIX_TYPE_ATTRS;
@@ -159,12 +160,12 @@ export function resolveDefaultValue(
     }
   }
 
-  if (finalNixTypeWithNull === NIX_TYPE_ATTRS && Array.isArray(defaultValue)) {
+  if (nixTypeEquals(finalNixTypeWithNull, NIX_TYPE_ATTRS) && Array.isArray(defaultValue)) {
     finalNixTypeWithNull = NIX_TYPE_LIST_OF_ATTRS;
   }
 
-  if (finalNixTypeWithNull === NIX_TYPE_ATTRS && defaultValue === null) {
-    finalNixTypeWithNull = `types.nullOr ${NIX_TYPE_ATTRS}`;
+  if (nixTypeEquals(finalNixTypeWithNull, NIX_TYPE_ATTRS) && defaultValue === null) {
+    finalNixTypeWithNull = { kind: 'nullOr', elem: NIX_TYPE_ATTRS };
   }
 
   return { finalNixType: finalNixTypeWithNull, defaultValue };
@@ -8,6 +8,7 @@ import { DESCRIPTION_PROPERTY, NIX_TYPE_BOOL } from './constants.js';
 import {
   type ExtractionContext,
   mergeSettingsResults,
+  settingOrigin,
   settingsResult,
   skippedSetting,
   skipResult,
@@ -27,7 +28,7 @@ import {
   resolveArrayLiteral,
   resolveObjectLiteral,
 } from './setting-shape.js';
-import type { ExtractedSettings, ExtractionResult } from './types.js';
+import type { ExtractedSettings, ExtractionResult, SettingsExtractionOrigin } from './types.js';
 
 type GeneratedSettingPair = {
   key: string;
@@ -275,10 +276,12 @@ export const extractGeneratedSettingsFromObjectEntriesReduce = (
     : undefined;
 
   const result: Record<string, PluginSetting | PluginConfig> = {};
+  const origins: SettingsExtractionOrigin[] = [];
   for (const prop of sourceInit.getProperties()) {
     const propAssignment = prop.asKind(SyntaxKind.PropertyAssignment);
     if (!propAssignment) continue;
     const key = propAssignment.getName();
+    origins.push(settingOrigin(key, propAssignment));
     const sourceValue = propAssignment.getInitializer()?.asKind(SyntaxKind.ObjectLiteralExpression);
     const description = sourceValue
       ? (extractStringLiteralValue(sourceValue, DESCRIPTION_PROPERTY) ??
@@ -305,5 +308,5 @@ export const extractGeneratedSettingsFromObjectEntriesReduce = (
     );
   }
 
-  return settingsResult(result);
+  return settingsResult(result, [], [], [], origins);
 };
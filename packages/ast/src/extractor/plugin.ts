@@ -1,8 +1,22 @@
 import type { CallExpression, ObjectLiteralExpression, SourceFile, TypeChecker } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
-import { extractBooleanLiteralValue, extractStringLiteralValue } from '../foundation/index.js';
+import {
+  extractBooleanLiteralValue,
+  extractStringLiteralValue,
+  getPropertyInitializer,
+  tryEvaluate,
+  unwrapNode,
+} from '../foundation/index.js';
 import { findDefinePluginCall } from '../navigator/plugin-navigator.js';
-import { DESCRIPTION_PROPERTY, IS_MODIFIED_PROPERTY, NAME_PROPERTY } from './constants.js';
+import { extractAuthors } from './authors.js';
+import {
+  DEPENDENCIES_PROPERTY,
+  DESCRIPTION_PROPERTY,
+  ENABLED_BY_DEFAULT_PROPERTY,
+  IS_MODIFIED_PROPERTY,
+  NAME_PROPERTY,
+  REQUIRED_PROPERTY,
+} from './constants.js';
 import type { ExtractedPluginInfo } from './types.js';
 import { ExtractedPluginInfoSchema } from './types.js';
 
@@ -11,9 +25,23 @@ const getFirstObjectArg = (callExpr: CallExpression): ObjectLiteralExpression |
   return args[0]?.asKind(SyntaxKind.ObjectLiteralExpression);
 };
 
+/** Plugin names in `dependencies`, given as string literals or constants that evaluate to one. */
+const extractDependencies = (
+  obj: ObjectLiteralExpression,
+  checker: TypeChecker
+): string[] | undefined => {
+  const init = getPropertyInitializer(obj, DEPENDENCIES_PROPERTY);
+  const array = init && unwrapNode(init).asKind(SyntaxKind.ArrayLiteralExpression);
+  if (!array) return undefined;
+  return array.getElements().flatMap((element) => {
+    const value = tryEvaluate(element, checker);
+    return typeof value === 'string' ? [value] : [];
+  });
+};
+
 export function extractPluginInfo(
   sourceFile: SourceFile,
-  _checker: TypeChecker
+  checker: TypeChecker
 ): ExtractedPluginInfo {
   const call = findDefinePluginCall(sourceFile);
   const obj = call ? getFirstObjectArg(call) : undefined;
@@ -23,10 +51,18 @@ export function extractPluginInfo(
   const name = extractStringLiteralValue(obj, NAME_PROPERTY);
   const description = extractStringLiteralValue(obj, DESCRIPTION_PROPERTY);
   const isModified = extractBooleanLiteralValue(obj, IS_MODIFIED_PROPERTY);
+  const dependencies = extractDependencies(obj, checker);
+  const required = extractBooleanLiteralValue(obj, REQUIRED_PROPERTY);
+  const enabledByDefault = extractBooleanLiteralValue(obj, ENABLED_BY_DEFAULT_PROPERTY);
+  const authors = extractAuthors(obj, checker);
 
   return ExtractedPluginInfoSchema.parse({
     ...(name !== undefined && { name }),
     ...(description !== undefined && { description }),
     ...(isModified !== undefined && { isModified }),
+    ...(dependencies !== undefined && dependencies.length > 0 && { dependencies }),
+    ...(required && { required }),
+    ...(enabledByDefault && { enabledByDefault }),
+    ...(authors !== undefined && authors.length > 0 && { authors }),
   });
 }
@@ -1,4 +1,4 @@
-import type { PluginConfig, PluginSetting } from '@nixcord/shared';
+import type { NixType, PluginConfig, PluginSetting } from '@nixcord/shared';
 import type { CallExpression, Node, Program, TypeChecker, TypeLiteralNode } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import type { EnumLiteral } from '../foundation/index.js';
@@ -12,7 +12,6 @@ import {
   NIX_TYPE_INT,
   NIX_TYPE_LIST_OF_STR,
   NIX_TYPE_NULL_OR_STR,
-  NIX_TYPE_STR,
 } from './constants.js';
 import { extractLiteralUnionFromTypes } from './literal-value.js';
 import { buildPluginSetting } from './setting-shape.js';
@@ -116,7 +115,7 @@ const inferPrivateSettingType = (
   typeNode: Node | undefined,
   checker: TypeChecker,
   program: Program
-): { type: string; defaultValue: unknown; enumValues?: readonly EnumLiteral[] } => {
+): { type: NixType; defaultValue: unknown; enumValues?: readonly EnumLiteral[] } => {
   if (!typeNode) return { type: NIX_TYPE_ATTRS, defaultValue: {} };
 
   const typeText = typeNode.getText().replace(/\s+/g, ' ');
@@ -136,15 +135,14 @@ const inferPrivateSettingType = (
   }
 
   const typeResult = tsTypeToNixType({ type: typeNode }, program, checker);
-  switch (typeResult.nixType) {
-    case NIX_TYPE_BOOL:
+  switch (typeResult.nixType.kind) {
+    case 'bool':
       return { type: NIX_TYPE_BOOL, defaultValue: false };
-    case NIX_TYPE_INT:
+    case 'int':
       return { type: NIX_TYPE_INT, defaultValue: 0 };
-    case NIX_TYPE_FLOAT:
+    case 'float':
       return { type: NIX_TYPE_FLOAT, defaultValue: 0 };
-    case NIX_TYPE_STR:
-    case NIX_TYPE_NULL_OR_STR:
+    case 'str':
       return { type: NIX_TYPE_NULL_OR_STR, defaultValue: null };
     default:
       return { type: NIX_TYPE_ATTRS, defaultValue: {} };
@@ -0,0 +1,113 @@
+import type { NixType, PluginConfig, PluginSetting } from '@nixcord/shared';
+import type { SourceFile } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import { getPropertyInitializer, unwrapNode } from '../foundation/index.js';
+
+const FETCH_FUNCTION = 'fetch';
+const HEADERS_PROPERTY = 'headers';
+const SETTINGS_STORE = 'settings.store';
+
+/** Words that name a credential on their own, e.g. `absPassword` or `gofileToken`. */
+const SENSITIVE_NAME_WORDS = new Set([
+  'apikey',
+  'cookie',
+  'credential',
+  'credentials',
+  'passphrase',
+  'passwd',
+  'password',
+  'passwords',
+  'secret',
+  'token',
+]);
+
+/** Word pairs that only name a credential together, e.g. `jfApiKey` but not `hostKey`. */
+const SENSITIVE_NAME_PAIRS: readonly (readonly [string, string])[] = [
+  ['access', 'key'],
+  ['api', 'key'],
+  ['auth', 'key'],
+  ['private', 'key'],
+  ['session', 'id'],
+  ['webhook', 'url'],
+];
+
+/** Credential wording in a description or placeholder, e.g. "Your DeepL API key". */
+const SENSITIVE_TEXT_PATTERN =
+  /\b(?:api[ -]?key|(?:access|api|auth|bearer|bot|refresh|session|user) token|password|passphrase|secret(?: access)? key|client secret|webhook url)s?\b/i;
+
+const NAME_WORD_PATTERN = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g;
+
+const nameWords = (key: string): string[] =>
+  (key.match(NAME_WORD_PATTERN) ?? []).map((word) => word.toLowerCase());
+
+const hasSensitiveName = (key: string): boolean => {
+  const words = nameWords(key);
+  return (
+    words.some((word) => SENSITIVE_NAME_WORDS.has(word)) ||
+    words.some((word, index) =>
+      SENSITIVE_NAME_PAIRS.some(([first, second]) => word === first && words[index + 1] === second)
+    )
+  );
+};
+
+/** Only text can hold a credential; a `token` toggle or `maxTokens` count is not one. */
+const isTextType = (type: NixType): boolean =>
+  type.kind === 'str' || (type.kind === 'nullOr' && type.elem.kind === 'str');
+
+/**
+ * Whether a setting holds a credential, judged from its name, description and `placeholder`.
+ * Usage in `fetch` headers is found per plugin by {@link markFetchHeaderSettings}.
+ */
+export const isSensitiveSetting = (
+  key: string,
+  type: NixType,
+  description: string | undefined,
+  placeholder: string | undefined
+): boolean =>
+  isTextType(type) &&
+  (hasSensitiveName(key) ||
+    SENSITIVE_TEXT_PATTERN.test(description ?? '') ||
+    SENSITIVE_TEXT_PATTERN.test(placeholder ?? ''));
+
+/** Keys of `settings.store` read inside the `headers` of a `fetch(url, init)` call. */
+const findFetchHeaderSettingKeys = (sourceFiles: readonly SourceFile[]): Set<string> => {
+  const keys = new Set<string>();
+  for (const sourceFile of sourceFiles) {
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      if (call.getExpression().getText() !== FETCH_FUNCTION) continue;
+      const [, initArg] = call.getArguments();
+      const init = initArg && unwrapNode(initArg).asKind(SyntaxKind.ObjectLiteralExpression);
+      const headers = init && getPropertyInitializer(init, HEADERS_PROPERTY);
+      if (!headers) continue;
+      for (const access of [
+        headers,
+        ...headers.getDescendantsOfKind(SyntaxKind.PropertyAccessExpression),
+      ]) {
+        const propAccess = access.asKind(SyntaxKind.PropertyAccessExpression);
+        if (propAccess?.getExpression().getText() === SETTINGS_STORE) {
+          keys.add(propAccess.getName());
+        }
+      }
+    }
+  }
+  return keys;
+};
+
+/**
+ * Mark the text settings a plugin sends in `fetch` headers, e.g.
+ * `headers: { Authorization: settings.store.token }`, as sensitive.
+ */
+export const markFetchHeaderSettings = (
+  settings: Readonly<Record<string, PluginSetting | PluginConfig>>,
+  sourceFiles: readonly SourceFile[]
+): Record<string, PluginSetting | PluginConfig> => {
+  const keys = findFetchHeaderSettingKeys(sourceFiles);
+  return Object.fromEntries(
+    Object.entries(settings).map(([key, setting]) => [
+      key,
+      keys.has(key) && !('settings' in setting) && isTextType(setting.type)
+        ? { ...setting, sensitive: true }
+        : setting,
+    ])
+  );
+};
@@ -1,4 +1,4 @@
-import type { PluginSetting } from '@nixcord/shared';
+import type { NixType, PluginSetting } from '@nixcord/shared';
 import type {
   ArrowFunction,
   CallExpression,
@@ -35,7 +35,7 @@ import {
   extractStringPropertyValue,
 } from './literal-value.js';
 
-export const inferSettingTypeFromDefault = (defaultValue: unknown): string => {
+export const inferSettingTypeFromDefault = (defaultValue: unknown): NixType => {
   if (typeof defaultValue === 'boolean') return NIX_TYPE_BOOL;
   if (typeof defaultValue === 'number')
     return Number.isInteger(defaultValue) ? NIX_TYPE_INT : NIX_TYPE_FLOAT;
@@ -50,7 +50,7 @@ export const inferSettingTypeFromDefault = (defaultValue: unknown): string => {
 
 export const buildPluginSetting = (
   key: string,
-  finalNixType: string,
+  finalNixType: NixType,
   description: string | undefined,
   defaultValue: unknown,
   selectEnumValues: readonly (string | number | boolean)[] | undefined,
@@ -61,11 +61,7 @@ export const buildPluginSetting = (
 ): PluginSetting => ({
   name: key,
   type: finalNixType,
-  description: description
-    ? restartNeeded
-      ? `${description} (restart required)`
-      : description
-    : undefined,
+  description: description || undefined,
   default: defaultValue,
   enumValues: selectEnumValues && selectEnumValues.length > 0 ? selectEnumValues : undefined,
   enumLabels:
@@ -23,12 +23,15 @@ import {
   type ExtractionContext,
   extractionDiagnostic,
   mergeSettingsResults,
+  prefixOrigins,
+  settingOrigin,
   settingsResult,
   skippedSetting,
   skipResult,
   unsupportedResult,
   unsupportedSetting,
   withBindings,
+  withOriginExtractor,
   withSourceFile,
 } from './context.js';
 import { isBareComponentSetting, resolveDefaultValue } from './default-value-resolution.js';
@@ -38,12 +41,14 @@ import {
 } from './generated-settings.js';
 import { extractPrivateSettingsFromChainedCall } from './private-settings.js';
 import { extractSelectOptions } from './select/index.js';
+import { isSensitiveSetting } from './sensitive.js';
 import {
   buildPluginSetting,
   extractProperties,
   isSettingsGroup,
   resolveSettingValueObject,
 } from './setting-shape.js';
+import { describeSliderBounds, extractSliderMarkers } from './slider.js';
 import type { ExtractedSettings, ExtractionResult } from './types.js';
 
 const isHiddenSetting = (valueObj: ObjectLiteralExpression): boolean =>
@@ -64,12 +69,14 @@ const extractNormalSetting = (
   const nonEmptyExtractedOptions =
     extractedOptions && extractedOptions.length > 0 ? extractedOptions : undefined;
   const extractedLabels = optionsResult.ok ? optionsResult.value.labels : undefined;
+  const slider = extractSliderMarkers(valueObj, context.checker);
 
   const typeResult = tsTypeToNixType(
     {
       type: props.typeNode,
       default: props.defaultLiteralValue,
       options: nonEmptyExtractedOptions ?? props.typeAssertionEnumValues,
+      slider,
     },
     context.program,
     context.checker
@@ -82,10 +89,10 @@ const extractNormalSetting = (
     context.checker
   );
 
-  return buildPluginSetting(
+  const setting = buildPluginSetting(
     key,
     defaultResolution.finalNixType,
-    props.description,
+    describeSliderBounds(props.description, slider),
     defaultResolution.defaultValue,
     typeResult.enumValues,
     nonEmptyExtractedOptions ? extractedLabels : undefined,
@@ -93,6 +100,9 @@ const extractNormalSetting = (
     props.hidden,
     props.restartNeeded
   );
+  return isSensitiveSetting(key, setting.type, props.description, props.placeholder)
+    ? { ...setting, sensitive: true }
+    : setting;
 };
 
 const extractSettingFromValueObjectDetailed = (
@@ -131,7 +141,8 @@ const extractSettingFromValueObjectDetailed = (
       },
       nestedResult.diagnostics,
       nestedResult.skipped,
-      nestedResult.unsupported
+      nestedResult.unsupported,
+      [settingOrigin(key, valueObj), ...prefixOrigins(nestedResult.origins, key)]
     );
   }
 
@@ -148,8 +159,11 @@ const extractSettingFromValueObjectDetailed = (
     );
   }
 
+  const componentOrigins = [settingOrigin(key, valueObj, 'component-settings')];
   const componentConfig = buildStoreBackedComponentConfig(key, valueObj, context.checker);
-  if (componentConfig) return settingsResult({ [key]: componentConfig });
+  if (componentConfig) {
+    return settingsResult({ [key]: componentConfig }, [], [], [], componentOrigins);
+  }
 
   const componentSetting = buildStoreBackedComponentSetting(
     key,
@@ -157,7 +171,9 @@ const extractSettingFromValueObjectDetailed = (
     context.checker,
     context.bindings
   );
-  if (componentSetting) return settingsResult({ [key]: componentSetting });
+  if (componentSetting) {
+    return settingsResult({ [key]: componentSetting }, [], [], [], componentOrigins);
+  }
 
   if (isBareComponentSetting(valueObj)) {
     return skipResult(
@@ -171,7 +187,13 @@ const extractSettingFromValueObjectDetailed = (
     );
   }
 
-  return settingsResult({ [key]: extractNormalSetting(key, valueObj, context) });
+  return settingsResult(
+    { [key]: extractNormalSetting(key, valueObj, context) },
+    [],
+    [],
+    [],
+    [settingOrigin(key, valueObj)]
+  );
 };
 
 const extractSettingsFromResolvedValueDetailed = (
@@ -307,7 +329,7 @@ const extractSettingsFromSpreadExpression = (
 
   const extractor = spreadExtractors.find((candidate) => candidate.canHandle(unwrapped));
   return extractor
-    ? extractor.extract(unwrapped, context, skipHiddenCheck)
+    ? withOriginExtractor(extractor.extract(unwrapped, context, skipHiddenCheck), extractor.name)
     : unsupportedResult(
         unsupportedSetting(
           'unsupported-settings-argument',
@@ -420,7 +442,13 @@ export function extractSettingsFromCallDetailed(
   const callContext = withSourceFile(context, expr.getSourceFile());
   const privateSettings = extractPrivateSettingsFromChainedCall(expr, checker, program);
   const args = expr.getArguments();
-  const privateResult = settingsResult(privateSettings);
+  const privateResult = settingsResult(
+    privateSettings,
+    [],
+    [],
+    [],
+    Object.keys(privateSettings).map((key) => settingOrigin(key, expr, 'withPrivateSettings'))
+  );
   if (args.length === 0) {
     return Object.keys(privateSettings).length > 0
       ? privateResult
@@ -462,7 +490,10 @@ export function extractSettingsFromCallDetailed(
   );
 
   const publicSettings = extractor
-    ? extractor.extract(settingsArg, callContext, skipHiddenCheck)
+    ? withOriginExtractor(
+        extractor.extract(settingsArg, callContext, skipHiddenCheck),
+        extractor.name
+      )
     : unsupportedResult(
         unsupportedSetting(
           'unsupported-settings-argument',
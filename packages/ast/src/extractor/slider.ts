@@ -0,0 +1,94 @@
+import type { Node, ObjectLiteralExpression, TypeChecker } from 'ts-morph';
+import { SyntaxKind } from 'ts-morph';
+import {
+  extractBooleanLiteralValue,
+  getPropertyInitializer,
+  resolveIdentifierInitializerNode,
+  tryEvaluate,
+  unwrapNode,
+} from '../foundation/index.js';
+
+const MARKERS_PROPERTY = 'markers';
+const STICK_TO_MARKERS_PROPERTY = 'stickToMarkers';
+const MAKE_RANGE_FUNCTION = 'makeRange';
+
+export interface SliderMarkers {
+  readonly markers: readonly number[];
+  /** Vencord's slider snaps to its markers unless the setting opts out. */
+  readonly stickToMarkers: boolean;
+}
+
+/** Mirrors Vencord's `makeRange(start, end, step = 1)`, which rounds each step to two decimals. */
+const makeRange = (start: number, end: number, step: number): number[] => {
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) values.push(Math.round(value * 100) / 100);
+  return values;
+};
+
+const evaluateNumber = (node: Node | undefined, checker: TypeChecker): number | undefined => {
+  if (!node) return undefined;
+  const prefix = node.asKind(SyntaxKind.PrefixUnaryExpression);
+  if (prefix?.getOperatorToken() === SyntaxKind.MinusToken) {
+    const operand = evaluateNumber(prefix.getOperand(), checker);
+    return operand === undefined ? undefined : -operand;
+  }
+  const value = tryEvaluate(node, checker);
+  return typeof value === 'number' ? value : undefined;
+};
+
+const evaluateMakeRange = (node: Node, checker: TypeChecker): number[] | undefined => {
+  const call = node.asKind(SyntaxKind.CallExpression);
+  if (!call || call.getExpression().getText() !== MAKE_RANGE_FUNCTION) return undefined;
+  const [startArg, endArg, stepArg] = call.getArguments();
+  const start = evaluateNumber(startArg, checker);
+  const end = evaluateNumber(endArg, checker);
+  const step = stepArg ? evaluateNumber(stepArg, checker) : 1;
+  if (start === undefined || end === undefined || step === undefined || step <= 0) return undefined;
+  return makeRange(start, end, step);
+};
+
+/** Literal arrays (elements may be constants or arithmetic), spreads, and `makeRange(...)` calls. */
+const evaluateMarkers = (node: Node, checker: TypeChecker): number[] | undefined => {
+  const unwrapped = unwrapNode(node);
+  if (unwrapped.getKind() === SyntaxKind.Identifier) {
+    const resolved = resolveIdentifierInitializerNode(unwrapped, checker);
+    return resolved && resolved !== unwrapped ? evaluateMarkers(resolved, checker) : undefined;
+  }
+
+  const array = unwrapped.asKind(SyntaxKind.ArrayLiteralExpression);
+  if (!array) return evaluateMakeRange(unwrapped, checker);
+
+  const values: number[] = [];
+  for (const element of array.getElements()) {
+    const spread = element.asKind(SyntaxKind.SpreadElement);
+    const items = spread
+      ? evaluateMarkers(spread.getExpression(), checker)
+      : [evaluateNumber(element, checker)];
+    if (!items || items.some((item) => item === undefined)) return undefined;
+    values.push(...(items as number[]));
+  }
+  return values;
+};
+
+/** Extract a SLIDER setting's `markers` and `stickToMarkers`; undefined when markers are unknown. */
+export const extractSliderMarkers = (
+  valueObj: ObjectLiteralExpression,
+  checker: TypeChecker
+): SliderMarkers | undefined => {
+  const init = getPropertyInitializer(valueObj, MARKERS_PROPERTY);
+  const markers = init ? evaluateMarkers(init, checker) : undefined;
+  if (!markers || markers.length === 0) return undefined;
+  return {
+    markers,
+    stickToMarkers: extractBooleanLiteralValue(valueObj, STICK_TO_MARKERS_PROPERTY) ?? true,
+  };
+};
+
+/** Append the slider's bounds to its description, the way restart-needed settings are marked. */
+export const describeSliderBounds = (
+  description: string | undefined,
+  slider: SliderMarkers | undefined
+): string | undefined => {
+  if (!description || !slider) return description;
+  return `${description} (between ${Math.min(...slider.markers)} and ${Math.max(...slider.markers)})`;
+};
@@ -5,13 +5,14 @@
  * Determines Nix type based on TypeScript annotations and default values.
  */
 
-import { isBoolean, isString } from '@nixcord/shared';
+import { isBoolean, isString, type NixType, nixTypeEquals } from '@nixcord/shared';
 import type { Node, ObjectLiteralExpression, Program, TypeChecker } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import { getDefaultPropertyInitializer } from '../../foundation/index.js';
 import { tsTypeToNixType } from '../../parser.js';
 import {
   BOOLEAN_ENUM_LENGTH,
+  NIX_ENUM_TYPE,
   NIX_TYPE_ATTRS,
   NIX_TYPE_BOOL,
   NIX_TYPE_LIST_OF_ATTRS,
@@ -81,7 +82,7 @@ export function inferNixTypeAndEnumValues(
 
   if (selectEnumValues !== undefined) {
     return {
-      finalNixType: 'types.enum',
+      finalNixType: NIX_ENUM_TYPE,
       selectEnumValues,
       defaultValue: props.defaultLiteralValue,
     };
@@ -97,14 +98,14 @@ export function inferNixTypeAndEnumValues(
 }
 
 interface Classification {
-  nixType: string;
+  nixType: NixType;
   defaultValue: unknown;
 }
 
 function classifySetting(
   valueObj: ObjectLiteralExpression,
   props: SettingProperties,
-  baseType: string,
+  baseType: NixType,
   checker: TypeChecker
 ): Classification {
   const defaultValue = props.defaultLiteralValue;
@@ -152,7 +153,7 @@ function classifySetting(
 function classifyComponentOrCustom(
   valueObj: ObjectLiteralExpression,
   props: SettingProperties,
-  baseType: string,
+  baseType: NixType,
   defaultValue: unknown
 ): Classification {
   const defPropNode = valueObj.getProperty('default');
@@ -176,9 +177,9 @@ function classifyComponentOrCustom(
   }
 
   if (
-    baseType === NIX_TYPE_ATTRS ||
-    baseType === NIX_TYPE_LIST_OF_ATTRS ||
-    baseType === NIX_TYPE_LIST_OF_STR
+    nixTypeEquals(baseType, NIX_TYPE_ATTRS) ||
+    nixTypeEquals(baseType, NIX_TYPE_LIST_OF_ATTRS) ||
+    nixTypeEquals(baseType, NIX_TYPE_LIST_OF_STR)
   ) {
     return { nixType: baseType, defaultValue };
   }
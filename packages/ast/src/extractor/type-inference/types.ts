@@ -2,6 +2,7 @@
  * Type definitions for type inference.
  */
 
+import type { NixType } from '@nixcord/shared';
 import type { Node } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import { extractBooleanLiteralValue, getPropertyInitializer } from '../../foundation/index.js';
@@ -32,7 +33,7 @@ const extractBooleanLiteralValueForHidden = (node: Node, propName: string) => {
 };
 
 export interface TypeInferenceResult {
-  finalNixType: string;
+  finalNixType: NixType;
   selectEnumValues: readonly (string | number | boolean)[] | undefined;
   defaultValue: unknown;
 }
@@ -30,11 +30,15 @@ export const ExtractedPluginInfoSchema = z.object({
   name: z.string().optional(),
   description: z.string().optional(),
   isModified: z.boolean().optional(),
+  dependencies: z.array(z.string()).optional(),
+  required: z.boolean().optional(),
+  enabledByDefault: z.boolean().optional(),
+  authors: z.array(z.object({ name: z.string(), id: z.string().optional() })).optional(),
 });
 
 /**
  * Plugin information extracted from definePlugin call.
- * Contains the plugin name and description if available.
+ * Contains the plugin name, description, dependencies, enablement flags and authors if available.
  */
 export interface ExtractedPluginInfo
   extends ReadonlyDeep<z.infer<typeof ExtractedPluginInfoSchema>> {}
@@ -101,24 +105,37 @@ export interface SettingsExtractionUnsupported extends SettingsExtractionDiagnos
   readonly kind: 'unsupported-settings-argument' | 'unsupported-generated-settings-pattern';
 }
 
+/**
+ * Where an extracted setting was defined and which extractor produced it.
+ * `key` is dotted for settings nested inside a settings group.
+ */
+export interface SettingsExtractionOrigin {
+  readonly key: string;
+  readonly node?: Node | undefined;
+  readonly extractor?: string | undefined;
+}
+
 export interface ExtractionResult<T> {
   readonly items: T;
   readonly diagnostics: readonly SettingsExtractionDiagnostic[];
   readonly skipped: readonly SettingsExtractionSkip[];
   readonly unsupported: readonly SettingsExtractionUnsupported[];
+  readonly origins: readonly SettingsExtractionOrigin[];
 }
 
 export function createExtractionResult<T>(
   items: T,
   diagnostics: readonly SettingsExtractionDiagnostic[] = [],
   skipped: readonly SettingsExtractionSkip[] = [],
-  unsupported: readonly SettingsExtractionUnsupported[] = []
+  unsupported: readonly SettingsExtractionUnsupported[] = [],
+  origins: readonly SettingsExtractionOrigin[] = []
 ): ExtractionResult<T> {
   return {
     items,
     diagnostics,
     skipped,
     unsupported,
+    origins,
   };
 }
 
@@ -5,6 +5,7 @@ export * from './extractor/default-value-resolution.js';
 export * from './extractor/enum-resolver.js';
 export * from './extractor/plugin.js';
 export * from './extractor/select/index.js';
+export * from './extractor/sensitive.js';
 export * from './extractor/settings-extractor.js';
 export * from './extractor/type-helpers.js';
 export * from './extractor/type-inference/index.js';
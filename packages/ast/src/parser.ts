@@ -1,4 +1,4 @@
-import { isObject, isPrimitive } from '@nixcord/shared';
+import { isObject, isPrimitive, type NixType } from '@nixcord/shared';
 import type { Node, Program, TypeChecker } from 'ts-morph';
 import { SyntaxKind } from 'ts-morph';
 import {
@@ -25,16 +25,22 @@ import {
   TS_TYPE_NUMBER,
   TS_TYPE_STRING,
 } from './extractor/constants.js';
+import type { SliderMarkers } from './extractor/slider.js';
 import { evaluate, isBooleanEnumValues, typeMatches } from './foundation/index.js';
 
 type EnumLiteral = string | number | boolean;
 
 type TypeResolution = Readonly<{
-  readonly nixType: string;
+  readonly nixType: NixType;
   readonly enumValues?: readonly EnumLiteral[];
 }>;
 
-type TypeResolutionSetting = Readonly<{ type?: unknown; default?: unknown; options?: unknown }>;
+type TypeResolutionSetting = Readonly<{
+  type?: unknown;
+  default?: unknown;
+  options?: unknown;
+  slider?: SliderMarkers;
+}>;
 
 const OPTION_TYPE_NAMES_BY_VALUE = [
   OPTION_TYPE_STRING,
@@ -60,7 +66,7 @@ const isNode = (value: unknown): value is Node =>
 const resolveOptionTypeNameFromNumericValue = (value: number): OptionTypeName | undefined =>
   OPTION_TYPE_NAMES_BY_VALUE[value];
 
-const inferNixTypeFromRuntimeDefault = (defaultValue: unknown): string => {
+const inferNixTypeFromRuntimeDefault = (defaultValue: unknown): NixType => {
   if (defaultValue === undefined) return NIX_TYPE_STR;
   if (typeof defaultValue === 'boolean') return NIX_TYPE_BOOL;
   if (Array.isArray(defaultValue)) return NIX_TYPE_ATTRS;
@@ -194,7 +200,7 @@ const buildEnumValuesFromOptions = (options: unknown): readonly EnumLiteral[] |
   );
 };
 
-const nixTypeForComponentOrCustom = (defaultValue: unknown): string => {
+const nixTypeForComponentOrCustom = (defaultValue: unknown): NixType => {
   if (defaultValue === undefined) return NIX_TYPE_ATTRS;
   if (Array.isArray(defaultValue)) {
     if (defaultValue.length > 0 && defaultValue.every((v: unknown) => typeof v === 'string'))
@@ -208,7 +214,7 @@ const inferTypeFromTypeScriptType = (
   typeNode: Node,
   checker: TypeChecker,
   defaultValue: unknown
-): string | undefined => {
+): NixType | undefined => {
   try {
     const type = checker.getTypeAtLocation(typeNode);
     if (!type) return undefined;
@@ -260,6 +266,18 @@ const resolveEnumType = (setting: TypeResolutionSetting): TypeResolution => {
   return { nixType: NIX_ENUM_TYPE, enumValues };
 };
 
+/**
+ * Sliders clamp to their markers, so the option is bounded by them. When the slider snaps to its
+ * markers they are the only values, unless the default falls between them.
+ */
+const resolveSliderType = (setting: TypeResolutionSetting): TypeResolution => {
+  const markers = setting.slider?.markers;
+  if (!markers) return { nixType: NIX_TYPE_FLOAT };
+  if (setting.slider?.stickToMarkers && markers.includes(setting.default as number))
+    return { nixType: NIX_ENUM_TYPE, enumValues: markers };
+  return { nixType: { kind: 'between', min: Math.min(...markers), max: Math.max(...markers) } };
+};
+
 const resolveCustomType = (setting: TypeResolutionSetting): TypeResolution => {
   const enumValues = buildEnumValuesFromOptions(setting.options) ?? Object.freeze([]);
   if (isBooleanEnumValues(enumValues)) return { nixType: NIX_TYPE_BOOL };
@@ -280,7 +298,7 @@ const OPTION_TYPE_RESOLVERS = {
   }),
   [OPTION_TYPE_BIGINT]: () => ({ nixType: NIX_TYPE_INT }),
   [OPTION_TYPE_SELECT]: resolveEnumType,
-  [OPTION_TYPE_SLIDER]: () => ({ nixType: NIX_TYPE_FLOAT }),
+  [OPTION_TYPE_SLIDER]: resolveSliderType,
   [OPTION_TYPE_COMPONENT]: (setting) => ({
     nixType: nixTypeForComponentOrCustom(setting.default),
   }),
@@ -22,13 +22,13 @@ describe('resolveDefaultValue', () => {
     const checker = project.getTypeChecker();
     const result = resolveDefaultValue(
       obj,
-      'types.enum',
+      { kind: 'enum' },
       undefined,
       ['option1', 'option2'],
       checker
     );
 
-    expect(result.finalNixType).toBe('types.enum');
+    expect(result.finalNixType).toEqual({ kind: 'enum' });
     expect(result.defaultValue).toBe('option1'); // Should default to first enum value
   });
 
@@ -42,9 +42,9 @@ describe('resolveDefaultValue', () => {
     if (!obj) throw new Error('Expected object literal');
 
     const checker = project.getTypeChecker();
-    const result = resolveDefaultValue(obj, 'types.str', undefined, undefined, checker);
+    const result = resolveDefaultValue(obj, { kind: 'str' }, undefined, undefined, checker);
 
-    expect(result.finalNixType).toBe('types.nullOr types.str');
+    expect(result.finalNixType).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
     expect(result.defaultValue).toBe(null);
   });
 
@@ -58,9 +58,9 @@ describe('resolveDefaultValue', () => {
     if (!obj) throw new Error('Expected object literal');
 
     const checker = project.getTypeChecker();
-    const result = resolveDefaultValue(obj, 'types.bool', undefined, undefined, checker);
+    const result = resolveDefaultValue(obj, { kind: 'bool' }, undefined, undefined, checker);
 
-    expect(result.finalNixType).toBe('types.bool');
+    expect(result.finalNixType).toEqual({ kind: 'bool' });
     expect(result.defaultValue).toBe(false);
   });
 
@@ -74,9 +74,9 @@ describe('resolveDefaultValue', () => {
     if (!obj) throw new Error('Expected object literal');
 
     const checker = project.getTypeChecker();
-    const result = resolveDefaultValue(obj, 'types.str', 'explicit', undefined, checker);
+    const result = resolveDefaultValue(obj, { kind: 'str' }, 'explicit', undefined, checker);
 
-    expect(result.finalNixType).toBe('types.str');
+    expect(result.finalNixType).toEqual({ kind: 'str' });
     expect(result.defaultValue).toBe('explicit');
   });
 
@@ -90,9 +90,9 @@ describe('resolveDefaultValue', () => {
     if (!obj) throw new Error('Expected object literal');
 
     const checker = project.getTypeChecker();
-    const result = resolveDefaultValue(obj, 'types.attrs', undefined, undefined, checker);
+    const result = resolveDefaultValue(obj, { kind: 'attrs' }, undefined, undefined, checker);
 
-    expect(result.finalNixType).toBe('types.attrs');
+    expect(result.finalNixType).toEqual({ kind: 'attrs' });
     expect(result.defaultValue).toEqual({});
   });
 });
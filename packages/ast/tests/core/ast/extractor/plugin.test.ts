@@ -54,6 +54,63 @@ describe('extractPluginInfo()', () => {
     expect(result.name).toBe('MyPlugin');
     expect(result.description).toBe('My description');
   });
+
+  test('extracts dependencies from string literals and constants', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `const API = "CommandsAPI";
+       definePlugin({ name: "MyPlugin", dependencies: ["MessageEventsAPI", API] });`
+    );
+    const checker = project.getTypeChecker();
+    const result = extractPluginInfo(sourceFile, checker);
+    expect(result.dependencies).toEqual(['MessageEventsAPI', 'CommandsAPI']);
+  });
+
+  test('extracts the required and enabledByDefault flags when set', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `definePlugin({ name: "NoTrack", required: true, enabledByDefault: true });
+       definePlugin({ name: "Other", required: false });`
+    );
+    const checker = project.getTypeChecker();
+    const result = extractPluginInfo(sourceFile, checker);
+    expect(result).toEqual({ name: 'NoTrack', required: true, enabledByDefault: true });
+  });
+
+  test('resolves authors through frozen Devs constants', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `const Devs = Object.freeze({
+         Ven: { name: "Vee", id: 343383572805058560n },
+         Nobody: { name: "Nobody", id: 0n },
+       } satisfies Record<string, { name: string; id: bigint }>);
+       definePlugin({
+         name: "MyPlugin",
+         authors: [Devs.Ven, Devs.Nobody, Devs.Missing, { name: "Inline", id: 1n }],
+       });`
+    );
+    const checker = project.getTypeChecker();
+    const result = extractPluginInfo(sourceFile, checker);
+    expect(result.authors).toEqual([
+      { name: 'Vee', id: '343383572805058560' },
+      { name: 'Nobody' },
+      { name: 'Inline', id: '1' },
+    ]);
+  });
+
+  test('omits an empty dependencies array', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `definePlugin({ name: "MyPlugin", dependencies: [] });`
+    );
+    const checker = project.getTypeChecker();
+    const result = extractPluginInfo(sourceFile, checker);
+    expect(result).toEqual({ name: 'MyPlugin' });
+  });
 });
 
 describe('findDefinePluginSettings()', () => {
@@ -28,7 +28,7 @@ test('CUSTOM with static Object.fromEntries default resolves attrs default objec
   const result = extractSettingsFromCall(callExpr, checker, program);
   const ss = result.servicesSettings as PluginSetting;
   expect(ss).toBeDefined();
-  expect(ss.type).toBe('types.attrs');
+  expect(ss.type).toEqual({ kind: 'attrs' });
   expect(ss.default).toEqual({
     Spotify: { enabled: true, openInNative: true },
     Apple: { enabled: true, openInNative: false },
@@ -53,7 +53,7 @@ test('STRING without explicit default -> nullOr types.str with null', () => {
   const program = project.getProgram();
   const result = extractSettingsFromCall(callExpr, checker, program);
   const country = result.country as PluginSetting;
-  expect(country.type).toBe('types.nullOr types.str');
+  expect(country.type).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
   expect(country.default).toBeNull();
 });
 
@@ -77,7 +77,7 @@ test('COMPONENT [] as string[] default -> listOf types.str with []', () => {
   const program = project.getProgram();
   const result = extractSettingsFromCall(callExpr, checker, program);
   const reasons = result.reasons as PluginSetting;
-  expect(reasons.type).toBe('types.listOf types.str');
+  expect(reasons.type).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
   expect(reasons.default).toEqual([]);
 });
 
@@ -121,7 +121,7 @@ test('CUSTOM identifier default resolving to object literal preserves object', (
   const program = project.getProgram();
   const result = extractSettingsFromCall(callExpr, checker, program);
   const complex = result.complex as PluginSetting;
-  expect(complex.type).toBe('types.attrs');
+  expect(complex.type).toEqual({ kind: 'attrs' });
   expect(complex.default).toEqual({ a: 1, b: 'two' });
 });
 
@@ -145,7 +145,7 @@ test('CUSTOM identifier default resolving to array of objects preserves array',
   const program = project.getProgram();
   const result = extractSettingsFromCall(callExpr, checker, program);
   const list = result.list as PluginSetting;
-  expect(list.type).toBe('types.listOf types.attrs');
+  expect(list.type).toEqual({ kind: 'listOf', elem: { kind: 'attrs' } });
   expect(list.default).toEqual([{ a: 1 }, { b: 2 }]);
 });
 
@@ -174,9 +174,9 @@ test('setting helper call returning satisfies object is extracted', () => {
   const program = project.getProgram();
   const result = extractSettingsFromCall(callExpr, checker, program);
   const showTimeouts = result.showTimeouts as PluginSetting;
-  expect(showTimeouts.type).toBe('types.bool');
+  expect(showTimeouts.type).toEqual({ kind: 'bool' });
   expect(showTimeouts.default).toBe(true);
-  expect(showTimeouts.description).toBe('Show member timeout icons in chat. (restart required)');
+  expect(showTimeouts.description).toBe('Show member timeout icons in chat.');
   expect(showTimeouts.restartNeeded).toBe(true);
   expect(Object.keys(result)).toHaveLength(3);
 });
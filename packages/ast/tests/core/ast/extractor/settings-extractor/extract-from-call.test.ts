@@ -44,7 +44,7 @@ describe('extractSettingsFromCall()', () => {
     expect(result.setting1).toBeDefined();
     expect(result.setting1?.name).toBe('setting1');
     if (result.setting1 && 'type' in result.setting1) {
-      expect(result.setting1.type).toBe('types.str');
+      expect(result.setting1.type).toEqual({ kind: 'str' });
     }
   });
 
@@ -220,7 +220,7 @@ describe('extractSettingsFromCall()', () => {
     expect(result.hidden).toBeUndefined();
   });
 
-  test('handles restart required suffix', () => {
+  test('flags restart required settings without altering the description', () => {
     const project = createProject();
     const sourceFile = project.createSourceFile(
       'test.ts',
@@ -239,10 +239,109 @@ describe('extractSettingsFromCall()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = extractSettingsFromCall(callExpr, checker, program);
-    const setting = result.setting;
-    if (setting && 'description' in setting) {
-      expect(setting.description).toContain('(restart required)');
-    }
+    expect(result.setting).toMatchObject({
+      description: 'Requires restart',
+      restartNeeded: true,
+    });
+  });
+
+  test('bounds SLIDER settings by their markers', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `const MAX_VOLUME = 100;
+      function makeRange(start: number, end: number, step = 1) { return []; }
+      definePluginSettings({
+        volume: {
+          type: OptionType.SLIDER,
+          description: "Volume",
+          markers: [0, MAX_VOLUME / 2, MAX_VOLUME],
+          default: 60,
+          stickToMarkers: false
+        },
+        scale: {
+          type: OptionType.SLIDER,
+          description: "Scale",
+          markers: makeRange(0.5, 1.5, 0.25),
+          default: 1
+        },
+        offset: {
+          type: OptionType.SLIDER,
+          markers: [-1, ...makeRange(0, 1)],
+          default: 0.5
+        }
+      });`
+    );
+    const callExpr = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)[0];
+    if (!callExpr) throw new Error('Call expression not found');
+    const result = extractSettingsFromCall(
+      callExpr,
+      project.getTypeChecker(),
+      project.getProgram()
+    );
+
+    const volume = result.volume as PluginSetting;
+    expect(volume.type).toEqual({ kind: 'between', min: 0, max: 100 });
+    expect(volume.description).toBe('Volume (between 0 and 100)');
+
+    const scale = result.scale as PluginSetting;
+    expect(scale.type).toEqual({ kind: 'enum' });
+    expect(scale.enumValues).toEqual([0.5, 0.75, 1, 1.25, 1.5]);
+    expect(scale.description).toBe('Scale (between 0.5 and 1.5)');
+
+    // The default is not a marker, so snapping cannot be expressed as an enum
+    const offset = result.offset as PluginSetting;
+    expect(offset.type).toEqual({ kind: 'between', min: -1, max: 1 });
+    expect(offset.description).toBeUndefined();
+  });
+
+  test('classifies credential settings as sensitive', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `definePluginSettings({
+        jfApiKey: {
+          type: OptionType.STRING,
+          description: "Jellyfin API key.",
+          default: ""
+        },
+        ezHostKey: {
+          type: OptionType.STRING,
+          description: "E-Z Host API key",
+          default: ""
+        },
+        endpoint: {
+          type: OptionType.STRING,
+          description: "Endpoint",
+          placeholder: "Enter your bot token here",
+          default: ""
+        },
+        hostKey: {
+          type: OptionType.STRING,
+          description: "Key of the host",
+          default: ""
+        },
+        showToken: {
+          type: OptionType.BOOLEAN,
+          description: "Show the token",
+          default: false
+        }
+      });`
+    );
+    const callExpr = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)[0];
+    if (!callExpr) throw new Error('Call expression not found');
+    const result = extractSettingsFromCall(
+      callExpr,
+      project.getTypeChecker(),
+      project.getProgram()
+    );
+
+    expect((result.jfApiKey as PluginSetting).sensitive).toBe(true);
+    expect((result.ezHostKey as PluginSetting).sensitive).toBe(true);
+    expect((result.endpoint as PluginSetting).sensitive).toBe(true);
+    expect((result.hostKey as PluginSetting).sensitive).toBeUndefined();
+    // Only text settings can hold a credential
+    expect((result.showToken as PluginSetting).sensitive).toBeUndefined();
   });
 
   test('handles enum types with OptionType enum (real plugin pattern)', () => {
@@ -294,7 +393,7 @@ describe('extractSettingsFromCall()', () => {
     const choice = result.choice;
     expect(choice).toBeDefined();
     if (choice && 'type' in choice) {
-      expect(choice.type).toContain('enum');
+      expect(choice.type).toEqual({ kind: 'enum' });
       const enumValues = (choice as PluginSetting).enumValues;
       if (enumValues !== undefined) {
         expect(Array.isArray(enumValues)).toBe(true);
@@ -305,14 +404,14 @@ describe('extractSettingsFromCall()', () => {
     const enabled = result.enabled;
     expect(enabled).toBeDefined();
     if (enabled && 'type' in enabled) {
-      expect(enabled.type).toBe('types.bool');
+      expect(enabled.type).toEqual({ kind: 'bool' });
       expect(enabled.default).toBe(true);
     }
 
     const message = result.message;
     expect(message).toBeDefined();
     if (message && 'type' in message) {
-      expect(message.type).toBe('types.str');
+      expect(message.type).toEqual({ kind: 'str' });
       expect(message.default).toBe('test');
     }
   });
@@ -457,6 +556,47 @@ describe('extractSettingsFromCall()', () => {
     expect(result.diagnostics).toMatchObject([{ kind: 'unsupported-generated-settings-pattern' }]);
   });
 
+  test('records the origin and extractor of each extracted setting', () => {
+    const project = createProject();
+    const sourceFile = project.createSourceFile(
+      'test.ts',
+      `const generated = ["first"];
+      definePluginSettings({
+        group: {
+          inner: { type: OptionType.STRING, default: "x" },
+        },
+        ...Object.fromEntries(
+          generated.map(name => [name, { type: OptionType.BOOLEAN, default: true }])
+        ),
+      }).withPrivateSettings<{ token: string }>();`
+    );
+    const callExpr = sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .find((call) => call.getExpression().getText() === 'definePluginSettings');
+    if (!callExpr) {
+      throw new Error('Call expression not found');
+    }
+
+    const result = extractSettingsFromCallDetailed(
+      callExpr,
+      project.getTypeChecker(),
+      project.getProgram()
+    );
+
+    expect(
+      result.origins.map((origin) => ({
+        key: origin.key,
+        extractor: origin.extractor,
+        line: origin.node?.getStartLineNumber(),
+      }))
+    ).toEqual([
+      { key: 'group', extractor: 'object-literal-settings', line: 3 },
+      { key: 'group.inner', extractor: 'object-literal-settings', line: 4 },
+      { key: 'first', extractor: 'Object.fromEntries(...map(...))', line: 7 },
+      { key: 'token', extractor: 'withPrivateSettings', line: 2 },
+    ]);
+  });
+
   test('reports hidden settings as skipped detailed results', () => {
     const project = createProject();
     const sourceFile = project.createSourceFile(
@@ -585,11 +725,11 @@ describe('extractSettingsFromCall()', () => {
     expect(result.config).toBeUndefined();
 
     const appID = result.appID as PluginSetting;
-    expect(appID.type).toBe('types.nullOr types.str');
+    expect(appID.type).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
     expect(appID.default).toBeNull();
 
     const type = result.type as PluginSetting;
-    expect(type.type).toBe('types.enum');
+    expect(type.type).toEqual({ kind: 'enum' });
     expect(type.enumValues).toEqual([0, 1, 2, 3, 4, 5, 6]);
     expect(type.default).toBe(0);
 
@@ -597,23 +737,26 @@ describe('extractSettingsFromCall()', () => {
     expect(timestampMode.enumValues).toEqual([0, 1, 2, 3]);
 
     const startTime = result.startTime as PluginSetting;
-    expect(startTime.type).toBe('types.int');
+    expect(startTime.type).toEqual({ kind: 'int' });
     expect(startTime.default).toBe(0);
 
     const loop = result.loop as PluginSetting;
-    expect(loop.type).toBe('types.bool');
+    expect(loop.type).toEqual({ kind: 'bool' });
     expect(loop.default).toBe(false);
 
     const multiGreetChoices = result.multiGreetChoices as PluginSetting;
-    expect(multiGreetChoices.type).toBe('types.listOf types.str');
+    expect(multiGreetChoices.type).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
     expect(multiGreetChoices.default).toEqual([]);
 
     const nestedFolders = result.nestedFolders as PluginSetting;
-    expect(nestedFolders.type).toBe('types.attrs');
+    expect(nestedFolders.type).toEqual({ kind: 'attrs' });
     expect(nestedFolders.default).toEqual({});
 
     const formats = result.formats as PluginConfig;
-    expect((formats.settings.cozyFormat as PluginSetting).type).toBe('types.nullOr types.str');
+    expect((formats.settings.cozyFormat as PluginSetting).type).toEqual({
+      kind: 'nullOr',
+      elem: { kind: 'str' },
+    });
   });
 
   test('extracts known external enum private setting types without resolved imports', () => {
@@ -641,7 +784,7 @@ describe('extractSettingsFromCall()', () => {
     );
 
     const type = result.type as PluginSetting;
-    expect(type.type).toBe('types.enum');
+    expect(type.type).toEqual({ kind: 'enum' });
     expect(type.enumValues).toEqual([0, 1, 2, 3, 4, 5, 6]);
     expect(type.default).toBe(0);
   });
@@ -775,7 +918,7 @@ describe('extractSettingsFromCall()', () => {
       expect(volume.default).toBe(1);
     }
     if (volume && 'type' in volume) {
-      expect(volume.type).toBe('types.float');
+      expect(volume.type).toEqual({ kind: 'float' });
     }
   });
 
@@ -829,9 +972,10 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.list).toMatchObject({
       name: 'list',
-      type: 'types.bool',
+      type: { kind: 'bool' },
       default: true,
-      description: 'Show indicators in the member list (restart required)',
+      description: 'Show indicators in the member list',
+      restartNeeded: true,
     });
     expect(result.badges).toBeDefined();
     expect(result.messages).toBeDefined();
@@ -879,7 +1023,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.spotify).toMatchObject({
       name: 'spotify',
-      type: 'types.bool',
+      type: { kind: 'bool' },
       default: true,
       description: 'Open Spotify links in app',
     });
@@ -989,7 +1133,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.call_calling).toMatchObject({
       name: 'call_calling',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'Override for Call Calling',
       default: '{"enabled":false,"selectedSound":"default","volume":100,"useFile":false}',
     });
@@ -1034,7 +1178,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.hotkey).toMatchObject({
       name: 'hotkey',
-      type: 'types.listOf types.str',
+      type: { kind: 'listOf', elem: { kind: 'str' } },
       default: [],
     });
   });
@@ -1083,7 +1227,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.soundId).toMatchObject({
       name: 'soundId',
-      type: 'types.nullOr types.str',
+      type: { kind: 'nullOr', elem: { kind: 'str' } },
       default: null,
       description: 'Enter the ID of the sound you want to play.',
     });
@@ -1156,19 +1300,19 @@ describe('extractSettingsFromCall()', () => {
           settings: {
             text: {
               name: 'text',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: 'Webhook',
               description: 'Text for Webhook tag',
             },
             showInChat: {
               name: 'showInChat',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
               description: 'Show Webhook tag in messages',
             },
             showInNotChat: {
               name: 'showInNotChat',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
               description: 'Show Webhook tag in member list and profiles',
             },
@@ -1179,7 +1323,7 @@ describe('extractSettingsFromCall()', () => {
           settings: {
             text: {
               name: 'text',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: 'Staff',
               description: 'Text for Staff tag',
             },
@@ -1230,7 +1374,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.streamMedia).toMatchObject({
       name: 'streamMedia',
-      type: 'types.nullOr types.str',
+      type: { kind: 'nullOr', elem: { kind: 'str' } },
       default: null,
     });
   });
@@ -1281,7 +1425,7 @@ describe('extractSettingsFromCall()', () => {
     );
     expect(result.imageCacheDir).toMatchObject({
       name: 'imageCacheDir',
-      type: 'types.nullOr types.str',
+      type: { kind: 'nullOr', elem: { kind: 'str' } },
       default: null,
       description: 'Select saved images directory',
     });
@@ -88,7 +88,7 @@ describe('extractSettingsFromObject()', () => {
         expect(deepSettings.deeper).toBeDefined();
         const deeper = deepSettings.deeper as PluginSetting;
         if (deeper && 'type' in deeper) {
-          expect(deeper.type).toBe('types.int');
+          expect(deeper.type).toEqual({ kind: 'int' });
           expect(deeper.default).toBe(42);
         }
       }
@@ -190,10 +190,7 @@ describe('extractSettingsFromObject()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = extractSettingsFromObject(objLiteral, checker, program);
-    const setting = result.setting;
-    if (setting && 'description' in setting) {
-      expect(setting.description).toContain('(restart required)');
-    }
+    expect(result.setting).toMatchObject({ description: 'Restart needed', restartNeeded: true });
   });
 
   test('handles empty object', () => {
@@ -346,14 +343,14 @@ describe('extractSettingsFromObject()', () => {
           expect(level3Settings.level4).toBeDefined();
           const level4 = level3Settings.level4 as PluginSetting;
           if (level4 && 'type' in level4) {
-            expect(level4.type).toBe('types.str');
+            expect(level4.type).toEqual({ kind: 'str' });
             expect(level4.default).toBe('deep-value');
           }
 
           expect(level3Settings.level4b).toBeDefined();
           const level4b = level3Settings.level4b as PluginSetting;
           if (level4b && 'type' in level4b) {
-            expect(level4b.type).toBe('types.int');
+            expect(level4b.type).toEqual({ kind: 'int' });
             expect(level4b.default).toBe(42);
           }
         }
@@ -361,7 +358,7 @@ describe('extractSettingsFromObject()', () => {
         expect(level2Settings.level3b).toBeDefined();
         const level3b = level2Settings.level3b as PluginSetting;
         if (level3b && 'type' in level3b) {
-          expect(level3b.type).toBe('types.bool');
+          expect(level3b.type).toEqual({ kind: 'bool' });
           expect(level3b.default).toBe(true);
         }
       }
@@ -29,7 +29,9 @@ describe('inferNixTypeAndEnumValues', () => {
     );
 
     // Type inference may return str or nullOr str depending on default
-    expect(['types.str', 'types.nullOr types.str']).toContain(result.finalNixType);
+    expect([{ kind: 'str' }, { kind: 'nullOr', elem: { kind: 'str' } }]).toContainEqual(
+      result.finalNixType
+    );
     // Default value may be preserved or set to null for nullable types
     expect(result.defaultValue === 'hello' || result.defaultValue === null).toBe(true);
   });
@@ -58,7 +60,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.bool');
+    expect(result.finalNixType).toEqual({ kind: 'bool' });
     // Default value may be preserved or set to false
     expect(result.defaultValue === true || result.defaultValue === false).toBe(true);
   });
@@ -94,7 +96,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.enum');
+    expect(result.finalNixType).toEqual({ kind: 'enum' });
     expect(result.selectEnumValues).toEqual(['option1', 'option2']);
   });
 
@@ -123,7 +125,11 @@ describe('inferNixTypeAndEnumValues', () => {
     );
 
     // Type inference may return str, attrs, or listOf str depending on AST structure
-    expect(['types.str', 'types.attrs', 'types.listOf types.str']).toContain(result.finalNixType);
+    expect([
+      { kind: 'str' },
+      { kind: 'attrs' },
+      { kind: 'listOf', elem: { kind: 'str' } },
+    ]).toContainEqual(result.finalNixType);
   });
 
   test('promotes OptionType.STRING with string array default to listOf str', () => {
@@ -156,7 +162,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.listOf types.str');
+    expect(result.finalNixType).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
     expect(result.defaultValue).toEqual([]);
   });
 
@@ -190,7 +196,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.listOf types.str');
+    expect(result.finalNixType).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
     expect(result.defaultValue).toEqual([]);
   });
 
@@ -225,7 +231,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.listOf types.str');
+    expect(result.finalNixType).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
     expect(result.defaultValue).toEqual([]);
   });
 
@@ -255,7 +261,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.listOf types.attrs');
+    expect(result.finalNixType).toEqual({ kind: 'listOf', elem: { kind: 'attrs' } });
   });
 
   test('coerces COMPONENT type with undefined default to attrs', () => {
@@ -288,7 +294,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.attrs');
+    expect(result.finalNixType).toEqual({ kind: 'attrs' });
   });
 
   test('preserves string default for COMPONENT type', () => {
@@ -315,7 +321,7 @@ describe('inferNixTypeAndEnumValues', () => {
       project.getProgram()
     );
 
-    expect(result.finalNixType).toBe('types.str');
+    expect(result.finalNixType).toEqual({ kind: 'str' });
     expect(result.defaultValue).toBe('theme-name');
   });
 });
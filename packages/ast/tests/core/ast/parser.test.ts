@@ -5,12 +5,12 @@ import { tsTypeToNixType } from '../../../src/parser.js';
 import { createProject } from '../../helpers/test-utils.js';
 
 const optionTypeCases = [
-  { name: 'STRING', expected: 'types.str' },
-  { name: 'NUMBER', expected: 'types.float' },
-  { name: 'BIGINT', expected: 'types.int' },
-  { name: 'BOOLEAN', expected: 'types.bool' },
-  { name: 'SELECT', expected: 'types.str' },
-  { name: 'SLIDER', expected: 'types.float' },
+  { name: 'STRING', expected: { kind: 'str' } },
+  { name: 'NUMBER', expected: { kind: 'float' } },
+  { name: 'BIGINT', expected: { kind: 'int' } },
+  { name: 'BOOLEAN', expected: { kind: 'bool' } },
+  { name: 'SELECT', expected: { kind: 'str' } },
+  { name: 'SLIDER', expected: { kind: 'float' } },
 ] as const;
 
 describe('tsTypeToNixType()', () => {
@@ -19,7 +19,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ default: true }, program, checker);
-    expect(result.nixType).toBe('types.bool');
+    expect(result.nixType).toEqual({ kind: 'bool' });
   });
 
   test('type inference from string default -> types.str', () => {
@@ -27,7 +27,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ default: 'test' }, program, checker);
-    expect(result.nixType).toBe('types.str');
+    expect(result.nixType).toEqual({ kind: 'str' });
   });
 
   test('type inference from integer default -> types.int', () => {
@@ -35,7 +35,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ default: 42 }, program, checker);
-    expect(result.nixType).toBe('types.int');
+    expect(result.nixType).toEqual({ kind: 'int' });
   });
 
   test('type inference from float default -> types.float', () => {
@@ -43,7 +43,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ default: 3.14 }, program, checker);
-    expect(result.nixType).toBe('types.float');
+    expect(result.nixType).toEqual({ kind: 'float' });
   });
 
   test('PropertyAccessExpression types (enum)', () => {
@@ -82,7 +82,7 @@ describe('tsTypeToNixType()', () => {
       throw new Error('Type node not found');
     }
     const result = tsTypeToNixType({ type: typeNode }, program, checker);
-    expect(result.nixType).toBe('types.str');
+    expect(result.nixType).toEqual({ kind: 'str' });
   });
 
   test('returns types.str as fallback', () => {
@@ -90,7 +90,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({}, program, checker);
-    expect(result.nixType).toBe('types.str');
+    expect(result.nixType).toEqual({ kind: 'str' });
   });
 
   test('OptionTypeMap mapping - BOOLEAN', () => {
@@ -114,7 +114,7 @@ describe('tsTypeToNixType()', () => {
     }
     const result = tsTypeToNixType({ type: typeNode }, program, checker);
     // Should map BOOLEAN to types.bool
-    expect(result.nixType).toBe('types.bool');
+    expect(result.nixType).toEqual({ kind: 'bool' });
   });
 
   test('OptionTypeMap mapping - STRING', () => {
@@ -137,7 +137,7 @@ describe('tsTypeToNixType()', () => {
       throw new Error('Type node not found');
     }
     const result = tsTypeToNixType({ type: typeNode }, program, checker);
-    expect(result.nixType).toBe('types.str');
+    expect(result.nixType).toEqual({ kind: 'str' });
   });
 
   test('OptionTypeMap mapping - NUMBER', () => {
@@ -166,7 +166,7 @@ describe('tsTypeToNixType()', () => {
       throw new Error('Type node not found');
     }
     const result = tsTypeToNixType({ type: typeNode, default: defaultNode }, program, checker);
-    expect(result.nixType).toBe('types.int');
+    expect(result.nixType).toEqual({ kind: 'int' });
   });
 
   test('OptionTypeMap mapping - NUMBER with float default', () => {
@@ -174,7 +174,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ type: undefined, default: 3.14 }, program, checker);
-    expect(result.nixType).toBe('types.float');
+    expect(result.nixType).toEqual({ kind: 'float' });
   });
 
   test('OptionTypeMap mapping - SELECT', () => {
@@ -199,7 +199,7 @@ describe('tsTypeToNixType()', () => {
     const program = project.getProgram();
     // SLIDER is 5, which maps to FLOAT
     const result = tsTypeToNixType({ type: undefined }, program, checker);
-    expect(result.nixType).toBe('types.str');
+    expect(result.nixType).toEqual({ kind: 'str' });
   });
 
   test('OptionTypeMap mapping - COMPONENT', () => {
@@ -207,7 +207,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ type: 6, default: { key: 'value' } }, program, checker);
-    expect(result.nixType).toBe('types.attrs');
+    expect(result.nixType).toEqual({ kind: 'attrs' });
   });
 
   test('OptionTypeMap mapping - CUSTOM', () => {
@@ -215,7 +215,7 @@ describe('tsTypeToNixType()', () => {
     const checker = project.getTypeChecker();
     const program = project.getProgram();
     const result = tsTypeToNixType({ type: 7, default: { key: 'value' } }, program, checker);
-    expect(result.nixType).toBe('types.attrs');
+    expect(result.nixType).toEqual({ kind: 'attrs' });
   });
 
   test('prefers concrete OptionType when unioned with CUSTOM', () => {
@@ -240,7 +240,7 @@ describe('tsTypeToNixType()', () => {
     const program = project.getProgram();
     if (!typeNode) throw new Error('Type node not found');
     const result = tsTypeToNixType({ type: typeNode, default: 42 }, program, checker);
-    expect(result.nixType).toBe('types.int');
+    expect(result.nixType).toEqual({ kind: 'int' });
   });
 
   test('OptionTypeMap mapping - BIGINT', () => {
@@ -264,7 +264,7 @@ describe('tsTypeToNixType()', () => {
     }
     const result = tsTypeToNixType({ type: typeNode }, program, checker);
     // BIGINT maps to types.int
-    expect(result.nixType).toBe('types.int');
+    expect(result.nixType).toEqual({ kind: 'int' });
   });
 
   test('handles enum member resolution (numeric)', () => {
@@ -287,7 +287,7 @@ describe('tsTypeToNixType()', () => {
       throw new Error('Type node not found');
     }
     const result = tsTypeToNixType({ type: typeNode }, program, checker);
-    expect(result.nixType).toBe('types.bool');
+    expect(result.nixType).toEqual({ kind: 'bool' });
   });
 
   test('handles enum member resolution (string)', () => {
@@ -340,7 +340,7 @@ describe('tsTypeToNixType()', () => {
       program,
       checker
     );
-    expect(result.nixType).toBe('types.attrs');
+    expect(result.nixType).toEqual({ kind: 'attrs' });
   });
 
   test('resolves supported OptionType enum members by source enum name', () => {
@@ -372,7 +372,7 @@ describe('tsTypeToNixType()', () => {
         const program = project.getProgram();
         if (!typeNode) throw new Error('Type node not found');
 
-        expect(tsTypeToNixType({ type: typeNode }, program, checker).nixType).toBe(expected);
+        expect(tsTypeToNixType({ type: typeNode }, program, checker).nixType).toEqual(expected);
       })
     );
   });
@@ -3,33 +3,154 @@ import {
   type Application,
   buildApplication,
   buildCommand,
+  buildRouteMap,
+  type Command,
   type CommandContext,
   run,
 } from '@stricli/core';
-import { resolve } from 'pathe';
+import fse from 'fs-extra';
+import { dirname, join, resolve } from 'pathe';
 import * as z from 'zod';
 import { fromZodError } from 'zod-validation-error';
+import { type GeneratorConfig, loadGeneratorConfig } from './config.js';
+import { formatPluginSurfaceDiff, runDiffPluginSurfaces } from './diff/index.js';
+import { formatSettingsDrift, runSettingsDrift } from './drift/index.js';
+import { formatSettingsImport, runImportSettings } from './import-settings/index.js';
+import { formatPluginInspection, runInspectPlugin } from './inspect/index.js';
+import { runMigrateConfig } from './migrate-config/index.js';
 import type { GeneratePluginOptionsParams } from './runner/index.js';
-import { runGeneratePluginOptions } from './runner/index.js';
-import { logGeneratePluginOptionsSummary } from './summary.js';
+import { getArtifactFilenames, runGeneratePluginOptions } from './runner/index.js';
+import { runWatchGeneratePluginOptions } from './runner/watch.js';
+import { logGeneratePluginOptionsSummary, logNewDiagnostics, logOutputDrift } from './summary.js';
+import { formatSettingsValidation, runValidateSettings } from './validate/index.js';
 
 const DEFAULT_OUTPUT = 'modules/plugins-generated.nix';
 const DESCRIPTION =
   'Extract Vencord/Equicord plugin settings and generate Nix configuration options';
+const DIFF_DESCRIPTION =
+  'Compare the plugin option surface of two source trees or two generated plugin directories';
+const INSPECT_DESCRIPTION = 'Show everything extracted from a single plugin directory';
+const IMPORT_SETTINGS_DESCRIPTION =
+  'Convert a Vencord/Equicord settings.json or settings backup into a Nixcord configuration';
+const VALIDATE_DESCRIPTION =
+  'Check the plugin settings of a settings.json against the plugins extracted from source trees';
+const DRIFT_DESCRIPTION =
+  'List the plugins toggled and settings changed in a client since Nixcord wrote its settings.json';
+const MIGRATE_CONFIG_DESCRIPTION =
+  'Rewrite the plugin options of a Nix configuration file to apply plugin and setting migrations';
+const DEFAULT_PLUGINS_DIR = join(dirname(DEFAULT_OUTPUT), CLI_CONFIG.directories.output);
 
-const CliOptionsSchema = z.object({
-  equicord: z.string().optional(),
-  output: z.string().min(1, 'Output path cannot be empty'),
+const CliOptionsSchema = z
+  .object({
+    equicord: z.string().optional(),
+    output: z.string().min(1, 'Output path cannot be empty').optional(),
+    verbose: z.boolean(),
+    vencord: z.string().optional(),
+    version: z.boolean(),
+    vencordPlugins: z.string().min(1, 'Vencord plugins path cannot be empty').optional(),
+    equicordPlugins: z.string().min(1, 'Equicord plugins path cannot be empty').optional(),
+    config: z.string().min(1, 'Config path cannot be empty').optional(),
+    skipGitMigrations: z.boolean(),
+    check: z.boolean(),
+    report: z.string().min(1, 'Report path cannot be empty').optional(),
+    sarif: z.string().min(1, 'SARIF path cannot be empty').optional(),
+    baseline: z.string().min(1, 'Baseline path cannot be empty').optional(),
+    updateBaseline: z.boolean(),
+    watch: z.boolean(),
+    only: z.array(z.string().min(1, 'Plugin filter cannot be empty')).optional(),
+    exclude: z.array(z.string().min(1, 'Plugin filter cannot be empty')).optional(),
+    nixModules: z.boolean(),
+    markdown: z.string().min(1, 'Markdown directory cannot be empty').optional(),
+  })
+  .refine((flags) => !flags.updateBaseline || flags.baseline !== undefined, {
+    message: '--update-baseline requires --baseline',
+    path: ['updateBaseline'],
+  })
+  .refine((flags) => !flags.updateBaseline || (!flags.only && !flags.exclude), {
+    message: '--update-baseline cannot be combined with --only or --exclude',
+    path: ['updateBaseline'],
+  })
+  .refine(
+    (flags) =>
+      !flags.watch ||
+      (!flags.check &&
+        flags.report === undefined &&
+        flags.sarif === undefined &&
+        flags.baseline === undefined),
+    {
+      message: '--watch cannot be combined with --check, --report, --sarif or --baseline',
+      path: ['watch'],
+    }
+  );
+
+type CliFlags = z.infer<typeof CliOptionsSchema>;
+type CliArgs = [vencordArg?: string];
+
+const DiffOptionsSchema = z.object({
+  json: z.boolean(),
+  output: z.string().min(1, 'Output path cannot be empty').optional(),
+  vencordPlugins: z.string().min(1, 'Vencord plugins path cannot be empty'),
+  equicordPlugins: z.string().min(1, 'Equicord plugins path cannot be empty'),
+  verbose: z.boolean(),
+});
+
+type DiffFlags = z.infer<typeof DiffOptionsSchema>;
+type DiffArgs = [beforePath: string, afterPath: string];
+
+const InspectOptionsSchema = z.object({
+  json: z.boolean(),
+  source: z.string().min(1, 'Source path cannot be empty').optional(),
+  verbose: z.boolean(),
+});
+
+type InspectFlags = z.infer<typeof InspectOptionsSchema>;
+type InspectArgs = [pluginPath: string];
+
+const ImportSettingsOptionsSchema = z.object({
+  output: z.string().min(1, 'Output path cannot be empty').optional(),
+  pluginsDir: z.string().min(1, 'Plugins directory cannot be empty'),
   verbose: z.boolean(),
-  vencord: z.string().optional(),
-  version: z.boolean(),
+});
+
+type ImportSettingsFlags = z.infer<typeof ImportSettingsOptionsSchema>;
+type ImportSettingsArgs = [settingsPath: string];
+
+const ValidateOptionsSchema = z.object({
+  json: z.boolean(),
+  output: z.string().min(1, 'Output path cannot be empty').optional(),
+  source: z.array(z.string().min(1, 'Source path cannot be empty')).min(1),
   vencordPlugins: z.string().min(1, 'Vencord plugins path cannot be empty'),
   equicordPlugins: z.string().min(1, 'Equicord plugins path cannot be empty'),
-  skipGitMigrations: z.boolean(),
+  pluginsDir: z.string().min(1, 'Plugins directory cannot be empty'),
+  verbose: z.boolean(),
 });
 
-type CliFlags = z.infer<typeof CliOptionsSchema>;
-type CliArgs = [vencordArg?: string];
+type ValidateFlags = z.infer<typeof ValidateOptionsSchema>;
+type ValidateArgs = [settingsPath: string];
+
+const DriftOptionsSchema = z
+  .object({
+    json: z.boolean(),
+    nix: z.boolean(),
+    pluginsDir: z.string().min(1, 'Plugins directory cannot be empty'),
+    verbose: z.boolean(),
+  })
+  .refine((flags) => !flags.json || !flags.nix, {
+    message: '--json cannot be combined with --nix',
+    path: ['json'],
+  });
+
+type DriftFlags = z.infer<typeof DriftOptionsSchema>;
+type DriftArgs = [livePath: string, declaredPath: string];
+
+const MigrateConfigOptionsSchema = z.object({
+  migrations: z.string().min(1, 'Migrations path cannot be empty'),
+  dryRun: z.boolean(),
+  verbose: z.boolean(),
+});
+
+type MigrateConfigFlags = z.infer<typeof MigrateConfigOptionsSchema>;
+type MigrateConfigArgs = [configPath: string];
 
 export class CliExecutionError extends Error {
   constructor(
@@ -43,8 +164,67 @@ export class CliExecutionError extends Error {
 
 const stringParser = (input: string): string => input;
 
-export const buildCli = (): Application<CommandContext> => {
-  const command = buildCommand<CliFlags, CliArgs>({
+type GeneratorSourceConfig = NonNullable<NonNullable<GeneratorConfig['sources']>['vencord']>;
+
+/** Per-source settings from the config file; the shared plugin directory flags win over them. */
+const toSourceSettings = (
+  flags: CliFlags,
+  source: GeneratorSourceConfig | undefined
+): GeneratePluginOptionsParams['vencordSource'] => ({
+  ...(source?.label === undefined ? {} : { label: source.label }),
+  ...(flags.vencordPlugins === undefined && source?.pluginDirectories?.vencord !== undefined
+    ? { vencordPluginsDir: source.pluginDirectories.vencord }
+    : {}),
+  ...(flags.equicordPlugins === undefined && source?.pluginDirectories?.equicord !== undefined
+    ? { equicordPluginsDir: source.pluginDirectories.equicord }
+    : {}),
+});
+
+/** Flags override the config file, which overrides the built-in defaults. */
+const toGenerateParams = (
+  flags: CliFlags,
+  vencordArg: string | undefined,
+  config: GeneratorConfig,
+  logger: GeneratePluginOptionsParams['logger']
+): GeneratePluginOptionsParams => {
+  const reportPath = flags.report ?? config.output?.report;
+  const sarifPath = flags.sarif ?? config.diagnostics?.sarif;
+  const baselinePath = flags.baseline ?? config.diagnostics?.baseline;
+  const markdownDir = flags.markdown ?? config.output?.markdown;
+  const useConfigPluginsDir = flags.output === undefined && config.output?.pluginsDir !== undefined;
+
+  return {
+    vencordPath:
+      flags.vencord ?? vencordArg ?? config.sources?.vencord?.path ?? CLI_CONFIG.sources.vencord,
+    equicordPath: flags.equicord ?? config.sources?.equicord?.path ?? CLI_CONFIG.sources.equicord,
+    outputPath: resolve(process.cwd(), flags.output ?? config.output?.path ?? DEFAULT_OUTPUT),
+    verbose: flags.verbose,
+    logger,
+    vencordPluginsDir: flags.vencordPlugins ?? CLI_CONFIG.directories.vencordPlugins,
+    equicordPluginsDir: flags.equicordPlugins ?? CLI_CONFIG.directories.equicordPlugins,
+    vencordSource: toSourceSettings(flags, config.sources?.vencord),
+    equicordSource: toSourceSettings(flags, config.sources?.equicord),
+    ...(useConfigPluginsDir ? { pluginsDir: config.output?.pluginsDir } : {}),
+    ...(config.output?.filenames === undefined ? {} : { filenames: config.output.filenames }),
+    skipGitMigrations: flags.skipGitMigrations || config.migrations?.git === false,
+    check: flags.check,
+    nixModules: flags.nixModules || config.output?.nixModules === true,
+    ...(flags.only === undefined ? {} : { only: flags.only }),
+    ...(flags.exclude === undefined ? {} : { exclude: flags.exclude }),
+    ...(reportPath === undefined ? {} : { reportPath: resolve(process.cwd(), reportPath) }),
+    ...(markdownDir === undefined ? {} : { markdownDir: resolve(process.cwd(), markdownDir) }),
+    ...(sarifPath === undefined ? {} : { sarifPath: resolve(process.cwd(), sarifPath) }),
+    ...(baselinePath === undefined
+      ? {}
+      : {
+          baselinePath: resolve(process.cwd(), baselinePath),
+          updateBaseline: flags.updateBaseline,
+        }),
+  };
+};
+
+const buildGenerateCommand = (): Command<CommandContext> =>
+  buildCommand<CliFlags, CliArgs>({
     docs: {
       brief: DESCRIPTION,
       fullDescription: DESCRIPTION,
@@ -68,23 +248,31 @@ export const buildCli = (): Application<CommandContext> => {
         output: {
           kind: 'parsed',
           parse: stringParser,
-          brief: 'Output file path',
+          brief: `Output file path (default: ${DEFAULT_OUTPUT})`,
           placeholder: 'path',
-          default: DEFAULT_OUTPUT,
+          optional: true,
         },
         vencordPlugins: {
           kind: 'parsed',
           parse: stringParser,
-          brief: 'Relative path to Vencord plugins directory',
+          brief: `Relative path to Vencord plugins directory (default: ${CLI_CONFIG.directories.vencordPlugins})`,
           placeholder: 'path',
-          default: CLI_CONFIG.directories.vencordPlugins,
+          optional: true,
         },
         equicordPlugins: {
           kind: 'parsed',
           parse: stringParser,
-          brief: 'Relative path to Equicord plugins directory',
+          brief: `Relative path to Equicord plugins directory (default: ${CLI_CONFIG.directories.equicordPlugins})`,
           placeholder: 'path',
-          default: CLI_CONFIG.directories.equicordPlugins,
+          optional: true,
+        },
+        config: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief:
+            'Generator config file; flags override it (default: nixcord-gen.config.js, .mjs or .json in the working directory)',
+          placeholder: 'path',
+          optional: true,
         },
         skipGitMigrations: {
           kind: 'boolean',
@@ -92,6 +280,79 @@ export const buildCli = (): Application<CommandContext> => {
           default: false,
           withNegated: false,
         },
+        check: {
+          kind: 'boolean',
+          brief: 'Compare generated outputs with the files on disk instead of writing them',
+          default: false,
+          withNegated: false,
+        },
+        report: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief:
+            'Write a JSON report of the run (summary, diagnostics, categorization, migrations)',
+          placeholder: 'path',
+          optional: true,
+        },
+        sarif: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Write parser diagnostics as a SARIF 2.1.0 log',
+          placeholder: 'path',
+          optional: true,
+        },
+        baseline: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Fail when parser diagnostics appear that are not recorded in this baseline file',
+          placeholder: 'path',
+          optional: true,
+        },
+        updateBaseline: {
+          kind: 'boolean',
+          brief: 'Record the current parser diagnostics in the --baseline file',
+          default: false,
+          withNegated: false,
+        },
+        only: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief:
+            'Only regenerate plugins whose directory matches this glob; the rest, and the files covering every plugin (parse rules, dependency graph, JSON schema, type declarations), are kept as they are. Cannot be combined with --markdown',
+          placeholder: 'glob',
+          variadic: true,
+          optional: true,
+        },
+        exclude: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief:
+            'Do not regenerate plugins whose directory matches this glob; like --only, keeps the files covering every plugin as they are',
+          placeholder: 'glob',
+          variadic: true,
+          optional: true,
+        },
+        nixModules: {
+          kind: 'boolean',
+          brief:
+            'Also write the plugin options as native Nix modules (shared.nix, vencord.nix, equicord.nix)',
+          default: false,
+          withNegated: false,
+        },
+        markdown: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Also write a Markdown plugin reference per category to this directory',
+          placeholder: 'dir',
+          optional: true,
+        },
+        watch: {
+          kind: 'boolean',
+          brief:
+            'Regenerate whenever plugin sources change, re-extracting only the changed plugins',
+          default: false,
+          withNegated: false,
+        },
         verbose: {
           kind: 'boolean',
           brief: 'Enable verbose output',
@@ -137,35 +398,638 @@ export const buildCli = (): Application<CommandContext> => {
         return;
       }
 
-      const vencordPath = validationResult.data.vencord ?? vencordArg ?? CLI_CONFIG.sources.vencord;
-      const equicordPath = validationResult.data.equicord ?? CLI_CONFIG.sources.equicord;
+      const configResult = await loadGeneratorConfig(validationResult.data.config);
+      if (!configResult.ok) {
+        throw new CliExecutionError(configResult.error, validationResult.data.verbose);
+      }
 
       const logger = createLogger(validationResult.data.verbose);
-      const resolvedOutputPath = resolve(process.cwd(), validationResult.data.output);
+      if (configResult.value !== undefined) {
+        logger.debug(`Using generator config ${configResult.value.path}`);
+      }
+
+      const params = toGenerateParams(
+        validationResult.data,
+        vencordArg,
+        configResult.value?.config ?? {},
+        logger
+      );
+
+      if (validationResult.data.watch) {
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.once('SIGINT', stop);
+        const watchResult = await runWatchGeneratePluginOptions(params, controller.signal);
+        process.off('SIGINT', stop);
+        if (!watchResult.ok) {
+          throw new CliExecutionError(watchResult.error, validationResult.data.verbose);
+        }
+        return;
+      }
+
+      const result = await runGeneratePluginOptions(params);
 
-      const baseParams: GeneratePluginOptionsParams = {
-        vencordPath,
-        outputPath: resolvedOutputPath,
-        verbose: validationResult.data.verbose,
-        logger,
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
+
+      if (params.reportPath !== undefined) {
+        logger.info(`Wrote run report to ${params.reportPath}`);
+      }
+      if (params.sarifPath !== undefined) {
+        logger.info(`Wrote SARIF log to ${params.sarifPath}`);
+      }
+
+      if (params.updateBaseline) {
+        logger.info(`Updated diagnostics baseline at ${params.baselinePath}`);
+      }
+
+      const { drift, migrationError, newDiagnostics } = result.value;
+      const filenames = getArtifactFilenames(params);
+      if (migrationError !== undefined) {
+        logger.warn(
+          `Could not check ${filenames.deprecated} and ${filenames.migrations}: migration extraction failed: ${migrationError}`
+        );
+      }
+      if (drift === undefined) {
+        logGeneratePluginOptionsSummary(logger, result.value, filenames);
+      } else if (drift.length > 0) {
+        logOutputDrift(logger, result.value.pluginsDir, drift);
+        throw new CliExecutionError(
+          new Error(
+            `${drift.length} generated file(s) are out of date; rerun without --check to regenerate`
+          ),
+          validationResult.data.verbose
+        );
+      } else if (migrationError !== undefined) {
+        throw new CliExecutionError(
+          new Error(
+            `${filenames.deprecated} and ${filenames.migrations} were not checked because migration extraction failed`
+          ),
+          validationResult.data.verbose
+        );
+      } else {
+        logger.success(
+          `${CLI_CONFIG.symbols.success} Generated plugin options in ${result.value.pluginsDir} are up to date`
+        );
+      }
+
+      if (newDiagnostics !== undefined && newDiagnostics.length > 0) {
+        logNewDiagnostics(logger, newDiagnostics);
+        throw new CliExecutionError(
+          new Error(
+            `${newDiagnostics.length} parser diagnostic(s) are not in the baseline; fix the extraction or rerun with --update-baseline`
+          ),
+          validationResult.data.verbose
+        );
+      }
+    },
+  });
+
+const buildDiffCommand = (): Command<CommandContext> =>
+  buildCommand<DiffFlags, DiffArgs>({
+    docs: {
+      brief: DIFF_DESCRIPTION,
+      fullDescription: `${DIFF_DESCRIPTION}. Reports added and removed plugins and settings, type changes, enum value changes and default changes as a Markdown changelog.`,
+    },
+    parameters: {
+      flags: {
+        json: {
+          kind: 'boolean',
+          brief: 'Print the diff as JSON instead of Markdown',
+          default: false,
+          withNegated: false,
+        },
+        output: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Write the diff to a file instead of stdout',
+          placeholder: 'path',
+          optional: true,
+        },
+        vencordPlugins: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Relative path to Vencord plugins directory',
+          placeholder: 'path',
+          default: CLI_CONFIG.directories.vencordPlugins,
+        },
+        equicordPlugins: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Relative path to Equicord plugins directory',
+          placeholder: 'path',
+          default: CLI_CONFIG.directories.equicordPlugins,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        o: 'output',
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: 'Source tree or generated plugin directory before the change',
+            placeholder: 'before',
+          },
+          {
+            parse: stringParser,
+            brief: 'Source tree or generated plugin directory after the change',
+            placeholder: 'after',
+          },
+        ],
+      },
+    },
+    async func(flags, beforePath, afterPath) {
+      const validationResult = DiffOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
+
+      const result = await runDiffPluginSurfaces({
+        beforePath,
+        afterPath,
         vencordPluginsDir: validationResult.data.vencordPlugins,
         equicordPluginsDir: validationResult.data.equicordPlugins,
-        skipGitMigrations: validationResult.data.skipGitMigrations,
-      };
+      });
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
 
-      const params: GeneratePluginOptionsParams = { ...baseParams, equicordPath };
+      const report = validationResult.data.json
+        ? `${JSON.stringify(result.value, null, 2)}\n`
+        : formatPluginSurfaceDiff(result.value);
 
-      const result = await runGeneratePluginOptions(params);
+      // Parsing source trees logs progress to stdout when it is not a TTY, so redirecting stdout
+      // would mix that into the changelog; --output keeps the report clean.
+      if (validationResult.data.output === undefined) {
+        this.process.stdout.write(report);
+        return;
+      }
+      const outputPath = resolve(process.cwd(), validationResult.data.output);
+      await fse.outputFile(outputPath, report);
+      createLogger(validationResult.data.verbose).success(
+        `${CLI_CONFIG.symbols.success} Wrote plugin option diff to ${outputPath}`
+      );
+    },
+  });
+
+const buildInspectCommand = (): Command<CommandContext> =>
+  buildCommand<InspectFlags, InspectArgs>({
+    docs: {
+      brief: INSPECT_DESCRIPTION,
+      fullDescription: `${INSPECT_DESCRIPTION}: the PluginConfig tree, the file, line and extractor behind each setting, and any parser diagnostics.`,
+    },
+    parameters: {
+      flags: {
+        json: {
+          kind: 'boolean',
+          brief: 'Print the inspection as JSON instead of a tree',
+          default: false,
+          withNegated: false,
+        },
+        source: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief:
+            'Path to the Vencord/Equicord source tree (default: nearest parent with a package.json)',
+          placeholder: 'path',
+          optional: true,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        s: 'source',
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: 'Path to the plugin directory',
+            placeholder: 'plugin',
+          },
+        ],
+      },
+    },
+    async func(flags, pluginPath) {
+      const validationResult = InspectOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
+
+      const result = await runInspectPlugin({
+        pluginPath,
+        ...(validationResult.data.source === undefined
+          ? {}
+          : { sourcePath: validationResult.data.source }),
+      });
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
+
+      this.process.stdout.write(
+        validationResult.data.json
+          ? `${JSON.stringify(result.value, null, 2)}\n`
+          : formatPluginInspection(result.value)
+      );
+    },
+  });
+
+const buildImportSettingsCommand = (): Command<CommandContext> =>
+  buildCommand<ImportSettingsFlags, ImportSettingsArgs>({
+    docs: {
+      brief: IMPORT_SETTINGS_DESCRIPTION,
+      fullDescription: `${IMPORT_SETTINGS_DESCRIPTION}. Values equal to the option defaults are dropped; settings without a Nixcord option are reported and kept under extraConfig.`,
+    },
+    parameters: {
+      flags: {
+        output: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Write the Nix snippet to a file instead of stdout',
+          placeholder: 'path',
+          optional: true,
+        },
+        pluginsDir: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Directory with the generated plugin option files',
+          placeholder: 'path',
+          default: DEFAULT_PLUGINS_DIR,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        o: 'output',
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: 'settings/settings.json or a settings backup export',
+            placeholder: 'settings',
+          },
+        ],
+      },
+    },
+    async func(flags, settingsPath) {
+      const validationResult = ImportSettingsOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
 
+      const result = await runImportSettings({
+        settingsPath,
+        pluginsDir: validationResult.data.pluginsDir,
+      });
       if (!result.ok) {
         throw new CliExecutionError(result.error, validationResult.data.verbose);
       }
 
-      logGeneratePluginOptionsSummary(logger, result.value);
+      const logger = createLogger(validationResult.data.verbose);
+      for (const setting of result.value.unrepresentable) {
+        logger.warn(`Kept ${setting.path} under extraConfig: ${setting.reason}`);
+      }
+
+      const snippet = formatSettingsImport(result.value);
+      if (validationResult.data.output === undefined) {
+        this.process.stdout.write(snippet);
+        return;
+      }
+      const outputPath = resolve(process.cwd(), validationResult.data.output);
+      await fse.outputFile(outputPath, snippet);
+      logger.success(`${CLI_CONFIG.symbols.success} Wrote Nixcord configuration to ${outputPath}`);
+    },
+  });
+
+const buildValidateCommand = (): Command<CommandContext> =>
+  buildCommand<ValidateFlags, ValidateArgs>({
+    docs: {
+      brief: VALIDATE_DESCRIPTION,
+      fullDescription: `${VALIDATE_DESCRIPTION}. Reports unknown plugins and settings, wrong types, values outside an enum, and plugins or settings that deprecated.json lists as renamed or removed, each with a JSON pointer. Exits non-zero when any issue is found.`,
+    },
+    parameters: {
+      flags: {
+        json: {
+          kind: 'boolean',
+          brief: 'Print the issues as JSON instead of one line per issue',
+          default: false,
+          withNegated: false,
+        },
+        output: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Write the issues to a file instead of stdout',
+          placeholder: 'path',
+          optional: true,
+        },
+        source: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Vencord/Equicord source tree to extract plugins from; repeat for both',
+          placeholder: 'path',
+          variadic: true,
+        },
+        vencordPlugins: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Relative path to Vencord plugins directory',
+          placeholder: 'path',
+          default: CLI_CONFIG.directories.vencordPlugins,
+        },
+        equicordPlugins: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Relative path to Equicord plugins directory',
+          placeholder: 'path',
+          default: CLI_CONFIG.directories.equicordPlugins,
+        },
+        pluginsDir: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Directory with the generated deprecated.json',
+          placeholder: 'path',
+          default: DEFAULT_PLUGINS_DIR,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        o: 'output',
+        s: 'source',
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: 'settings/settings.json or a settings backup export',
+            placeholder: 'settings',
+          },
+        ],
+      },
+    },
+    async func(flags, settingsPath) {
+      const validationResult = ValidateOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
+
+      const result = await runValidateSettings({
+        settingsPath,
+        sourcePaths: validationResult.data.source,
+        vencordPluginsDir: validationResult.data.vencordPlugins,
+        equicordPluginsDir: validationResult.data.equicordPlugins,
+        pluginsDir: validationResult.data.pluginsDir,
+      });
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
+
+      const logger = createLogger(validationResult.data.verbose);
+      const { issues } = result.value;
+      const report = validationResult.data.json
+        ? `${JSON.stringify(result.value, null, 2)}\n`
+        : formatSettingsValidation(result.value);
+
+      // Parsing source trees logs progress to stdout, so --output keeps the report clean
+      if (validationResult.data.output === undefined) {
+        this.process.stdout.write(report);
+      } else {
+        const outputPath = resolve(process.cwd(), validationResult.data.output);
+        await fse.outputFile(outputPath, report);
+        logger.info(`Wrote settings issues to ${outputPath}`);
+      }
+
+      if (issues.length > 0) {
+        throw new CliExecutionError(
+          new Error(`${issues.length} invalid plugin setting(s) in ${result.value.settingsPath}`),
+          validationResult.data.verbose
+        );
+      }
+      logger.success(
+        `${CLI_CONFIG.symbols.success} ${result.value.settingsPath} matches the extracted plugin options`
+      );
+    },
+  });
+
+const buildDriftCommand = (): Command<CommandContext> =>
+  buildCommand<DriftFlags, DriftArgs>({
+    docs: {
+      brief: DRIFT_DESCRIPTION,
+      fullDescription: `${DRIFT_DESCRIPTION}. In-app changes are overwritten on the next activation; pass --nix to print the configuration that keeps them.`,
+    },
+    parameters: {
+      flags: {
+        json: {
+          kind: 'boolean',
+          brief: 'Print the drift as JSON instead of a list',
+          default: false,
+          withNegated: false,
+        },
+        nix: {
+          kind: 'boolean',
+          brief: 'Print a Nix snippet that makes the changes permanent instead of a list',
+          default: false,
+          withNegated: false,
+        },
+        pluginsDir: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'Directory with the generated plugin option files',
+          placeholder: 'path',
+          default: DEFAULT_PLUGINS_DIR,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: "The client's settings/settings.json",
+            placeholder: 'live',
+          },
+          {
+            parse: stringParser,
+            brief: 'The settings.json Nixcord writes',
+            placeholder: 'declared',
+          },
+        ],
+      },
+    },
+    async func(flags, livePath, declaredPath) {
+      const validationResult = DriftOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
+
+      const result = await runSettingsDrift({
+        livePath,
+        declaredPath,
+        pluginsDir: validationResult.data.pluginsDir,
+      });
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
+
+      if (validationResult.data.json) {
+        this.process.stdout.write(`${JSON.stringify(result.value, null, 2)}\n`);
+      } else if (validationResult.data.nix) {
+        const logger = createLogger(validationResult.data.verbose);
+        for (const setting of result.value.changes.unrepresentable) {
+          logger.warn(`Kept ${setting.path} under extraConfig: ${setting.reason}`);
+        }
+        this.process.stdout.write(formatSettingsImport(result.value.changes));
+      } else {
+        this.process.stdout.write(formatSettingsDrift(result.value));
+      }
+    },
+  });
+
+const buildMigrateConfigCommand = (): Command<CommandContext> =>
+  buildCommand<MigrateConfigFlags, MigrateConfigArgs>({
+    docs: {
+      brief: MIGRATE_CONFIG_DESCRIPTION,
+      fullDescription: `${MIGRATE_CONFIG_DESCRIPTION}. Renamed plugins and settings below programs.nixcord.config.plugins are renamed in place and removed plugins are deleted; the rest of the file, including comments, is left as is.`,
+    },
+    parameters: {
+      flags: {
+        migrations: {
+          kind: 'parsed',
+          parse: stringParser,
+          brief: 'The generated migrations.json',
+          placeholder: 'path',
+          default: join(DEFAULT_PLUGINS_DIR, CLI_CONFIG.filenames.migrations),
+        },
+        dryRun: {
+          kind: 'boolean',
+          brief: 'Print the migrated file to stdout instead of rewriting it',
+          default: false,
+          withNegated: false,
+        },
+        verbose: {
+          kind: 'boolean',
+          brief: 'Enable verbose output',
+          default: false,
+          withNegated: false,
+        },
+      },
+      aliases: {
+        v: 'verbose',
+      },
+      positional: {
+        kind: 'tuple',
+        parameters: [
+          {
+            parse: stringParser,
+            brief: 'Nix file that sets programs.nixcord.config.plugins',
+            placeholder: 'config',
+          },
+        ],
+      },
+    },
+    async func(flags, configPath) {
+      const validationResult = MigrateConfigOptionsSchema.safeParse(flags);
+      if (!validationResult.success) {
+        const zodError = fromZodError(validationResult.error);
+        throw new CliExecutionError(new Error(`Invalid CLI options: ${zodError.message}`), false);
+      }
+
+      const result = await runMigrateConfig({
+        configPath,
+        migrationsPath: validationResult.data.migrations,
+        dryRun: validationResult.data.dryRun,
+      });
+      if (!result.ok) {
+        throw new CliExecutionError(result.error, validationResult.data.verbose);
+      }
+
+      const logger = createLogger(validationResult.data.verbose);
+      for (const warning of result.value.warnings) logger.warn(warning);
+      // info goes to stdout, where a dry run prints the migrated file
+      if (validationResult.data.dryRun) {
+        this.process.stdout.write(result.value.contents);
+        return;
+      }
+
+      for (const change of result.value.changes) {
+        logger.info(
+          change.kind === 'rename'
+            ? `Renamed ${change.from} to ${change.to}`
+            : `Removed ${change.path}`
+        );
+      }
+      if (result.value.changes.length === 0) {
+        logger.info(`No migrations apply to ${result.value.configPath}`);
+      } else {
+        logger.success(
+          `${CLI_CONFIG.symbols.success} Migrated ${result.value.changes.length} binding(s) in ${result.value.configPath}`
+        );
+      }
+    },
+  });
+
+export const buildCli = (): Application<CommandContext> => {
+  // `generate` stays the default route so existing `generate-plugin-options <path>` calls keep working
+  const routes = buildRouteMap({
+    routes: {
+      generate: buildGenerateCommand(),
+      diff: buildDiffCommand(),
+      inspect: buildInspectCommand(),
+      'import-settings': buildImportSettingsCommand(),
+      validate: buildValidateCommand(),
+      drift: buildDriftCommand(),
+      'migrate-config': buildMigrateConfigCommand(),
+    },
+    defaultCommand: 'generate',
+    docs: {
+      brief: DESCRIPTION,
+      fullDescription: DESCRIPTION,
     },
   });
 
-  return buildApplication(command, {
+  return buildApplication(routes, {
     name: 'generate-plugin-options',
     determineExitCode: () => 1,
     scanner: {
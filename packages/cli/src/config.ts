@@ -0,0 +1,163 @@
+import { pathToFileURL } from 'node:url';
+import { Err, Ok, type Result } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { dirname, resolve } from 'pathe';
+import * as z from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { ArtifactFilenamesSchema } from './runner/index.js';
+
+/** Looked up in the working directory when `--config` is not given, in this order. */
+const GENERATOR_CONFIG_FILENAMES = [
+  'nixcord-gen.config.js',
+  'nixcord-gen.config.mjs',
+  'nixcord-gen.config.json',
+];
+
+/** The CLI runs under plain Node, which can import JavaScript modules but not TypeScript. */
+const CONFIG_MODULE_EXTENSIONS = ['.js', '.mjs'];
+
+const pathSchema = z.string().min(1);
+
+const SourceConfigSchema = z.strictObject({
+  path: pathSchema.optional(),
+  label: z.string().min(1).optional(),
+  /** Relative to the source checkout, like `--vencord-plugins`/`--equicord-plugins`. */
+  pluginDirectories: z
+    .strictObject({
+      vencord: pathSchema.optional(),
+      equicord: pathSchema.optional(),
+    })
+    .optional(),
+});
+
+const GeneratorConfigSchema = z.strictObject({
+  sources: z
+    .strictObject({
+      vencord: SourceConfigSchema.optional(),
+      equicord: SourceConfigSchema.optional(),
+    })
+    .optional(),
+  output: z
+    .strictObject({
+      /** The generated module path; artifacts go to the plugins directory next to it. */
+      path: pathSchema.optional(),
+      /** Write artifacts here instead of next to `path`. */
+      pluginsDir: pathSchema.optional(),
+      filenames: ArtifactFilenamesSchema.partial().strict().optional(),
+      report: pathSchema.optional(),
+      /** Also write native Nix option modules for the plugin files (default: false). */
+      nixModules: z.boolean().optional(),
+      /** Directory for the Markdown plugin reference; not written when unset. */
+      markdown: pathSchema.optional(),
+    })
+    .optional(),
+  diagnostics: z
+    .strictObject({
+      baseline: pathSchema.optional(),
+      sarif: pathSchema.optional(),
+    })
+    .optional(),
+  migrations: z
+    .strictObject({
+      /** Inspect git history for plugin rename/removal migrations (default: true). */
+      git: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+export type GeneratorConfig = z.infer<typeof GeneratorConfigSchema>;
+
+interface LoadedGeneratorConfig {
+  path: string;
+  config: GeneratorConfig;
+}
+
+class GeneratorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeneratorConfigError';
+  }
+}
+
+const findConfigPath = async (cwd: string): Promise<string | undefined> => {
+  for (const filename of GENERATOR_CONFIG_FILENAMES) {
+    const candidate = resolve(cwd, filename);
+    if (await fse.pathExists(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+const readConfigFile = async (path: string): Promise<unknown> => {
+  if (path.endsWith('.json')) return fse.readJson(path);
+  const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+  return module.default;
+};
+
+const resolveFrom = (base: string, path: string | undefined): string | undefined =>
+  path === undefined ? undefined : resolve(base, path);
+
+const resolveSourcePath = <T extends { path?: string }>(base: string, source: T | undefined) =>
+  source?.path === undefined ? source : { ...source, path: resolve(base, source.path) };
+
+/** Paths in a config file are relative to the file, not to the directory the CLI runs in. */
+const resolveConfigPaths = (config: GeneratorConfig, base: string): GeneratorConfig => ({
+  ...config,
+  ...(config.sources && {
+    sources: {
+      vencord: resolveSourcePath(base, config.sources.vencord),
+      equicord: resolveSourcePath(base, config.sources.equicord),
+    },
+  }),
+  ...(config.output && {
+    output: {
+      ...config.output,
+      path: resolveFrom(base, config.output.path),
+      pluginsDir: resolveFrom(base, config.output.pluginsDir),
+      report: resolveFrom(base, config.output.report),
+      markdown: resolveFrom(base, config.output.markdown),
+    },
+  }),
+  ...(config.diagnostics && {
+    diagnostics: {
+      baseline: resolveFrom(base, config.diagnostics.baseline),
+      sarif: resolveFrom(base, config.diagnostics.sarif),
+    },
+  }),
+});
+
+/**
+ * Load the generator config from `explicitPath`, or from the first of
+ * {@link GENERATOR_CONFIG_FILENAMES} found in `cwd`. Resolves to `undefined` when no path was
+ * given and no config file exists.
+ */
+export const loadGeneratorConfig = async (
+  explicitPath?: string,
+  cwd: string = process.cwd()
+): Promise<Result<LoadedGeneratorConfig | undefined, Error>> => {
+  try {
+    const path =
+      explicitPath === undefined ? await findConfigPath(cwd) : resolve(cwd, explicitPath);
+    if (path === undefined) return Ok(undefined);
+    if (!(await fse.pathExists(path))) {
+      return Err(new GeneratorConfigError(`Config file not found: ${path}`));
+    }
+    if (!path.endsWith('.json') && !CONFIG_MODULE_EXTENSIONS.some((ext) => path.endsWith(ext))) {
+      return Err(
+        new GeneratorConfigError(`Unsupported config file ${path}: use a .json, .js or .mjs file`)
+      );
+    }
+
+    const parsed = GeneratorConfigSchema.safeParse(await readConfigFile(path));
+    if (!parsed.success) {
+      return Err(
+        new GeneratorConfigError(
+          `Invalid config file ${path}: ${fromZodError(parsed.error).message}`
+        )
+      );
+    }
+    return Ok({ path, config: resolveConfigPaths(parsed.data, dirname(path)) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return Err(new GeneratorConfigError(`Failed to load config file: ${message}`));
+  }
+};
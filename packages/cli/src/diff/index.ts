@@ -0,0 +1,282 @@
+import type { PluginJson, PluginSettingJson } from '@nixcord/nix-generator';
+import { generatePluginModule } from '@nixcord/nix-generator';
+import type { ParsePluginsOptions } from '@nixcord/parser';
+import { categorizePlugins, parsePlugins } from '@nixcord/parser';
+import type { Simplify } from '@nixcord/shared';
+import { CLI_CONFIG, Err, isNonNullObject, Ok, type Result } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import * as z from 'zod';
+
+const DiffPluginSurfacesParamsSchema = z.object({
+  beforePath: z.string().min(1),
+  afterPath: z.string().min(1),
+  vencordPluginsDir: z.string().min(1),
+  equicordPluginsDir: z.string().min(1),
+});
+
+export type DiffPluginSurfacesParams = Simplify<z.infer<typeof DiffPluginSurfacesParamsSchema>>;
+
+type EnumValue = string | number | boolean;
+
+export type SettingChange =
+  | { setting: string; kind: 'type'; before: string; after: string }
+  | { setting: string; kind: 'enumValues'; added: EnumValue[]; removed: EnumValue[] }
+  | { setting: string; kind: 'default'; before?: unknown; after?: unknown };
+
+export interface PluginSurfaceChange {
+  plugin: string;
+  addedSettings: string[];
+  removedSettings: string[];
+  changes: SettingChange[];
+}
+
+export interface PluginSurfaceDiff {
+  addedPlugins: string[];
+  removedPlugins: string[];
+  changedPlugins: PluginSurfaceChange[];
+}
+
+/** Plugin identifier -> dotted setting path -> setting, as the Nix module sees it. */
+type PluginSurface = Map<string, Map<string, PluginSettingJson>>;
+
+type SurfaceKind = 'source' | 'generated';
+
+const PLUGIN_FILENAMES = [
+  CLI_CONFIG.filenames.shared,
+  CLI_CONFIG.filenames.vencord,
+  CLI_CONFIG.filenames.equicord,
+] as const;
+
+class DiffPluginSurfacesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiffPluginSurfacesError';
+  }
+}
+
+const detectSurfaceKind = async (path: string): Promise<SurfaceKind> => {
+  const generated = await Promise.all(
+    PLUGIN_FILENAMES.map((filename) => fse.pathExists(resolve(path, filename)))
+  );
+  if (generated.some(Boolean)) return 'generated';
+  if (await fse.pathExists(resolve(path, CLI_CONFIG.filenames.packageJson))) return 'source';
+  throw new DiffPluginSurfacesError(
+    `Not a Vencord/Equicord source tree or generated plugin directory: ${path}`
+  );
+};
+
+const isPluginJson = (value: PluginSettingJson | PluginJson): value is PluginJson =>
+  'settings' in value;
+
+const flattenSettings = (
+  settings: PluginJson['settings'],
+  prefix: string,
+  into: Map<string, PluginSettingJson>
+): void => {
+  for (const [name, setting] of Object.entries(settings)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    if (isPluginJson(setting)) flattenSettings(setting.settings, path, into);
+    else if (!into.has(path)) into.set(path, setting);
+  }
+};
+
+/**
+ * Merge rendered plugin modules into a single surface. Plugins that Equicord modifies appear in
+ * both vencord.json and equicord.json; their settings are unioned so a plugin moving between
+ * categories is not reported as removed and re-added.
+ */
+const mergeModules = (modules: readonly string[]): PluginSurface => {
+  const surface: PluginSurface = new Map();
+  for (const contents of modules) {
+    const plugins = JSON.parse(contents) as Record<string, PluginJson>;
+    for (const [pluginId, plugin] of Object.entries(plugins)) {
+      const settings = surface.get(pluginId) ?? new Map<string, PluginSettingJson>();
+      flattenSettings(plugin.settings, '', settings);
+      surface.set(pluginId, settings);
+    }
+  }
+  return surface;
+};
+
+const loadGeneratedSurface = async (path: string): Promise<PluginSurface> => {
+  const modules: string[] = [];
+  for (const filename of PLUGIN_FILENAMES) {
+    const filePath = resolve(path, filename);
+    if (await fse.pathExists(filePath)) modules.push(await fse.readFile(filePath, 'utf8'));
+  }
+  return mergeModules(modules);
+};
+
+const loadSourceSurface = async (
+  path: string,
+  parseOptions: ParsePluginsOptions
+): Promise<PluginSurface> => {
+  const result = await parsePlugins(path, parseOptions);
+  // An Equicord tree is categorized as the Equicord side so src/equicordplugins is kept
+  const isEquicord = Object.keys(result.equicordPlugins).length > 0;
+  const categorized = isEquicord
+    ? categorizePlugins({ vencordPlugins: {}, equicordPlugins: {} }, result)
+    : categorizePlugins(result);
+
+  return mergeModules([
+    generatePluginModule(categorized.generic, 'shared'),
+    generatePluginModule(categorized.vencordOnly, 'vencord'),
+    generatePluginModule(categorized.equicordOnly, 'equicord'),
+  ]);
+};
+
+const sameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const diffEnumValues = (
+  before: readonly EnumValue[],
+  after: readonly EnumValue[]
+): { added: EnumValue[]; removed: EnumValue[] } => ({
+  added: after.filter((value) => !before.includes(value)),
+  removed: before.filter((value) => !after.includes(value)),
+});
+
+const diffSetting = (
+  setting: string,
+  before: PluginSettingJson,
+  after: PluginSettingJson
+): SettingChange[] => {
+  const changes: SettingChange[] = [];
+  if (before.type !== after.type) {
+    changes.push({ setting, kind: 'type', before: before.type, after: after.type });
+  }
+
+  const enumValues = diffEnumValues(before.enumValues ?? [], after.enumValues ?? []);
+  if (enumValues.added.length > 0 || enumValues.removed.length > 0) {
+    changes.push({ setting, kind: 'enumValues', ...enumValues });
+  }
+
+  if (!sameValue(before.default, after.default)) {
+    changes.push({
+      setting,
+      kind: 'default',
+      ...(before.default === undefined ? {} : { before: before.default }),
+      ...(after.default === undefined ? {} : { after: after.default }),
+    });
+  }
+  return changes;
+};
+
+const diffPlugin = (
+  plugin: string,
+  before: ReadonlyMap<string, PluginSettingJson>,
+  after: ReadonlyMap<string, PluginSettingJson>
+): PluginSurfaceChange | undefined => {
+  const addedSettings = [...after.keys()].filter((setting) => !before.has(setting)).sort();
+  const removedSettings = [...before.keys()].filter((setting) => !after.has(setting)).sort();
+  const changes = [...before.keys()]
+    .filter((setting) => after.has(setting))
+    .sort()
+    .flatMap((setting) => diffSetting(setting, before.get(setting)!, after.get(setting)!));
+
+  if (addedSettings.length === 0 && removedSettings.length === 0 && changes.length === 0) {
+    return undefined;
+  }
+  return { plugin, addedSettings, removedSettings, changes };
+};
+
+/** Compare two plugin option surfaces; `added`/`removed` are relative to `before`. */
+const diffPluginSurfaces = (before: PluginSurface, after: PluginSurface): PluginSurfaceDiff => ({
+  addedPlugins: [...after.keys()].filter((plugin) => !before.has(plugin)).sort(),
+  removedPlugins: [...before.keys()].filter((plugin) => !after.has(plugin)).sort(),
+  changedPlugins: [...before.keys()]
+    .filter((plugin) => after.has(plugin))
+    .sort()
+    .flatMap((plugin) => diffPlugin(plugin, before.get(plugin)!, after.get(plugin)!) ?? []),
+});
+
+const isEmptyPluginSurfaceDiff = (diff: PluginSurfaceDiff): boolean =>
+  diff.addedPlugins.length === 0 &&
+  diff.removedPlugins.length === 0 &&
+  diff.changedPlugins.length === 0;
+
+export const runDiffPluginSurfaces = async (
+  rawParams: DiffPluginSurfacesParams
+): Promise<Result<PluginSurfaceDiff, Error>> => {
+  const params = DiffPluginSurfacesParamsSchema.parse(rawParams);
+  try {
+    const beforePath = resolve(process.cwd(), params.beforePath);
+    const afterPath = resolve(process.cwd(), params.afterPath);
+    const [beforeKind, afterKind] = [
+      await detectSurfaceKind(beforePath),
+      await detectSurfaceKind(afterPath),
+    ];
+    if (beforeKind !== afterKind) {
+      throw new DiffPluginSurfacesError(
+        `Cannot compare a ${beforeKind} directory with a ${afterKind} directory: ${beforePath} vs ${afterPath}`
+      );
+    }
+
+    const parseOptions: ParsePluginsOptions = {
+      vencordPluginsDir: params.vencordPluginsDir,
+      equicordPluginsDir: params.equicordPluginsDir,
+    };
+    const load = (path: string): Promise<PluginSurface> =>
+      beforeKind === 'generated'
+        ? loadGeneratedSurface(path)
+        : loadSourceSurface(path, parseOptions);
+
+    const before = await load(beforePath);
+    const after = await load(afterPath);
+    return Ok(diffPluginSurfaces(before, after));
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new DiffPluginSurfacesError(String(error));
+    return Err(normalized);
+  }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '(none)';
+  if (isNonNullObject(value) && typeof value.__nixRaw === 'string') {
+    return `\`${value.__nixRaw}\``;
+  }
+  return `\`${JSON.stringify(value)}\``;
+};
+
+const formatSettingChange = (change: SettingChange): string => {
+  switch (change.kind) {
+    case 'type':
+      return `\`${change.setting}\`: type \`${change.before}\` → \`${change.after}\``;
+    case 'enumValues': {
+      const parts = [
+        ...(change.added.length > 0 ? [`added ${change.added.map(formatValue).join(', ')}`] : []),
+        ...(change.removed.length > 0
+          ? [`removed ${change.removed.map(formatValue).join(', ')}`]
+          : []),
+      ];
+      return `\`${change.setting}\`: enum values ${parts.join('; ')}`;
+    }
+    case 'default':
+      return `\`${change.setting}\`: default ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+};
+
+const formatPluginChange = (change: PluginSurfaceChange): string =>
+  [
+    `- \`${change.plugin}\``,
+    ...change.addedSettings.map((setting) => `  - added \`${setting}\``),
+    ...change.removedSettings.map((setting) => `  - removed \`${setting}\``),
+    ...change.changes.map((settingChange) => `  - ${formatSettingChange(settingChange)}`),
+  ].join('\n');
+
+/** Render a diff as a Markdown changelog suitable for a flake input bump. */
+export const formatPluginSurfaceDiff = (diff: PluginSurfaceDiff): string => {
+  if (isEmptyPluginSurfaceDiff(diff)) return 'No plugin option changes.\n';
+
+  const sections = [
+    ['Added plugins', diff.addedPlugins.map((plugin) => `- \`${plugin}\``)],
+    ['Removed plugins', diff.removedPlugins.map((plugin) => `- \`${plugin}\``)],
+    ['Changed plugins', diff.changedPlugins.map(formatPluginChange)],
+  ] as const;
+
+  return `${sections
+    .filter(([, lines]) => lines.length > 0)
+    .map(([title, lines]) => `### ${title}\n\n${lines.join('\n')}`)
+    .join('\n\n')}\n`;
+};
@@ -0,0 +1,225 @@
+import type { PluginJson, PluginSettingJson } from '@nixcord/nix-generator';
+import type { Simplify } from '@nixcord/shared';
+import { Err, isNonNullObject, Ok, type Result } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import * as z from 'zod';
+import {
+  effectiveDefault,
+  findPluginSetting,
+  importSettings,
+  loadParseRules,
+  loadPluginSurface,
+  type ParseRules,
+  type PluginSurface,
+  type SettingsImport,
+} from '../import-settings/index.js';
+import { setSettingsPath, unwrapSettingsFile } from '../settings-file.js';
+
+const SettingsDriftParamsSchema = z.object({
+  livePath: z.string().min(1),
+  declaredPath: z.string().min(1),
+  pluginsDir: z.string().min(1),
+});
+
+export type SettingsDriftParams = Simplify<z.infer<typeof SettingsDriftParamsSchema>>;
+
+export interface PluginToggle {
+  plugin: string;
+  enabled: boolean;
+}
+
+export interface SettingDrift {
+  /** Dotted path in the upstream settings.json. */
+  path: string;
+  /** Absent when the declarative settings.json does not set the value. */
+  declared?: unknown;
+  live: unknown;
+}
+
+export interface SettingsDrift {
+  toggledPlugins: PluginToggle[];
+  changedSettings: SettingDrift[];
+  /** The drifted values as Nixcord configuration, for `formatSettingsImport`. */
+  changes: SettingsImport;
+}
+
+interface ChangedValue {
+  path: readonly string[];
+  declared: unknown;
+  live: unknown;
+}
+
+interface DriftState {
+  surface: PluginSurface;
+  rules: ParseRules;
+  changedValues: ChangedValue[];
+}
+
+class SettingsDriftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsDriftError';
+  }
+}
+
+const isPluginJson = (value: PluginSettingJson | PluginJson): value is PluginJson =>
+  'settings' in value;
+
+const sameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+/**
+ * Clients write every plugin setting once the plugin has started, so a value the declarative file
+ * leaves out only counts as drift when it differs from the option default.
+ */
+const diffPluginSettings = (
+  state: DriftState,
+  declared: Record<string, unknown>,
+  live: Record<string, unknown>,
+  path: readonly string[]
+): void => {
+  for (const [key, liveValue] of Object.entries(live)) {
+    const keyPath = [...path, key];
+    const declaredValue = declared[key];
+    if (isNonNullObject(liveValue) && isNonNullObject(declaredValue)) {
+      diffPluginSettings(state, declaredValue, liveValue, keyPath);
+      continue;
+    }
+    if (declaredValue === undefined) {
+      const option = findPluginSetting(state.surface, state.rules, keyPath.slice(1));
+      if (option && isPluginJson(option) && isNonNullObject(liveValue)) {
+        diffPluginSettings(state, {}, liveValue, keyPath);
+        continue;
+      }
+      if (option && !isPluginJson(option) && sameValue(liveValue, effectiveDefault(option))) {
+        continue;
+      }
+    } else if (sameValue(liveValue, declaredValue)) {
+      continue;
+    }
+    state.changedValues.push({ path: keyPath, declared: declaredValue, live: liveValue });
+  }
+};
+
+/** Settings outside `plugins` are only compared where the declarative file sets them. */
+const diffDeclaredSettings = (
+  state: DriftState,
+  declared: Record<string, unknown>,
+  live: Record<string, unknown>,
+  path: readonly string[]
+): void => {
+  for (const [key, liveValue] of Object.entries(live)) {
+    const declaredValue = declared[key];
+    if (declaredValue === undefined) continue;
+    if (isNonNullObject(liveValue) && isNonNullObject(declaredValue)) {
+      diffDeclaredSettings(state, declaredValue, liveValue, [...path, key]);
+    } else if (!sameValue(liveValue, declaredValue)) {
+      state.changedValues.push({ path: [...path, key], declared: declaredValue, live: liveValue });
+    }
+  }
+};
+
+const asRecord = (value: unknown): Record<string, unknown> => (isNonNullObject(value) ? value : {});
+
+/**
+ * Compare a client's live settings.json with the one Nixcord writes. Plugins and settings missing
+ * from the live file were never touched in the client and are not reported.
+ */
+export const diffSettings = (
+  declaredContents: unknown,
+  liveContents: unknown,
+  surface: PluginSurface,
+  rules: ParseRules
+): SettingsDrift => {
+  const declared = unwrapSettingsFile(declaredContents).settings;
+  const live = unwrapSettingsFile(liveContents).settings;
+  const state: DriftState = { surface, rules, changedValues: [] };
+  const toggledPlugins: PluginToggle[] = [];
+
+  const { plugins: declaredPlugins, ...declaredRest } = declared;
+  const { plugins: livePlugins, ...liveRest } = live;
+  for (const [plugin, liveValues] of Object.entries(asRecord(livePlugins))) {
+    if (!isNonNullObject(liveValues)) continue;
+    const { enabled, ...settings } = liveValues;
+    const declaredValues = asRecord(asRecord(declaredPlugins)[plugin]);
+    if (typeof enabled === 'boolean' && enabled !== (declaredValues.enabled === true)) {
+      toggledPlugins.push({ plugin, enabled });
+    }
+    diffPluginSettings(state, declaredValues, settings, ['plugins', plugin]);
+  }
+  diffDeclaredSettings(state, declaredRest, liveRest, []);
+
+  const changes: Record<string, unknown> = {};
+  for (const { plugin, enabled } of toggledPlugins) {
+    setSettingsPath(changes, ['plugins', plugin, 'enabled'], enabled);
+  }
+  for (const { path, live: value } of state.changedValues) {
+    setSettingsPath(changes, path, value);
+  }
+
+  return {
+    toggledPlugins,
+    changedSettings: state.changedValues.map(({ path, declared: declaredValue, live: value }) => ({
+      path: path.join('.'),
+      ...(declaredValue === undefined ? {} : { declared: declaredValue }),
+      live: value,
+    })),
+    changes: importSettings(changes, surface, rules, { exhaustive: true }),
+  };
+};
+
+export const runSettingsDrift = async (
+  rawParams: SettingsDriftParams
+): Promise<Result<SettingsDrift, Error>> => {
+  const params = SettingsDriftParamsSchema.parse(rawParams);
+  try {
+    const readSettings = async (path: string): Promise<unknown> => {
+      const settingsPath = resolve(process.cwd(), path);
+      if (!(await fse.pathExists(settingsPath))) {
+        throw new SettingsDriftError(`Settings file not found: ${settingsPath}`);
+      }
+      return fse.readJson(settingsPath);
+    };
+    const pluginsDir = resolve(process.cwd(), params.pluginsDir);
+    const [live, declared, surface, rules] = await Promise.all([
+      readSettings(params.livePath),
+      readSettings(params.declaredPath),
+      loadPluginSurface(pluginsDir),
+      loadParseRules(pluginsDir),
+    ]);
+    return Ok(diffSettings(declared, live, surface, rules));
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new SettingsDriftError(String(error));
+    return Err(normalized);
+  }
+};
+
+const formatValue = (value: unknown): string => JSON.stringify(value) ?? 'unset';
+
+/** Render the drift as a list for terminal output. */
+export const formatSettingsDrift = (drift: SettingsDrift): string => {
+  if (drift.toggledPlugins.length === 0 && drift.changedSettings.length === 0) {
+    return 'No changes from the declarative configuration.\n';
+  }
+  const lines = [
+    ...(drift.toggledPlugins.length > 0
+      ? [
+          'Toggled plugins:',
+          ...drift.toggledPlugins.map(
+            ({ plugin, enabled }) => `  ${plugin}: ${enabled ? 'enabled' : 'disabled'}`
+          ),
+        ]
+      : []),
+    ...(drift.changedSettings.length > 0
+      ? [
+          'Changed settings:',
+          ...drift.changedSettings.map(
+            ({ path, declared, live }) =>
+              `  ${path}: ${formatValue(declared)} -> ${formatValue(live)}`
+          ),
+        ]
+      : []),
+  ];
+  return `${lines.join('\n')}\n`;
+};
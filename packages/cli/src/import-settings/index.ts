@@ -0,0 +1,360 @@
+import type { PluginJson, PluginSettingJson } from '@nixcord/nix-generator';
+import { renderNixValue, toNixIdentifier } from '@nixcord/nix-generator';
+import type { Simplify } from '@nixcord/shared';
+import {
+  CLI_CONFIG,
+  Err,
+  isNonNullObject,
+  type NixType,
+  Ok,
+  parseNixType,
+  type Result,
+} from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import * as z from 'zod';
+import { matchesNixType, setSettingsPath, unwrapSettingsFile } from '../settings-file.js';
+
+const ImportSettingsParamsSchema = z.object({
+  settingsPath: z.string().min(1),
+  pluginsDir: z.string().min(1),
+});
+
+export type ImportSettingsParams = Simplify<z.infer<typeof ImportSettingsParamsSchema>>;
+
+/** A setting that has no Nixcord option and was placed under `extraConfig` as-is. */
+export interface UnrepresentableSetting {
+  /** Dotted path in the upstream settings.json. */
+  path: string;
+  reason: string;
+}
+
+export interface SettingsImport {
+  /** `programs.nixcord.config`, with floats as `{ __nixRaw }` like the generated plugin JSON. */
+  config: Record<string, unknown>;
+  /** `programs.nixcord.extraConfig`, keyed by upstream names. */
+  extraConfig: Record<string, unknown>;
+  quickCss?: string;
+  unrepresentable: UnrepresentableSetting[];
+}
+
+export type PluginSurface = Record<string, PluginJson>;
+
+export interface ParseRules {
+  pluginRenames: Record<string, string>;
+  settingRenames: Record<string, Record<string, string>>;
+}
+
+const PLUGIN_FILENAMES = [
+  CLI_CONFIG.filenames.shared,
+  CLI_CONFIG.filenames.vencord,
+  CLI_CONFIG.filenames.equicord,
+] as const;
+
+/** Top-level settings.json keys with a `programs.nixcord.config` option, and that option's default. */
+const CORE_OPTIONS: Record<string, { name: string; default: unknown }> = {
+  notifyAboutUpdates: { name: 'notifyAboutUpdates', default: false },
+  autoUpdate: { name: 'autoUpdate', default: false },
+  autoUpdateNotification: { name: 'autoUpdateNotification', default: false },
+  useQuickCSS: { name: 'useQuickCss', default: false },
+  themeLinks: { name: 'themeLinks', default: [] },
+  enabledThemes: { name: 'enabledThemes', default: [] },
+  enabledThemeLinks: { name: 'enabledThemeLinks', default: [] },
+  enableReactDevtools: { name: 'enableReactDevtools', default: false },
+  frameless: { name: 'frameless', default: false },
+  transparent: { name: 'transparent', default: false },
+  disableMinSize: { name: 'disableMinSize', default: false },
+};
+
+const UI_ELEMENT_GROUPS = ['chatBarButtons', 'messagePopoverButtons'];
+
+export interface ImportSettingsOptions {
+  /**
+   * Import every given value, including values equal to the defaults and `enabled: false`, instead
+   * of only the customizations of enabled plugins. Used to pin down changes made in a client.
+   */
+  exhaustive?: boolean;
+}
+
+class ImportSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportSettingsError';
+  }
+}
+
+const isPluginJson = (value: PluginSettingJson | PluginJson): value is PluginJson =>
+  'settings' in value;
+
+/** Plugins Equicord modifies appear in several files; their settings are unioned. */
+export const loadPluginSurface = async (pluginsDir: string): Promise<PluginSurface> => {
+  const surface: PluginSurface = {};
+  for (const filename of PLUGIN_FILENAMES) {
+    const path = resolve(pluginsDir, filename);
+    if (!(await fse.pathExists(path))) continue;
+    const plugins = (await fse.readJson(path)) as PluginSurface;
+    for (const [pluginId, plugin] of Object.entries(plugins)) {
+      const existing = surface[pluginId];
+      surface[pluginId] = existing
+        ? { ...existing, settings: { ...plugin.settings, ...existing.settings } }
+        : plugin;
+    }
+  }
+  if (Object.keys(surface).length === 0) {
+    throw new ImportSettingsError(`No generated plugin options found in ${pluginsDir}`);
+  }
+  return surface;
+};
+
+export const loadParseRules = async (pluginsDir: string): Promise<ParseRules> => {
+  const path = resolve(pluginsDir, CLI_CONFIG.filenames.parseRules);
+  const rules: Partial<ParseRules> = (await fse.pathExists(path)) ? await fse.readJson(path) : {};
+  return { pluginRenames: rules.pluginRenames ?? {}, settingRenames: rules.settingRenames ?? {} };
+};
+
+const invert = (names: Record<string, string>): Map<string, string> =>
+  new Map(Object.entries(names).map(([nixName, upstreamName]) => [upstreamName, nixName]));
+
+const sameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+/** The value the Nix option defaults to, in settings.json terms. */
+export const effectiveDefault = (setting: PluginSettingJson): unknown => {
+  const value = setting.default;
+  if (!isNonNullObject(value) || typeof value.__nixRaw !== 'string') return value;
+  return parseNixType(setting.type)?.kind === 'float' ? Number(value.__nixRaw) : value.__nixRaw;
+};
+
+/** Write the integer strings a type accepts, e.g. IDs, as Nix integers. */
+const toNixIntegers = (type: NixType, value: unknown): unknown => {
+  switch (type.kind) {
+    case 'int':
+      return typeof value === 'string' ? { __nixRaw: value } : value;
+    case 'nullOr':
+      return value === null ? value : toNixIntegers(type.elem, value);
+    case 'listOf':
+      return (value as unknown[]).map((item) => toNixIntegers(type.elem, item));
+    case 'attrsOf':
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          toNixIntegers(type.elem, item),
+        ])
+      );
+    default:
+      return value;
+  }
+};
+
+/** Convert a settings.json value into the Nix-side value, or undefined when the type rejects it. */
+const toNixValue = (setting: PluginSettingJson, value: unknown): unknown => {
+  // Types outside the generated grammar accept anything
+  const type = parseNixType(setting.type);
+  if (!type) return value;
+  if (!matchesNixType(type, value, setting.enumValues)) return undefined;
+  if (type.kind === 'float' && Number.isInteger(value) && !String(value).includes('e')) {
+    return { __nixRaw: (value as number).toFixed(1) };
+  }
+  return toNixIntegers(type, value);
+};
+
+interface ImportState {
+  rules: ParseRules;
+  exhaustive: boolean;
+  extraConfig: Record<string, unknown>;
+  unrepresentable: UnrepresentableSetting[];
+}
+
+const placeInExtraConfig = (
+  state: ImportState,
+  path: readonly string[],
+  value: unknown,
+  reason: string
+): void => {
+  setSettingsPath(state.extraConfig, path, value);
+  state.unrepresentable.push({ path: path.join('.'), reason });
+};
+
+const importPluginSettings = (
+  state: ImportState,
+  schema: PluginJson,
+  renamesKey: string,
+  values: Record<string, unknown>,
+  upstreamPath: readonly string[]
+): Record<string, unknown> => {
+  const imported: Record<string, unknown> = {};
+  const settingNames = invert(state.rules.settingRenames[renamesKey] ?? {});
+
+  for (const [upstreamName, value] of Object.entries(values)) {
+    const path = [...upstreamPath, upstreamName];
+    const nixName = settingNames.get(upstreamName) ?? toNixIdentifier(upstreamName);
+    const setting = schema.settings[nixName];
+
+    if (setting === undefined) {
+      placeInExtraConfig(state, path, value, 'no matching Nixcord option');
+    } else if (isPluginJson(setting)) {
+      if (!isNonNullObject(value)) {
+        placeInExtraConfig(state, path, value, 'expected a group of settings');
+        continue;
+      }
+      const nested = importPluginSettings(state, setting, nixName, value, path);
+      if (Object.keys(nested).length > 0) imported[nixName] = nested;
+    } else if (state.exhaustive || !sameValue(value, effectiveDefault(setting))) {
+      const nixValue = toNixValue(setting, value);
+      if (nixValue === undefined) {
+        placeInExtraConfig(state, path, value, `value does not match ${setting.type}`);
+      } else {
+        imported[nixName] = nixValue;
+      }
+    }
+  }
+  return imported;
+};
+
+/**
+ * Disabled plugins are skipped unless the import is exhaustive: their leftover settings would only
+ * clutter the snippet. Plugins the client enables by default still get `enable = false`, since
+ * their `enable` defaults to true.
+ */
+const importPlugins = (
+  state: ImportState,
+  surface: PluginSurface,
+  plugins: Record<string, unknown>
+): Record<string, unknown> => {
+  const imported: Record<string, unknown> = {};
+  const pluginIds = invert(state.rules.pluginRenames);
+
+  for (const [upstreamName, values] of Object.entries(plugins)) {
+    if (!isNonNullObject(values)) continue;
+    const { enabled, ...settings } = values;
+    const pluginId = pluginIds.get(upstreamName) ?? toNixIdentifier(upstreamName);
+    const schema = surface[pluginId];
+    if (enabled !== true && !state.exhaustive) {
+      if (enabled === false && schema?.enabledByDefault) imported[pluginId] = { enable: false };
+      continue;
+    }
+    if (schema === undefined) {
+      placeInExtraConfig(state, ['plugins', upstreamName], values, 'no matching Nixcord plugin');
+      continue;
+    }
+    imported[pluginId] = {
+      ...(typeof enabled === 'boolean' ? { enable: enabled } : {}),
+      ...importPluginSettings(state, schema, pluginId, settings, ['plugins', upstreamName]),
+    };
+  }
+  return imported;
+};
+
+/**
+ * Look up the option behind an upstream settings.json path such as `['CustomRPC', 'appID']`, or
+ * undefined when Nixcord has no such plugin or setting.
+ */
+export const findPluginSetting = (
+  surface: PluginSurface,
+  rules: ParseRules,
+  upstreamPath: readonly string[]
+): PluginSettingJson | PluginJson | undefined => {
+  const [pluginName, ...settingPath] = upstreamPath;
+  if (pluginName === undefined) return undefined;
+  let renamesKey = invert(rules.pluginRenames).get(pluginName) ?? toNixIdentifier(pluginName);
+  let current: PluginSettingJson | PluginJson | undefined = surface[renamesKey];
+  for (const upstreamName of settingPath) {
+    if (current === undefined || !isPluginJson(current)) return undefined;
+    const nixName =
+      invert(rules.settingRenames[renamesKey] ?? {}).get(upstreamName) ??
+      toNixIdentifier(upstreamName);
+    current = current.settings[nixName];
+    renamesKey = nixName;
+  }
+  return current;
+};
+
+const importUiElements = (
+  state: ImportState,
+  uiElements: unknown
+): Record<string, unknown> | undefined => {
+  if (!isNonNullObject(uiElements)) return undefined;
+  const imported: Record<string, unknown> = {};
+  for (const [group, elements] of Object.entries(uiElements)) {
+    const path = ['uiElements', group];
+    if (!UI_ELEMENT_GROUPS.includes(group) || !isNonNullObject(elements)) {
+      placeInExtraConfig(state, path, elements, 'no matching Nixcord option');
+      continue;
+    }
+    const groupConfig: Record<string, unknown> = {};
+    for (const [element, value] of Object.entries(elements)) {
+      if (isNonNullObject(value) && typeof value.enabled === 'boolean') {
+        groupConfig[element] = { enable: value.enabled };
+      } else {
+        placeInExtraConfig(state, [...path, element], value, 'expected { enabled: boolean }');
+      }
+    }
+    if (Object.keys(groupConfig).length > 0) imported[group] = groupConfig;
+  }
+  return Object.keys(imported).length > 0 ? imported : undefined;
+};
+
+export const importSettings = (
+  contents: unknown,
+  surface: PluginSurface,
+  rules: ParseRules,
+  { exhaustive = false }: ImportSettingsOptions = {}
+): SettingsImport => {
+  const { settings, quickCss } = unwrapSettingsFile(contents);
+  const state: ImportState = { rules, exhaustive, extraConfig: {}, unrepresentable: [] };
+  const config: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(settings)) {
+    const coreOption = CORE_OPTIONS[key];
+    if (key === 'plugins' && isNonNullObject(value)) {
+      const plugins = importPlugins(state, surface, value);
+      if (Object.keys(plugins).length > 0) config.plugins = plugins;
+    } else if (key === 'uiElements') {
+      const uiElements = importUiElements(state, value);
+      if (uiElements) config.uiElements = uiElements;
+    } else if (coreOption) {
+      if (exhaustive || !sameValue(value, coreOption.default)) config[coreOption.name] = value;
+    } else {
+      placeInExtraConfig(state, [key], value, 'no matching Nixcord option');
+    }
+  }
+
+  return {
+    config,
+    extraConfig: state.extraConfig,
+    ...(quickCss ? { quickCss } : {}),
+    unrepresentable: state.unrepresentable,
+  };
+};
+
+export const runImportSettings = async (
+  rawParams: ImportSettingsParams
+): Promise<Result<SettingsImport, Error>> => {
+  const params = ImportSettingsParamsSchema.parse(rawParams);
+  try {
+    const settingsPath = resolve(process.cwd(), params.settingsPath);
+    if (!(await fse.pathExists(settingsPath))) {
+      throw new ImportSettingsError(`Settings file not found: ${settingsPath}`);
+    }
+    const pluginsDir = resolve(process.cwd(), params.pluginsDir);
+    const [contents, surface, rules] = await Promise.all([
+      fse.readJson(settingsPath) as Promise<unknown>,
+      loadPluginSurface(pluginsDir),
+      loadParseRules(pluginsDir),
+    ]);
+    return Ok(importSettings(contents, surface, rules));
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new ImportSettingsError(String(error));
+    return Err(normalized);
+  }
+};
+
+/** Render the import as a Home Manager/NixOS module snippet. */
+export const formatSettingsImport = (imported: SettingsImport): string => {
+  const nixcord: Record<string, unknown> = {
+    ...(imported.quickCss ? { quickCss: imported.quickCss } : {}),
+    config: imported.config,
+    ...(Object.keys(imported.extraConfig).length > 0 ? { extraConfig: imported.extraConfig } : {}),
+  };
+  return `${renderNixValue({ programs: { nixcord } })}\n`;
+};
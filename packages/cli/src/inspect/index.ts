@@ -0,0 +1,139 @@
+import { inspectPlugin, type PluginInspection, type SettingOrigin } from '@nixcord/parser';
+import type { PluginConfig, PluginSetting, ReadonlyDeep, Simplify } from '@nixcord/shared';
+import { CLI_CONFIG, Err, isNestedConfig, Ok, type Result, renderNixType } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { dirname, join, relative, resolve } from 'pathe';
+import * as z from 'zod';
+
+const InspectPluginParamsSchema = z.object({
+  pluginPath: z.string().min(1),
+  sourcePath: z.string().min(1).optional(),
+});
+
+export type InspectPluginParams = Simplify<z.infer<typeof InspectPluginParamsSchema>>;
+
+export interface InspectPluginSummary extends PluginInspection {
+  pluginPath: string;
+  sourcePath: string;
+}
+
+class InspectPluginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InspectPluginError';
+  }
+}
+
+/** Walk up from the plugin directory to the checkout that owns it. */
+const findSourceRoot = async (pluginPath: string): Promise<string> => {
+  let current = dirname(pluginPath);
+  while (true) {
+    if (await fse.pathExists(join(current, CLI_CONFIG.filenames.packageJson))) return current;
+    const parent = dirname(current);
+    if (parent === current) {
+      throw new InspectPluginError(
+        `Could not find a Vencord/Equicord source tree above ${pluginPath}; pass --source`
+      );
+    }
+    current = parent;
+  }
+};
+
+export const runInspectPlugin = async (
+  rawParams: InspectPluginParams
+): Promise<Result<InspectPluginSummary, Error>> => {
+  const params = InspectPluginParamsSchema.parse(rawParams);
+  try {
+    const pluginPath = resolve(process.cwd(), params.pluginPath);
+    const sourcePath =
+      params.sourcePath === undefined
+        ? await findSourceRoot(pluginPath)
+        : resolve(process.cwd(), params.sourcePath);
+
+    const inspection = await inspectPlugin(pluginPath, sourcePath);
+    return Ok({ ...inspection, pluginPath, sourcePath });
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new InspectPluginError(String(error));
+    return Err(normalized);
+  }
+};
+
+const formatOrigin = (origin: SettingOrigin | undefined, sourcePath: string): string[] => {
+  if (!origin) return [];
+  const location = `${relative(sourcePath, origin.filePath)}:${origin.line}`;
+  return [`source: ${origin.extractor ? `${location} (${origin.extractor})` : location}`];
+};
+
+const formatSettingDetails = (setting: ReadonlyDeep<PluginSetting>): string[] => [
+  `type: ${renderNixType(setting.type)}`,
+  ...(setting.default === undefined ? [] : [`default: ${JSON.stringify(setting.default)}`]),
+  ...(setting.enumValues
+    ? [`enum values: ${setting.enumValues.map((value) => JSON.stringify(value)).join(', ')}`]
+    : []),
+  ...(setting.enumLabels ? [`enum labels: ${JSON.stringify(setting.enumLabels)}`] : []),
+  ...(setting.example ? [`example: ${setting.example}`] : []),
+  ...(setting.description ? [`description: ${setting.description.replace(/\n/g, ' ')}`] : []),
+  ...(setting.hidden ? ['hidden'] : []),
+  ...(setting.restartNeeded ? ['restart needed'] : []),
+];
+
+const formatSettings = (
+  settings: ReadonlyDeep<PluginConfig['settings']>,
+  origins: ReadonlyMap<string, SettingOrigin>,
+  sourcePath: string,
+  prefix: string,
+  indent: string
+): string[] =>
+  Object.entries(settings).flatMap(([key, setting]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const origin = formatOrigin(origins.get(path), sourcePath);
+    const details = isNestedConfig(setting)
+      ? [
+          ...origin.map((line) => `${indent}    ${line}`),
+          ...formatSettings(
+            (setting as ReadonlyDeep<PluginConfig>).settings,
+            origins,
+            sourcePath,
+            path,
+            `${indent}  `
+          ),
+        ]
+      : [...formatSettingDetails(setting as ReadonlyDeep<PluginSetting>), ...origin].map(
+          (line) => `${indent}    ${line}`
+        );
+    return [`${indent}  ${key}:`, ...details];
+  });
+
+/** Render an inspection as an indented tree for terminal output. */
+export const formatPluginInspection = (summary: InspectPluginSummary): string => {
+  const origins = new Map(summary.settingOrigins.map((origin) => [origin.key, origin]));
+  const plugin = summary.plugin;
+  const header = plugin
+    ? [
+        `${plugin.name} (${relative(summary.sourcePath, summary.pluginPath)})`,
+        ...(plugin.description ? [`  description: ${plugin.description}`] : []),
+        ...(plugin.isModified ? ['  modified: true'] : []),
+        ...(Object.keys(plugin.settings).length > 0
+          ? [
+              '  settings:',
+              ...formatSettings(plugin.settings, origins, summary.sourcePath, '', '  '),
+            ]
+          : ['  settings: (none)']),
+      ]
+    : [`${relative(summary.sourcePath, summary.pluginPath)}: no plugin extracted`];
+
+  const diagnostics =
+    summary.diagnostics.length > 0
+      ? [
+          '  diagnostics:',
+          ...summary.diagnostics.map(
+            (diagnostic) =>
+              `    - ${diagnostic.kind}: ${diagnostic.message}${
+                diagnostic.filePath ? ` [${relative(summary.sourcePath, diagnostic.filePath)}]` : ''
+              }`
+          ),
+        ]
+      : ['  diagnostics: (none)'];
+
+  return `${[...header, ...diagnostics].join('\n')}\n`;
+};
@@ -0,0 +1,203 @@
+import type { MigrationRenameJson, MigrationsJson } from '@nixcord/nix-generator';
+import { renderNixAttrName } from '@nixcord/nix-generator';
+import type { Simplify } from '@nixcord/shared';
+import { Err, Ok, type Result } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import * as z from 'zod';
+import { type NixBinding, scanNixBindings } from './nix-bindings.js';
+
+const MigrateConfigParamsSchema = z.object({
+  configPath: z.string().min(1),
+  migrationsPath: z.string().min(1),
+  dryRun: z.boolean().optional(),
+});
+
+export type MigrateConfigParams = Simplify<z.infer<typeof MigrateConfigParamsSchema>>;
+
+export type ConfigChange =
+  | { kind: 'rename'; from: string; to: string }
+  | { kind: 'removal'; path: string };
+
+export interface ConfigMigration {
+  configPath: string;
+  /** The rewritten file; equal to the input when nothing changed. */
+  contents: string;
+  changes: ConfigChange[];
+  /** Bindings that match a migration but could not be rewritten automatically. */
+  warnings: string[];
+}
+
+/** Where plugin options live, also when nested below e.g. `home-manager.users.<name>`. */
+const PLUGINS_PATH = ['programs', 'nixcord', 'config', 'plugins'];
+
+interface Edit {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+interface SegmentRenames {
+  /** Old attribute path prefix (NUL-joined) -> new name of its last segment, or null if ambiguous. */
+  targets: Map<string, string | null>;
+  /** Migrations whose old and new paths differ in length; only reported. */
+  reshaped: Map<string, MigrationRenameJson>;
+}
+
+class MigrateConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrateConfigError';
+  }
+}
+
+const pathKey = (parts: readonly string[]): string => parts.join('\u0000');
+
+const formatPluginPath = (parts: readonly (string | undefined)[]): string =>
+  ['plugins', ...parts.map((part) => part ?? '${…}')].join('.');
+
+/**
+ * Renames are applied one attribute segment at a time, so they work the same for
+ * `plugins.old.enable = true;` and `plugins = { old = { enable = true; }; };`.
+ */
+const collectSegmentRenames = (migrations: MigrationsJson): SegmentRenames => {
+  const targets = new Map<string, string | null>();
+  const reshaped = new Map<string, MigrationRenameJson>();
+  for (const migration of [...migrations.renames, ...migrations.identifierRenames]) {
+    if (migration.from.length !== migration.to.length) {
+      reshaped.set(pathKey(migration.from), migration);
+      continue;
+    }
+    migration.from.forEach((_, depth) => {
+      const key = pathKey(migration.from.slice(0, depth + 1));
+      const target = migration.to[depth] ?? null;
+      const existing = targets.get(key);
+      targets.set(key, existing === undefined || existing === target ? target : null);
+    });
+  }
+  return { targets, reshaped };
+};
+
+/** The offset of the plugin name in `path`, or -1 when the binding is not below the plugins. */
+const pluginOffset = (path: readonly (string | undefined)[]): number => {
+  for (let start = 0; start + PLUGINS_PATH.length <= path.length; start++) {
+    if (PLUGINS_PATH.every((segment, index) => path[start + index] === segment)) {
+      return start + PLUGINS_PATH.length;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Extend a removal to whole lines when the binding is alone on them, or else to the whitespace
+ * separating it from the previous binding.
+ */
+const removalRange = (source: string, binding: NixBinding): Edit => {
+  const lineStart = source.lastIndexOf('\n', binding.start - 1) + 1;
+  const newline = source.indexOf('\n', binding.end);
+  const lineEnd = newline === -1 ? source.length : newline + 1;
+  const ownsLines =
+    source.slice(lineStart, binding.start).trim() === '' &&
+    source.slice(binding.end, lineEnd).trim() === '';
+  if (ownsLines) return { start: lineStart, end: lineEnd, replacement: '' };
+  let start = binding.start;
+  while (start > lineStart && (source[start - 1] === ' ' || source[start - 1] === '\t')) start--;
+  return { start, end: binding.end, replacement: '' };
+};
+
+/**
+ * Apply the plugin renames and removals of a migrations.json to a Nix file. Only the affected
+ * attribute names and bindings are touched; comments and formatting elsewhere are kept.
+ */
+export const migrateNixConfig = (
+  source: string,
+  migrations: MigrationsJson
+): Omit<ConfigMigration, 'configPath'> => {
+  const { targets, reshaped } = collectSegmentRenames(migrations);
+  const removals = new Set(migrations.removals);
+  const edits: Edit[] = [];
+  const removed: Edit[] = [];
+  const changes: ConfigChange[] = [];
+  const warnings: string[] = [];
+
+  for (const binding of scanNixBindings(source)) {
+    const offset = pluginOffset(binding.path);
+    if (offset === -1 || offset === binding.path.length) continue;
+    const relative = binding.path.slice(offset);
+    const ownStart = binding.path.length - binding.segments.length;
+
+    const pluginName = relative[0];
+    if (pluginName !== undefined && removals.has(pluginName)) {
+      if (offset >= ownStart) {
+        removed.push(removalRange(source, binding));
+        changes.push({ kind: 'removal', path: formatPluginPath(relative) });
+      }
+      continue;
+    }
+
+    const renamed = [...relative];
+    binding.segments.forEach((segment, index) => {
+      const depth = ownStart + index - offset;
+      const prefix = relative.slice(0, depth + 1);
+      if (depth < 0 || prefix.some((part) => part === undefined)) return;
+      const target = targets.get(pathKey(prefix as string[]));
+      if (target === null) {
+        warnings.push(`${formatPluginPath(prefix)} matches several migrations; left unchanged`);
+      } else if (target !== undefined && target !== segment.name) {
+        edits.push({
+          start: segment.start,
+          end: segment.end,
+          replacement: renderNixAttrName(target),
+        });
+        renamed[depth] = target;
+      }
+    });
+
+    const reshape = relative.every((part) => part !== undefined)
+      ? reshaped.get(pathKey(relative as string[]))
+      : undefined;
+    if (reshape) {
+      warnings.push(
+        `${formatPluginPath(relative)} was moved to ${formatPluginPath(reshape.to)}; update it by hand`
+      );
+    }
+    if (renamed.some((part, index) => part !== relative[index])) {
+      changes.push({
+        kind: 'rename',
+        from: formatPluginPath(relative),
+        to: formatPluginPath(renamed),
+      });
+    }
+  }
+
+  // Bindings nested in a removed plugin take the removal branch, so no edit overlaps a removal
+  let contents = source;
+  for (const edit of [...edits, ...removed].sort((left, right) => right.start - left.start)) {
+    contents = contents.slice(0, edit.start) + edit.replacement + contents.slice(edit.end);
+  }
+  return { contents, changes, warnings };
+};
+
+export const runMigrateConfig = async (
+  rawParams: MigrateConfigParams
+): Promise<Result<ConfigMigration, Error>> => {
+  const params = MigrateConfigParamsSchema.parse(rawParams);
+  try {
+    const configPath = resolve(process.cwd(), params.configPath);
+    const migrationsPath = resolve(process.cwd(), params.migrationsPath);
+    for (const path of [configPath, migrationsPath]) {
+      if (!(await fse.pathExists(path))) throw new MigrateConfigError(`File not found: ${path}`);
+    }
+
+    const source = await fse.readFile(configPath, 'utf8');
+    const migrations = (await fse.readJson(migrationsPath)) as MigrationsJson;
+    const migration = migrateNixConfig(source, migrations);
+    if (!params.dryRun && migration.contents !== source) {
+      await fse.writeFile(configPath, migration.contents);
+    }
+    return Ok({ configPath, ...migration });
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new MigrateConfigError(String(error));
+    return Err(normalized);
+  }
+};
@@ -0,0 +1,270 @@
+/** One segment of a binding's attribute path, e.g. `plugins` in `plugins.foo = …;`. */
+export interface AttrSegment {
+  /** Undefined for interpolated names such as `${name}`. */
+  name?: string;
+  start: number;
+  end: number;
+}
+
+export interface NixBinding {
+  /** Full attribute path, including the paths of the attribute sets the binding is nested in. */
+  path: (string | undefined)[];
+  /** The binding's own attribute path segments; the last `segments.length` entries of `path`. */
+  segments: AttrSegment[];
+  /** From the first segment up to and including the terminating `;`. */
+  start: number;
+  end: number;
+}
+
+type TokenKind = 'id' | 'string' | 'interpolation' | 'punct' | 'other';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+  /** Decoded contents of a string without interpolations. */
+  value?: string;
+}
+
+const IDENTIFIER_PATTERN = /[A-Za-z_][A-Za-z0-9_'-]*/y;
+const PUNCTUATION = new Set(['{', '}', '[', ']', '(', ')', ';', '=', '.', ',', ':', '@']);
+const OPERATORS = ['==', '!=', '<=', '>=', '->', '//', '++', '&&', '||'];
+const STRING_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+class NixScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NixScanError';
+  }
+}
+
+const skipTrivia = (source: string, pos: number): number => {
+  let current = pos;
+  while (current < source.length) {
+    const char = source[current];
+    if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+      current++;
+    } else if (char === '#') {
+      const newline = source.indexOf('\n', current);
+      current = newline === -1 ? source.length : newline + 1;
+    } else if (source.startsWith('/*', current)) {
+      const close = source.indexOf('*/', current + 2);
+      if (close === -1) throw new NixScanError(`Unterminated comment at offset ${current}`);
+      current = close + 2;
+    } else {
+      break;
+    }
+  }
+  return current;
+};
+
+/** Skip the expression of a `${…}` starting after `${`; returns the offset after the closing `}`. */
+const skipInterpolation = (source: string, pos: number): number => {
+  let depth = 1;
+  let current = pos;
+  while (depth > 0) {
+    const token = readToken(source, skipTrivia(source, current));
+    if (token === undefined) throw new NixScanError(`Unterminated interpolation at offset ${pos}`);
+    if (token.text === '{') depth++;
+    else if (token.text === '}') depth--;
+    current = token.end;
+  }
+  return current;
+};
+
+const readDoubleQuotedString = (source: string, start: number): Token => {
+  let current = start + 1;
+  let value: string | undefined = '';
+  while (current < source.length && source[current] !== '"') {
+    const char = source[current] ?? '';
+    if (char === '\\') {
+      const escaped = source[current + 1] ?? '';
+      if (value !== undefined) value += STRING_ESCAPES[escaped] ?? escaped;
+      current += 2;
+    } else if (source.startsWith('${', current)) {
+      value = undefined;
+      current = skipInterpolation(source, current + 2);
+    } else {
+      if (value !== undefined) value += char;
+      current++;
+    }
+  }
+  if (current >= source.length) throw new NixScanError(`Unterminated string at offset ${start}`);
+  return {
+    kind: 'string',
+    text: source.slice(start, current + 1),
+    start,
+    end: current + 1,
+    ...(value === undefined ? {} : { value }),
+  };
+};
+
+const readIndentedString = (source: string, start: number): Token => {
+  let current = start + 2;
+  while (current < source.length) {
+    if (source.startsWith("''", current)) {
+      const next = source[current + 2];
+      // ''' , ''$ and ''\x are escapes; any other '' closes the string
+      if (next === "'" || next === '$') current += 3;
+      else if (next === '\\') current += 4;
+      else
+        return { kind: 'string', text: source.slice(start, current + 2), start, end: current + 2 };
+    } else if (source.startsWith('${', current)) {
+      current = skipInterpolation(source, current + 2);
+    } else {
+      current++;
+    }
+  }
+  throw new NixScanError(`Unterminated indented string at offset ${start}`);
+};
+
+function readToken(source: string, start: number): Token | undefined {
+  if (start >= source.length) return undefined;
+  const char = source[start] ?? '';
+  if (char === '"') return readDoubleQuotedString(source, start);
+  if (source.startsWith("''", start)) return readIndentedString(source, start);
+  if (source.startsWith('${', start)) {
+    const end = skipInterpolation(source, start + 2);
+    return { kind: 'interpolation', text: source.slice(start, end), start, end };
+  }
+  IDENTIFIER_PATTERN.lastIndex = start;
+  const identifier = IDENTIFIER_PATTERN.exec(source);
+  if (identifier) {
+    const end = start + identifier[0].length;
+    return { kind: 'id', text: identifier[0], start, end };
+  }
+  const operator = OPERATORS.find((candidate) => source.startsWith(candidate, start));
+  if (operator) return { kind: 'other', text: operator, start, end: start + operator.length };
+  const kind = PUNCTUATION.has(char) ? 'punct' : 'other';
+  return { kind, text: char, start, end: start + 1 };
+}
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let current = skipTrivia(source, 0);
+  for (let token = readToken(source, current); token; token = readToken(source, current)) {
+    tokens.push(token);
+    current = skipTrivia(source, token.end);
+  }
+  return tokens;
+};
+
+const OPENERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+
+const matchBrackets = (tokens: readonly Token[]): Map<number, number> => {
+  const matches = new Map<number, number>();
+  const stack: number[] = [];
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'punct') return;
+    if (OPENERS[token.text]) {
+      stack.push(index);
+    } else if (token.text === '}' || token.text === ']' || token.text === ')') {
+      const open = stack.pop();
+      if (open === undefined || OPENERS[tokens[open]?.text ?? ''] !== token.text) {
+        throw new NixScanError(`Unbalanced ${token.text} at offset ${token.start}`);
+      }
+      matches.set(open, index);
+    }
+  });
+  if (stack.length > 0) {
+    throw new NixScanError(`Unclosed ${tokens[stack.at(-1) ?? 0]?.text} in Nix file`);
+  }
+  return matches;
+};
+
+/**
+ * A small structural scanner for Nix files: it finds every `attr.path = value;` binding of the
+ * attribute sets reachable from the top-level expression, with its source range. Attribute sets
+ * anywhere in a binding's value (`lib.mkIf c { … }`, `lib.mkMerge [ … ]`) are treated as nested in
+ * that binding. Bindings of `let` blocks and function patterns are skipped.
+ */
+export const scanNixBindings = (source: string): NixBinding[] => {
+  const tokens = tokenize(source);
+  const matches = matchBrackets(tokens);
+  const bindings: NixBinding[] = [];
+  const isPunct = (index: number, text: string): boolean =>
+    tokens[index]?.kind === 'punct' && tokens[index]?.text === text;
+  const isKeyword = (index: number, text: string): boolean =>
+    tokens[index]?.kind === 'id' && tokens[index]?.text === text;
+
+  /** Walk an expression until `;` or an unmatched closer; returns the stopping token index. */
+  const scanExpression = (start: number, prefix: (string | undefined)[] | undefined): number => {
+    let index = start;
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (
+        token === undefined ||
+        (token.kind === 'punct' && [';', '}', ']', ')'].includes(token.text))
+      ) {
+        return index;
+      }
+      if (isKeyword(index, 'let')) {
+        index = scanBindings(index + 1, tokens.length, undefined) + 1;
+      } else if (isKeyword(index, 'with') || isKeyword(index, 'assert')) {
+        index = scanExpression(index + 1, undefined) + 1;
+      } else if (isPunct(index, '{')) {
+        const close = matches.get(index) ?? tokens.length;
+        const isPattern = isPunct(close + 1, ':') || isPunct(close + 1, '@');
+        if (!isPattern) scanBindings(index + 1, close, prefix);
+        index = close + 1;
+      } else if (isPunct(index, '[') || isPunct(index, '(')) {
+        const close = matches.get(index) ?? tokens.length;
+        for (let element = index + 1; element < close; ) {
+          element = scanExpression(element, prefix);
+          if (element < close) element++;
+        }
+        index = close + 1;
+      } else {
+        index++;
+      }
+    }
+    return index;
+  };
+
+  /** Scan bindings up to `end`, or up to the `in` of a `let` block; returns the stopping index. */
+  function scanBindings(
+    start: number,
+    end: number,
+    prefix: (string | undefined)[] | undefined
+  ): number {
+    let index = start;
+    while (index < end) {
+      if (isKeyword(index, 'in')) return index;
+      if (isKeyword(index, 'inherit')) {
+        while (index < end && !isPunct(index, ';')) index++;
+        index++;
+        continue;
+      }
+
+      const segments: AttrSegment[] = [];
+      while (index < end) {
+        const token = tokens[index];
+        if (token === undefined || !['id', 'string', 'interpolation'].includes(token.kind)) break;
+        segments.push({
+          ...(token.kind === 'id' ? { name: token.text } : {}),
+          ...(token.kind === 'string' && token.value !== undefined ? { name: token.value } : {}),
+          start: token.start,
+          end: token.end,
+        });
+        index++;
+        if (!isPunct(index, '.')) break;
+        index++;
+      }
+      if (segments.length === 0) index++;
+      if (segments.length === 0 || !isPunct(index, '=')) continue;
+
+      const path = prefix && [...prefix, ...segments.map((segment) => segment.name)];
+      const stop = scanExpression(index + 1, path);
+      const terminator = tokens[stop];
+      if (path && segments[0] && terminator && isPunct(stop, ';')) {
+        bindings.push({ path, segments, start: segments[0].start, end: terminator.end });
+      }
+      index = isPunct(stop, ';') ? stop + 1 : stop;
+    }
+    return index;
+  }
+
+  scanExpression(0, []);
+  return bindings;
+};
@@ -0,0 +1,80 @@
+import type { ParseDiagnostic } from '@nixcord/shared';
+import fse from 'fs-extra';
+import * as z from 'zod';
+
+/**
+ * A known diagnostic, identified by what it is about rather than by its message so that
+ * rewording a message does not invalidate the baseline.
+ */
+const DiagnosticBaselineEntrySchema = z.object({
+  kind: z.string().min(1),
+  plugin: z.string().optional(),
+  setting: z.string().optional(),
+});
+
+const DiagnosticsBaselineSchema = z.object({
+  version: z.literal(1),
+  diagnostics: z.array(DiagnosticBaselineEntrySchema),
+});
+
+type DiagnosticBaselineEntry = z.infer<typeof DiagnosticBaselineEntrySchema>;
+
+class DiagnosticsBaselineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiagnosticsBaselineError';
+  }
+}
+
+const toBaselineEntry = (diagnostic: ParseDiagnostic): DiagnosticBaselineEntry => ({
+  kind: diagnostic.kind,
+  ...(diagnostic.pluginName === undefined ? {} : { plugin: diagnostic.pluginName }),
+  ...(diagnostic.settingKey === undefined ? {} : { setting: diagnostic.settingKey }),
+});
+
+const entryKey = (entry: DiagnosticBaselineEntry): string =>
+  JSON.stringify([entry.kind, entry.plugin ?? null, entry.setting ?? null]);
+
+const loadBaselineKeys = async (baselinePath: string): Promise<Set<string>> => {
+  if (!(await fse.pathExists(baselinePath))) {
+    throw new DiagnosticsBaselineError(
+      `Diagnostics baseline not found: ${baselinePath}; rerun with --update-baseline to create it`
+    );
+  }
+
+  const parsed = DiagnosticsBaselineSchema.safeParse(await fse.readJson(baselinePath));
+  if (!parsed.success) {
+    throw new DiagnosticsBaselineError(`Invalid diagnostics baseline: ${baselinePath}`);
+  }
+  return new Set(parsed.data.diagnostics.map(entryKey));
+};
+
+/** Return the diagnostics whose kind/plugin/setting is not recorded in the baseline. */
+export const findNewDiagnostics = async (
+  baselinePath: string,
+  diagnostics: readonly ParseDiagnostic[]
+): Promise<ParseDiagnostic[]> => {
+  const known = await loadBaselineKeys(baselinePath);
+  return diagnostics.filter((diagnostic) => !known.has(entryKey(toBaselineEntry(diagnostic))));
+};
+
+/** Record every current diagnostic as known, sorted so the committed file diffs cleanly. */
+export const writeDiagnosticsBaseline = async (
+  baselinePath: string,
+  diagnostics: readonly ParseDiagnostic[]
+): Promise<void> => {
+  const entries = new Map(
+    diagnostics.map((diagnostic) => {
+      const entry = toBaselineEntry(diagnostic);
+      return [entryKey(entry), entry] as const;
+    })
+  );
+  const sorted = [...entries.entries()]
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([, entry]) => entry);
+
+  await fse.outputFile(
+    baselinePath,
+    `${JSON.stringify({ version: 1, diagnostics: sorted }, null, 2)}\n`
+  );
+};
@@ -0,0 +1,162 @@
+import { isArray, isNonNullObject } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+
+/** A generated artifact held in memory before it is written or compared. */
+export interface GeneratedOutput {
+  filename: string;
+  contents: string;
+}
+
+/**
+ * `added` and `removed` are relative to the file on disk: an `added` entry exists in the
+ * freshly generated output but not in the committed file.
+ */
+export type OutputChangeKind = 'added' | 'removed' | 'changed';
+
+export interface OutputChange {
+  /** Dotted path below the top-level entry; empty when the entry itself changed. */
+  path: string;
+  kind: OutputChangeKind;
+  /** Set for array elements, which have no stable path of their own. */
+  value?: unknown;
+}
+
+export interface OutputEntryDrift {
+  /** Top-level JSON key; the plugin identifier for shared/vencord/equicord.json. */
+  key: string;
+  changes: OutputChange[];
+}
+
+export interface OutputDrift {
+  filename: string;
+  status: 'missing' | 'invalid' | 'stale';
+  entries: OutputEntryDrift[];
+}
+
+const joinPath = (path: string, key: string): string => (path ? `${path}.${key}` : key);
+
+const collectArrayChanges = (
+  expected: readonly unknown[],
+  actual: readonly unknown[],
+  path: string,
+  changes: OutputChange[]
+): void => {
+  const expectedItems = new Set(expected.map((item) => JSON.stringify(item)));
+  const actualItems = new Set(actual.map((item) => JSON.stringify(item)));
+
+  for (const item of expectedItems) {
+    if (!actualItems.has(item)) changes.push({ path, kind: 'added', value: JSON.parse(item) });
+  }
+  for (const item of actualItems) {
+    if (!expectedItems.has(item)) changes.push({ path, kind: 'removed', value: JSON.parse(item) });
+  }
+  // Same elements in a different order still means the file on disk is stale
+  if (changes.length === 0) changes.push({ path, kind: 'changed' });
+};
+
+const collectChanges = (
+  expected: unknown,
+  actual: unknown,
+  path: string,
+  changes: OutputChange[]
+): void => {
+  if (JSON.stringify(expected) === JSON.stringify(actual)) return;
+
+  if (isArray(expected) && isArray(actual)) {
+    const arrayChanges: OutputChange[] = [];
+    collectArrayChanges(expected, actual, path, arrayChanges);
+    changes.push(...arrayChanges);
+    return;
+  }
+
+  if (!isNonNullObject(expected) || !isNonNullObject(actual)) {
+    changes.push({ path, kind: 'changed' });
+    return;
+  }
+
+  const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])].sort();
+  for (const key of keys) {
+    const childPath = joinPath(path, key);
+    if (!(key in actual)) changes.push({ path: childPath, kind: 'added' });
+    else if (!(key in expected)) changes.push({ path: childPath, kind: 'removed' });
+    else collectChanges(expected[key], actual[key], childPath, changes);
+  }
+};
+
+const diffEntries = (expected: unknown, actual: unknown): OutputEntryDrift[] => {
+  if (!isNonNullObject(expected) || !isNonNullObject(actual)) {
+    const changes: OutputChange[] = [];
+    collectChanges(expected, actual, '', changes);
+    return changes.length > 0 ? [{ key: '', changes }] : [];
+  }
+
+  const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])].sort();
+  return keys.flatMap((key): OutputEntryDrift[] => {
+    if (!(key in actual)) return [{ key, changes: [{ path: '', kind: 'added' }] }];
+    if (!(key in expected)) return [{ key, changes: [{ path: '', kind: 'removed' }] }];
+
+    const changes: OutputChange[] = [];
+    collectChanges(expected[key], actual[key], '', changes);
+    return changes.length > 0 ? [{ key, changes }] : [];
+  });
+};
+
+const parseJson = (contents: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(contents) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+const compareOutput = async (
+  pluginsDir: string,
+  output: GeneratedOutput
+): Promise<OutputDrift | undefined> => {
+  const filePath = resolve(pluginsDir, output.filename);
+  if (!(await fse.pathExists(filePath))) {
+    return { filename: output.filename, status: 'missing', entries: [] };
+  }
+
+  const existing = await fse.readFile(filePath, 'utf8');
+  if (existing === output.contents) return undefined;
+
+  const expected = parseJson(output.contents);
+  // Artifacts that are not JSON (e.g. the TypeScript declarations) can only differ as a whole
+  if (!expected.ok) {
+    return {
+      filename: output.filename,
+      status: 'stale',
+      entries: [{ key: '', changes: [{ path: '', kind: 'changed' }] }],
+    };
+  }
+  const actual = parseJson(existing);
+  if (!actual.ok) {
+    return { filename: output.filename, status: 'invalid', entries: [] };
+  }
+
+  // Byte-level differences that do not change the JSON (e.g. formatting) still count as stale
+  const entries = diffEntries(expected.value, actual.value);
+  return {
+    filename: output.filename,
+    status: 'stale',
+    entries: entries.length > 0 ? entries : [{ key: '', changes: [{ path: '', kind: 'changed' }] }],
+  };
+};
+
+/**
+ * Compare generated outputs against the files already present in `pluginsDir`.
+ * Returns one entry per file that would change on regeneration.
+ */
+export const detectOutputDrift = async (
+  pluginsDir: string,
+  outputs: readonly GeneratedOutput[]
+): Promise<OutputDrift[]> => {
+  const drift: OutputDrift[] = [];
+  for (const output of outputs) {
+    const fileDrift = await compareOutput(pluginsDir, output);
+    if (fileDrift) drift.push(fileDrift);
+  }
+  return drift;
+};
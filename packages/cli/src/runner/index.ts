@@ -1,7 +1,15 @@
+import type { PluginJson } from '@nixcord/nix-generator';
 import {
+  generateDependencyGraphModule,
+  generateDeprecatedJson,
   generateMigrationsJson,
+  generateNixOptionsModule,
   generateParseRulesModule,
+  generatePluginJsonSchemaModule,
+  generatePluginMarkdown,
   generatePluginModule,
+  generatePluginTypesModule,
+  mergeDeprecatedPlugins,
   toNixIdentifier,
   updateDeprecatedPlugins,
 } from '@nixcord/nix-generator';
@@ -20,9 +28,24 @@ import {
 import fse from 'fs-extra';
 import { dirname, join, normalize, resolve } from 'pathe';
 import * as z from 'zod';
+import { findNewDiagnostics, writeDiagnosticsBaseline } from './baseline.js';
+import { detectOutputDrift, type GeneratedOutput, type OutputDrift } from './drift.js';
+import { mergeUnselectedPlugins } from './partial.js';
+import {
+  type MigrationReport,
+  type SourcePluginCounts,
+  writeGeneratePluginOptionsReport,
+} from './report.js';
+import { type SarifSourceRoot, writeSarifLog } from './sarif.js';
+import { applySensitiveSettingOverrides, readSensitiveSettingOverrides } from './sensitive.js';
 import { oraPromise } from './spinner.js';
 
-type SourceLabel = 'Vencord' | 'Equicord';
+type SourceKind = 'vencord' | 'equicord';
+
+const DEFAULT_SOURCE_LABELS: Record<SourceKind, string> = {
+  vencord: 'Vencord',
+  equicord: 'Equicord',
+};
 
 const LoggerMethodsSchema = z.object({
   info: z.function(),
@@ -39,7 +62,51 @@ const LoggerSchema = z.custom<Logger>(
   }
 );
 
-const GeneratePluginOptionsParamsSchema = z.object({
+const SourceSettingsSchema = z.object({
+  label: z.string().min(1).optional(),
+  vencordPluginsDir: z.string().min(1).optional(),
+  equicordPluginsDir: z.string().min(1).optional(),
+});
+
+export const ArtifactFilenamesSchema = z.object({
+  shared: z.string().min(1),
+  vencord: z.string().min(1),
+  equicord: z.string().min(1),
+  parseRules: z.string().min(1),
+  dependencies: z.string().min(1),
+  deprecated: z.string().min(1),
+  migrations: z.string().min(1),
+  jsonSchema: z.string().min(1),
+  typeDeclarations: z.string().min(1),
+  sharedModule: z.string().min(1),
+  vencordModule: z.string().min(1),
+  equicordModule: z.string().min(1),
+  sharedMarkdown: z.string().min(1),
+  vencordMarkdown: z.string().min(1),
+  equicordMarkdown: z.string().min(1),
+});
+
+export type ArtifactFilenames = z.infer<typeof ArtifactFilenamesSchema>;
+
+export const DEFAULT_ARTIFACT_FILENAMES: ArtifactFilenames = {
+  shared: CLI_CONFIG.filenames.shared,
+  vencord: CLI_CONFIG.filenames.vencord,
+  equicord: CLI_CONFIG.filenames.equicord,
+  parseRules: CLI_CONFIG.filenames.parseRules,
+  dependencies: CLI_CONFIG.filenames.dependencies,
+  deprecated: CLI_CONFIG.filenames.deprecated,
+  migrations: CLI_CONFIG.filenames.migrations,
+  jsonSchema: CLI_CONFIG.filenames.jsonSchema,
+  typeDeclarations: CLI_CONFIG.filenames.typeDeclarations,
+  sharedModule: CLI_CONFIG.filenames.sharedModule,
+  vencordModule: CLI_CONFIG.filenames.vencordModule,
+  equicordModule: CLI_CONFIG.filenames.equicordModule,
+  sharedMarkdown: CLI_CONFIG.filenames.sharedMarkdown,
+  vencordMarkdown: CLI_CONFIG.filenames.vencordMarkdown,
+  equicordMarkdown: CLI_CONFIG.filenames.equicordMarkdown,
+};
+
+export const GeneratePluginOptionsParamsSchema = z.object({
   vencordPath: z.string().min(1),
   equicordPath: z.string().min(1).optional(),
   vencordPluginsDir: z.string().min(1),
@@ -48,6 +115,24 @@ const GeneratePluginOptionsParamsSchema = z.object({
   verbose: z.boolean().optional(),
   logger: LoggerSchema,
   skipGitMigrations: z.boolean().optional(),
+  check: z.boolean().optional(),
+  reportPath: z.string().min(1).optional(),
+  sarifPath: z.string().min(1).optional(),
+  baselinePath: z.string().min(1).optional(),
+  updateBaseline: z.boolean().optional(),
+  /** Per-source label and plugin directories; unset fields fall back to the shared ones. */
+  vencordSource: SourceSettingsSchema.optional(),
+  equicordSource: SourceSettingsSchema.optional(),
+  /** Write artifacts here instead of the plugins directory next to `outputPath`. */
+  pluginsDir: z.string().min(1).optional(),
+  filenames: ArtifactFilenamesSchema.partial().optional(),
+  /** Plugin directory globs; unselected plugins are kept from the existing generated files. */
+  only: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).optional(),
+  /** Also write native Nix option modules next to the shared/vencord/equicord JSON. */
+  nixModules: z.boolean().optional(),
+  /** Also write a Markdown plugin reference per category to this directory. */
+  markdownDir: z.string().min(1).optional(),
 });
 
 export type GeneratePluginOptionsParams = Simplify<
@@ -60,6 +145,12 @@ export interface GeneratePluginOptionsSummary {
   vencordOnlyCount: number;
   equicordOnlyCount: number;
   diagnosticSummary?: GeneratePluginOptionsDiagnosticSummary;
+  /** Only set in check mode; empty when every output on disk is up to date. */
+  drift?: OutputDrift[];
+  /** Only set in check mode when migration extraction failed, so the migration files went unchecked. */
+  migrationError?: string;
+  /** Only set when checking against a diagnostics baseline; diagnostics it does not record. */
+  newDiagnostics?: ParseDiagnostic[];
 }
 
 export interface DiagnosticBucket {
@@ -88,6 +179,71 @@ const ensurePathExists = async (path: string, message: string): Promise<void> =>
   }
 };
 
+type SourceParams = Pick<
+  GeneratePluginOptionsParams,
+  | 'vencordPluginsDir'
+  | 'equicordPluginsDir'
+  | 'vencordSource'
+  | 'equicordSource'
+  | 'only'
+  | 'exclude'
+>;
+
+interface SourceSettings {
+  label: string;
+  parseOptions: ParsePluginsOptions & { vencordPluginsDir: string; equicordPluginsDir: string };
+}
+
+export const getSourceSettings = (params: SourceParams, source: SourceKind): SourceSettings => {
+  const overrides = source === 'vencord' ? params.vencordSource : params.equicordSource;
+  return {
+    label: overrides?.label ?? DEFAULT_SOURCE_LABELS[source],
+    parseOptions: {
+      vencordPluginsDir: overrides?.vencordPluginsDir ?? params.vencordPluginsDir,
+      equicordPluginsDir: overrides?.equicordPluginsDir ?? params.equicordPluginsDir,
+      only: params.only,
+      exclude: params.exclude,
+    },
+  };
+};
+
+const resolveSourcePath = async (
+  path: string,
+  label: string,
+  pluginsDir: string
+): Promise<string> => {
+  const resolved = resolve(process.cwd(), path);
+  await ensurePathExists(
+    resolve(resolved, CLI_CONFIG.filenames.packageJson),
+    `${label} source path does not exist or is not a directory: ${resolved}`
+  );
+
+  const pluginsPath = resolve(resolved, pluginsDir);
+  await ensurePathExists(pluginsPath, `${label} plugins directory not found: ${pluginsPath}`);
+  return resolved;
+};
+
+/** Resolve the source checkouts and make sure their plugin directories exist. */
+export const resolveSourcePaths = async (
+  params: SourceParams & Pick<GeneratePluginOptionsParams, 'vencordPath' | 'equicordPath'>
+): Promise<{ vencordPath: string; equicordPath?: string }> => {
+  const vencord = getSourceSettings(params, 'vencord');
+  const vencordPath = await resolveSourcePath(
+    params.vencordPath,
+    vencord.label,
+    vencord.parseOptions.vencordPluginsDir
+  );
+  if (typeof params.equicordPath !== 'string') return { vencordPath };
+
+  const equicord = getSourceSettings(params, 'equicord');
+  const equicordPath = await resolveSourcePath(
+    params.equicordPath,
+    equicord.label,
+    equicord.parseOptions.equicordPluginsDir
+  );
+  return { vencordPath, equicordPath };
+};
+
 export const validateParsedResults = (
   vencordResult: ParsedPluginsResult,
   equicordResult?: ParsedPluginsResult
@@ -105,7 +261,7 @@ const parseSource = async ({
   logger,
   parseOptions,
 }: {
-  label: SourceLabel;
+  label: string;
   path: string;
   verbose: boolean;
   logger: Logger;
@@ -127,45 +283,159 @@ const parseSource = async ({
   });
 };
 
-const getPluginsDir = (outputPath: string): string => {
-  return normalize(join(dirname(outputPath), CLI_CONFIG.directories.output));
-};
+const countSourcePlugins = (
+  label: string,
+  path: string,
+  result: ParsedPluginsResult
+): SourcePluginCounts => ({
+  label,
+  path,
+  vencordPlugins: Object.keys(result.vencordPlugins).length,
+  equicordPlugins: Object.keys(result.equicordPlugins).length,
+});
 
-const writeOutputs = async ({
-  generic,
-  vencordOnly,
-  equicordOnly,
+export const getPluginsDir = ({
   outputPath,
-}: {
-  generic: ParsedPluginsResult['vencordPlugins'];
-  vencordOnly: ParsedPluginsResult['vencordPlugins'];
-  equicordOnly: ParsedPluginsResult['vencordPlugins'];
-  outputPath: string;
-}): Promise<GeneratePluginOptionsSummary> => {
-  const pluginsDir = getPluginsDir(outputPath);
-  await fse.ensureDir(pluginsDir);
-
-  const sharedPath = resolve(pluginsDir, CLI_CONFIG.filenames.shared);
-  await fse.writeFile(sharedPath, generatePluginModule(generic, 'shared'));
-
-  const vencordFilePath = resolve(pluginsDir, CLI_CONFIG.filenames.vencord);
-  await fse.writeFile(vencordFilePath, generatePluginModule(vencordOnly, 'vencord'));
+  pluginsDir,
+}: Pick<GeneratePluginOptionsParams, 'outputPath' | 'pluginsDir'>): string =>
+  pluginsDir === undefined
+    ? normalize(join(dirname(outputPath), CLI_CONFIG.directories.output))
+    : resolve(process.cwd(), pluginsDir);
+
+/** Whether `--only`/`--exclude` limit the run to some plugins. */
+const isFilteredRun = ({
+  only,
+  exclude,
+}: Pick<GeneratePluginOptionsParams, 'only' | 'exclude'>): boolean =>
+  (only?.length ?? 0) > 0 || (exclude?.length ?? 0) > 0;
+
+/**
+ * Render the plugin outputs after applying the sensitive-setting overrides kept in `pluginsDir`;
+ * filtered runs merge the unselected plugins back in from the files already there and leave the
+ * outputs that cover every plugin (parse rules, dependency graph, JSON schema, type declarations)
+ * untouched. The Markdown reference covers every plugin too, so a filtered run refuses to write it.
+ */
+export const renderSelectedPluginOutputs = async (
+  { generic, vencordOnly, equicordOnly }: Parameters<typeof renderPluginOutputs>[0],
+  params: Pick<GeneratePluginOptionsParams, 'only' | 'exclude' | 'nixModules' | 'markdownDir'>,
+  pluginsDir: string,
+  filenames: ArtifactFilenames
+): Promise<GeneratedOutput[]> => {
+  if (params.markdownDir !== undefined && isFilteredRun(params)) {
+    throw new GeneratePluginOptionsError(
+      'The Markdown plugin reference covers every plugin and cannot be written by a run filtered with --only or --exclude'
+    );
+  }
+  const sensitiveOverrides = await readSensitiveSettingOverrides(
+    resolve(pluginsDir, CLI_CONFIG.filenames.sensitiveSettings)
+  );
+  const categorized = {
+    generic: applySensitiveSettingOverrides(generic, sensitiveOverrides),
+    vencordOnly: applySensitiveSettingOverrides(vencordOnly, sensitiveOverrides),
+    equicordOnly: applySensitiveSettingOverrides(equicordOnly, sensitiveOverrides),
+  };
+  const rendered = [
+    ...renderPluginOutputs(categorized, filenames),
+    ...(params.markdownDir === undefined
+      ? []
+      : renderMarkdownOutputs(categorized, params.markdownDir, filenames)),
+  ];
+  const outputs = isFilteredRun(params)
+    ? await mergeUnselectedPlugins(pluginsDir, rendered, [
+        filenames.shared,
+        filenames.vencord,
+        filenames.equicord,
+      ])
+    : rendered;
+  return params.nixModules ? [...outputs, ...renderNixModules(outputs, filenames)] : outputs;
+};
 
-  const equicordFilePath = resolve(pluginsDir, CLI_CONFIG.filenames.equicord);
-  await fse.writeFile(equicordFilePath, generatePluginModule(equicordOnly, 'equicord'));
+/** The filenames are absolute, so the outputs land in `markdownDir` rather than the plugins directory. */
+const renderMarkdownOutputs = (
+  { generic, vencordOnly, equicordOnly }: Parameters<typeof renderPluginOutputs>[0],
+  markdownDir: string,
+  filenames: ArtifactFilenames
+): GeneratedOutput[] => [
+  {
+    filename: resolve(markdownDir, filenames.sharedMarkdown),
+    contents: generatePluginMarkdown(generic, 'shared'),
+  },
+  {
+    filename: resolve(markdownDir, filenames.vencordMarkdown),
+    contents: generatePluginMarkdown(vencordOnly, 'vencord'),
+  },
+  {
+    filename: resolve(markdownDir, filenames.equicordMarkdown),
+    contents: generatePluginMarkdown(equicordOnly, 'equicord'),
+  },
+];
+
+/** Rendered from the final plugin JSON, so a filtered run's modules include the merged plugins. */
+const renderNixModules = (
+  outputs: readonly GeneratedOutput[],
+  filenames: ArtifactFilenames
+): GeneratedOutput[] =>
+  (
+    [
+      [filenames.shared, filenames.sharedModule],
+      [filenames.vencord, filenames.vencordModule],
+      [filenames.equicord, filenames.equicordModule],
+    ] as const
+  ).flatMap(([jsonFilename, moduleFilename]) => {
+    const output = outputs.find((candidate) => candidate.filename === jsonFilename);
+    if (!output) return [];
+    const plugins = JSON.parse(output.contents) as Record<string, PluginJson>;
+    return [{ filename: moduleFilename, contents: generateNixOptionsModule(plugins) }];
+  });
 
-  const parseRulesFilePath = resolve(pluginsDir, CLI_CONFIG.filenames.parseRules);
-  await fse.writeFile(
-    parseRulesFilePath,
-    generateParseRulesModule(generic, vencordOnly, equicordOnly)
-  );
+export const getArtifactFilenames = ({
+  filenames,
+}: Pick<GeneratePluginOptionsParams, 'filenames'>): ArtifactFilenames => ({
+  ...DEFAULT_ARTIFACT_FILENAMES,
+  ...filenames,
+});
 
-  return {
-    pluginsDir,
-    sharedCount: Object.keys(generic).length,
-    vencordOnlyCount: Object.keys(vencordOnly).length,
-    equicordOnlyCount: Object.keys(equicordOnly).length,
-  };
+const renderPluginOutputs = (
+  {
+    generic,
+    vencordOnly,
+    equicordOnly,
+  }: {
+    generic: ParsedPluginsResult['vencordPlugins'];
+    vencordOnly: ParsedPluginsResult['vencordPlugins'];
+    equicordOnly: ParsedPluginsResult['vencordPlugins'];
+  },
+  filenames: ArtifactFilenames
+): GeneratedOutput[] => [
+  { filename: filenames.shared, contents: generatePluginModule(generic, 'shared') },
+  { filename: filenames.vencord, contents: generatePluginModule(vencordOnly, 'vencord') },
+  { filename: filenames.equicord, contents: generatePluginModule(equicordOnly, 'equicord') },
+  {
+    filename: filenames.parseRules,
+    contents: generateParseRulesModule(generic, vencordOnly, equicordOnly),
+  },
+  {
+    filename: filenames.dependencies,
+    contents: generateDependencyGraphModule(generic, vencordOnly, equicordOnly),
+  },
+  {
+    filename: filenames.jsonSchema,
+    contents: generatePluginJsonSchemaModule(generic, vencordOnly, equicordOnly),
+  },
+  {
+    filename: filenames.typeDeclarations,
+    contents: generatePluginTypesModule(generic, vencordOnly, equicordOnly),
+  },
+];
+
+export const writeOutputs = async (
+  pluginsDir: string,
+  outputs: readonly GeneratedOutput[]
+): Promise<void> => {
+  await fse.ensureDir(pluginsDir);
+  for (const output of outputs) {
+    await fse.outputFile(resolve(pluginsDir, output.filename), output.contents);
+  }
 };
 
 const summarizeCounts = (values: readonly string[], limit: number): DiagnosticBucket[] =>
@@ -205,62 +475,44 @@ const summarizeDiagnostics = (
   };
 };
 
+const applyDiagnosticsBaseline = async (
+  params: Pick<GeneratePluginOptionsParams, 'baselinePath' | 'updateBaseline'>,
+  summary: GeneratePluginOptionsSummary,
+  diagnostics: readonly ParseDiagnostic[]
+): Promise<GeneratePluginOptionsSummary> => {
+  if (params.baselinePath === undefined) return summary;
+  if (params.updateBaseline) {
+    await writeDiagnosticsBaseline(params.baselinePath, diagnostics);
+    return summary;
+  }
+  return { ...summary, newDiagnostics: await findNewDiagnostics(params.baselinePath, diagnostics) };
+};
+
 export const runGeneratePluginOptions = async (
   rawParams: GeneratePluginOptionsParams
 ): Promise<Result<GeneratePluginOptionsSummary, Error>> => {
   const parsedParams = GeneratePluginOptionsParamsSchema.parse(rawParams);
   const verbose = parsedParams.verbose ?? false;
   try {
-    const resolvedVencordPath = resolve(process.cwd(), parsedParams.vencordPath);
-    const vencordPackageJsonPath = resolve(resolvedVencordPath, CLI_CONFIG.filenames.packageJson);
-    await ensurePathExists(
-      vencordPackageJsonPath,
-      `Vencord source path does not exist or is not a directory: ${resolvedVencordPath}`
-    );
-
-    const vencordPluginsPath = resolve(resolvedVencordPath, parsedParams.vencordPluginsDir);
-    await ensurePathExists(
-      vencordPluginsPath,
-      `Vencord plugins directory not found: ${vencordPluginsPath}`
-    );
-
-    const resolvedEquicordPath = await (async () => {
-      if (typeof parsedParams.equicordPath !== 'string') return undefined;
-      const resolved = resolve(process.cwd(), parsedParams.equicordPath);
-      const equicordPackageJsonPath = resolve(resolved, CLI_CONFIG.filenames.packageJson);
-      await ensurePathExists(
-        equicordPackageJsonPath,
-        `Equicord source path does not exist or is not a directory: ${resolved}`
-      );
-
-      const equicordPluginsPath = resolve(resolved, parsedParams.equicordPluginsDir);
-      await ensurePathExists(
-        equicordPluginsPath,
-        `Equicord plugins directory not found: ${equicordPluginsPath}`
-      );
-      return resolved;
-    })();
+    const { vencordPath: resolvedVencordPath, equicordPath: resolvedEquicordPath } =
+      await resolveSourcePaths(parsedParams);
 
-    const parseOptions: ParsePluginsOptions = {
-      vencordPluginsDir: parsedParams.vencordPluginsDir,
-      equicordPluginsDir: parsedParams.equicordPluginsDir,
-    };
+    const vencordSource = getSourceSettings(parsedParams, 'vencord');
+    const equicordSource = getSourceSettings(parsedParams, 'equicord');
 
     const vencordResult = await parseSource({
-      label: 'Vencord',
+      ...vencordSource,
       path: resolvedVencordPath,
       verbose,
       logger: parsedParams.logger,
-      parseOptions,
     });
 
     const equicordResult = resolvedEquicordPath
       ? await parseSource({
-          label: 'Equicord',
+          ...equicordSource,
           path: resolvedEquicordPath,
           verbose,
           logger: parsedParams.logger,
-          parseOptions,
         })
       : undefined;
 
@@ -301,93 +553,213 @@ export const runGeneratePluginOptions = async (
       );
     }
 
-    const outputSummary = await writeOutputs({
-      generic: categorized.generic,
-      vencordOnly: categorized.vencordOnly,
-      equicordOnly: categorized.equicordOnly,
-      outputPath: parsedParams.outputPath,
-    });
+    const pluginsDir = getPluginsDir(parsedParams);
+    const filenames = getArtifactFilenames(parsedParams);
+    const check = parsedParams.check ?? false;
+    const filtered = isFilteredRun(parsedParams);
+    if (filtered) {
+      parsedParams.logger.info(
+        `Regenerating ${
+          Object.keys(categorized.generic).length +
+          Object.keys(categorized.vencordOnly).length +
+          Object.keys(categorized.equicordOnly).length
+        } selected plugin(s); keeping the rest from ${pluginsDir}`
+      );
+      parsedParams.logger.warn(
+        `Left ${[
+          filenames.parseRules,
+          filenames.dependencies,
+          filenames.jsonSchema,
+          filenames.typeDeclarations,
+        ].join(', ')} unchanged; run without --only/--exclude to regenerate them`
+      );
+    }
+    const pluginOutputs = await renderSelectedPluginOutputs(
+      categorized,
+      parsedParams,
+      pluginsDir,
+      filenames
+    );
+    // Check mode keeps every artifact in memory so nothing on disk changes before the comparison
+    const pendingOutputs: GeneratedOutput[] = check ? [...pluginOutputs] : [];
+    if (!check) await writeOutputs(pluginsDir, pluginOutputs);
+
+    const outputSummary: GeneratePluginOptionsSummary = {
+      pluginsDir,
+      sharedCount: Object.keys(categorized.generic).length,
+      vencordOnlyCount: Object.keys(categorized.vencordOnly).length,
+      equicordOnlyCount: Object.keys(categorized.equicordOnly).length,
+    };
     const summary = diagnosticSummary ? { ...outputSummary, diagnosticSummary } : outputSummary;
 
-    // Extract migrations and update deprecated.json + migrations.json
-    try {
-      const pluginsDir = getPluginsDir(parsedParams.outputPath);
-
-      // Run migration extraction on both repos when git history is available.
-      // Nix package builds intentionally pass --skip-git-migrations so source
-      // fetches do not need leaveDotGit=true. CI can run this against ordinary
-      // git clones and commit the resulting deprecated.json/migrations.json.
-      const vencordMigrations = parsedParams.skipGitMigrations
-        ? { renames: [], deletions: [] }
-        : await extractMigrations(resolvedVencordPath, [parsedParams.vencordPluginsDir]);
-      const equicordMigrations = parsedParams.skipGitMigrations
-        ? { renames: [], deletions: [] }
-        : resolvedEquicordPath
-          ? await extractMigrations(resolvedEquicordPath, [
-              parsedParams.vencordPluginsDir,
-              parsedParams.equicordPluginsDir,
-            ])
-          : { renames: [], deletions: [] };
-
-      const sourcePluginRenames = [
-        ...(vencordResult.pluginRenames ?? []),
-        ...(equicordResult?.pluginRenames ?? []),
-      ].map((rename) => ({
-        ...rename,
-        commitDate: new Date().toISOString(),
-        commitHash: 'source-migration',
-      }));
-
-      // Combine migrations from both repos and explicit migratePluginSettings() calls.
-      const combinedMigrations = {
-        renames: [
-          ...vencordMigrations.renames,
-          ...equicordMigrations.renames,
-          ...sourcePluginRenames,
+    const noMigrations = { renames: [], deletions: [] };
+    let migrationReport: MigrationReport = {
+      status: filtered
+        ? 'skipped-plugin-filter'
+        : parsedParams.skipGitMigrations
+          ? 'skipped-git-history'
+          : 'extracted',
+      vencord: noMigrations,
+      equicord: noMigrations,
+      sourcePluginRenames: [],
+      settingRenames: [],
+    };
+
+    // Extract migrations and update deprecated.json + migrations.json. A filtered run would
+    // mistake every unselected plugin for a removal, so it leaves both files alone.
+    if (!filtered) {
+      try {
+        // Run migration extraction on both repos when git history is available.
+        // Nix package builds intentionally pass --skip-git-migrations so source
+        // fetches do not need leaveDotGit=true. CI can run this against ordinary
+        // git clones and commit the resulting deprecated.json/migrations.json.
+        const vencordMigrations = parsedParams.skipGitMigrations
+          ? { renames: [], deletions: [] }
+          : await extractMigrations(resolvedVencordPath, [
+              vencordSource.parseOptions.vencordPluginsDir,
+            ]);
+        const equicordMigrations = parsedParams.skipGitMigrations
+          ? { renames: [], deletions: [] }
+          : resolvedEquicordPath
+            ? await extractMigrations(resolvedEquicordPath, [
+                equicordSource.parseOptions.vencordPluginsDir,
+                equicordSource.parseOptions.equicordPluginsDir,
+              ])
+            : { renames: [], deletions: [] };
+
+        const declaredPluginRenames = [
+          ...(vencordResult.pluginRenames ?? []),
+          ...(equicordResult?.pluginRenames ?? []),
+        ];
+        const sourcePluginRenames = declaredPluginRenames.map((rename) => ({
+          ...rename,
+          commitDate: new Date().toISOString(),
+          commitHash: 'source-migration',
+        }));
+
+        // Combine migrations from both repos and explicit migratePluginSettings() calls.
+        const combinedMigrations = {
+          renames: [
+            ...vencordMigrations.renames,
+            ...equicordMigrations.renames,
+            ...sourcePluginRenames,
+          ],
+          deletions: [...vencordMigrations.deletions, ...equicordMigrations.deletions],
+        };
+
+        // Collect setting renames from both parsed results
+        const allSettingRenames = [
+          ...(vencordResult.settingRenames ?? []),
+          ...(equicordResult?.settingRenames ?? []),
+        ];
+
+        // Combine all parsed plugins for the migrations generator
+        const allPlugins = {
+          ...categorized.generic,
+          ...categorized.vencordOnly,
+          ...categorized.equicordOnly,
+        };
+
+        // Build set of active plugin names to filter false-positive removals
+        const activePluginNames = new Set(Object.keys(allPlugins));
+
+        const deprecated = check
+          ? await mergeDeprecatedPlugins(
+              combinedMigrations,
+              pluginsDir,
+              allSettingRenames,
+              activePluginNames,
+              toNixIdentifier,
+              filenames.deprecated
+            )
+          : await updateDeprecatedPlugins(
+              combinedMigrations,
+              pluginsDir,
+              verbose,
+              parsedParams.logger,
+              allSettingRenames,
+              activePluginNames,
+              toNixIdentifier,
+              filenames.deprecated
+            );
+        const migrationsJson = generateMigrationsJson(deprecated, allPlugins, [
+          categorized.generic,
+          categorized.vencordOnly,
+          categorized.equicordOnly,
+        ]);
+        const migrationsData = JSON.parse(migrationsJson) as Partial<
+          Record<'renames' | 'identifierRenames' | 'removals', unknown[]>
+        >;
+        migrationReport = {
+          ...migrationReport,
+          vencord: vencordMigrations,
+          equicord: equicordMigrations,
+          sourcePluginRenames: declaredPluginRenames,
+          settingRenames: allSettingRenames,
+          deprecated: {
+            renames: Object.keys(deprecated.renames).length,
+            removals: Object.keys(deprecated.removals).length,
+            settingRenames: Object.keys(deprecated.settingRenames).length,
+          },
+          migrations: {
+            renames: migrationsData.renames?.length ?? 0,
+            identifierRenames: migrationsData.identifierRenames?.length ?? 0,
+            removals: migrationsData.removals?.length ?? 0,
+          },
+        };
+        if (check) {
+          pendingOutputs.push(
+            {
+              filename: filenames.deprecated,
+              contents: generateDeprecatedJson(deprecated),
+            },
+            { filename: filenames.migrations, contents: migrationsJson }
+          );
+        } else {
+          await fse.writeFile(resolve(pluginsDir, filenames.migrations), migrationsJson);
+        }
+      } catch (error) {
+        // Migration extraction is best-effort; don't fail the build if it fails
+        migrationReport = { ...migrationReport, status: 'failed', error: String(error) };
+        if (verbose) {
+          parsedParams.logger.warn(`Failed to extract migrations: ${error}`);
+        }
+      }
+    }
+
+    const checkedSummary: GeneratePluginOptionsSummary = check
+      ? {
+          ...summary,
+          drift: await detectOutputDrift(pluginsDir, pendingOutputs),
+          ...(migrationReport.status === 'failed' ? { migrationError: migrationReport.error } : {}),
+        }
+      : summary;
+    const finalSummary = await applyDiagnosticsBaseline(parsedParams, checkedSummary, diagnostics);
+
+    if (parsedParams.reportPath !== undefined) {
+      await writeGeneratePluginOptionsReport(parsedParams.reportPath, {
+        summary: finalSummary,
+        sources: [
+          countSourcePlugins(vencordSource.label, resolvedVencordPath, vencordResult),
+          ...(resolvedEquicordPath && equicordResult
+            ? [countSourcePlugins(equicordSource.label, resolvedEquicordPath, equicordResult)]
+            : []),
         ],
-        deletions: [...vencordMigrations.deletions, ...equicordMigrations.deletions],
-      };
+        diagnostics,
+        categorization: [...categorized.categorization],
+        migrations: migrationReport,
+      });
+    }
 
-      // Collect setting renames from both parsed results
-      const allSettingRenames = [
-        ...(vencordResult.settingRenames ?? []),
-        ...(equicordResult?.settingRenames ?? []),
+    if (parsedParams.sarifPath !== undefined) {
+      const sourceRoots: SarifSourceRoot[] = [
+        { id: 'VENCORD', path: resolvedVencordPath },
+        ...(resolvedEquicordPath ? [{ id: 'EQUICORD', path: resolvedEquicordPath }] : []),
       ];
-
-      // Combine all parsed plugins for the migrations generator
-      const allPlugins = {
-        ...categorized.generic,
-        ...categorized.vencordOnly,
-        ...categorized.equicordOnly,
-      };
-
-      // Build set of active plugin names to filter false-positive removals
-      const activePluginNames = new Set(Object.keys(allPlugins));
-
-      const deprecated = await updateDeprecatedPlugins(
-        combinedMigrations,
-        pluginsDir,
-        verbose,
-        parsedParams.logger,
-        allSettingRenames,
-        activePluginNames,
-        toNixIdentifier
-      );
-      const migrationsJson = generateMigrationsJson(deprecated, allPlugins, [
-        categorized.generic,
-        categorized.vencordOnly,
-        categorized.equicordOnly,
-      ]);
-      const migrationsPath = resolve(pluginsDir, CLI_CONFIG.filenames.migrations);
-      await fse.writeFile(migrationsPath, migrationsJson);
-    } catch (error) {
-      // Migration extraction is best-effort; don't fail the build if it fails
-      if (verbose) {
-        parsedParams.logger.warn(`Failed to extract migrations: ${error}`);
-      }
+      await writeSarifLog(parsedParams.sarifPath, diagnostics, sourceRoots);
     }
 
-    return Ok(summary);
+    return Ok(finalSummary);
   } catch (error) {
     const normalized =
       error instanceof Error ? error : new GeneratePluginOptionsError(String(error));
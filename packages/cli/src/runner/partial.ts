@@ -0,0 +1,42 @@
+import { isNonNullObject } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import type { GeneratedOutput } from './drift.js';
+
+const readPluginEntries = async (path: string): Promise<Record<string, unknown>> => {
+  if (!(await fse.pathExists(path))) return {};
+  const contents: unknown = await fse.readJson(path);
+  return isNonNullObject(contents) ? contents : {};
+};
+
+/**
+ * Complete the plugin files of a filtered run with the plugins it did not select, taken from the
+ * files already in `pluginsDir`. A regenerated plugin replaces its old entry in every file, so a
+ * plugin that moved between shared and a fork-only file is not listed twice. Outputs other than
+ * `pluginFilenames` are dropped because they describe every plugin and cannot be merged.
+ */
+export const mergeUnselectedPlugins = async (
+  pluginsDir: string,
+  outputs: readonly GeneratedOutput[],
+  pluginFilenames: readonly string[]
+): Promise<GeneratedOutput[]> => {
+  const pluginOutputs = outputs.filter((output) => pluginFilenames.includes(output.filename));
+  const regenerated = pluginOutputs.map(
+    (output) => JSON.parse(output.contents) as Record<string, unknown>
+  );
+  const regeneratedKeys = new Set(regenerated.flatMap((entries) => Object.keys(entries)));
+
+  return Promise.all(
+    pluginOutputs.map(async (output, index) => {
+      const existing = await readPluginEntries(resolve(pluginsDir, output.filename));
+      const merged: Record<string, unknown> = { ...regenerated[index] };
+      for (const [key, value] of Object.entries(existing)) {
+        if (!regeneratedKeys.has(key)) merged[key] = value;
+      }
+      const sorted = Object.fromEntries(
+        Object.entries(merged).sort(([left], [right]) => left.localeCompare(right))
+      );
+      return { filename: output.filename, contents: `${JSON.stringify(sorted, null, 2)}\n` };
+    })
+  );
+};
@@ -0,0 +1,50 @@
+import type { extractMigrations, PluginCategorization } from '@nixcord/parser';
+import type { ParseDiagnostic, PluginRename, SettingRename } from '@nixcord/shared';
+import { CLI_CONFIG } from '@nixcord/shared';
+import fse from 'fs-extra';
+import type { GeneratePluginOptionsSummary } from './index.js';
+
+type PluginMigrationInfo = Awaited<ReturnType<typeof extractMigrations>>;
+
+export interface SourcePluginCounts {
+  label: string;
+  path: string;
+  /** Plugins parsed from the Vencord-style plugins directory (`src/plugins`). */
+  vencordPlugins: number;
+  /** Plugins parsed from the Equicord plugins directory (`src/equicordplugins`). */
+  equicordPlugins: number;
+}
+
+export interface MigrationReport {
+  /**
+   * `failed` means the best-effort migration step threw; `error` holds the message.
+   * `skipped-plugin-filter` runs saw only some plugins, so removals could not be told apart.
+   */
+  status: 'extracted' | 'skipped-git-history' | 'skipped-plugin-filter' | 'failed';
+  error?: string;
+  vencord: PluginMigrationInfo;
+  equicord: PluginMigrationInfo;
+  /** Renames declared in source through migratePluginSettings() calls. */
+  sourcePluginRenames: PluginRename[];
+  settingRenames: SettingRename[];
+  /** Entry counts of the merged deprecated.json and migrations.json, when they were produced. */
+  deprecated?: { renames: number; removals: number; settingRenames: number };
+  migrations?: { renames: number; identifierRenames: number; removals: number };
+}
+
+export interface GeneratePluginOptionsReport {
+  version: string;
+  summary: GeneratePluginOptionsSummary;
+  sources: SourcePluginCounts[];
+  diagnostics: ParseDiagnostic[];
+  categorization: PluginCategorization[];
+  migrations: MigrationReport;
+}
+
+export const writeGeneratePluginOptionsReport = async (
+  reportPath: string,
+  report: Omit<GeneratePluginOptionsReport, 'version'>
+): Promise<void> => {
+  const contents: GeneratePluginOptionsReport = { version: CLI_CONFIG.version, ...report };
+  await fse.outputFile(reportPath, `${JSON.stringify(contents, null, 2)}\n`);
+};
@@ -0,0 +1,171 @@
+import { pathToFileURL } from 'node:url';
+import type { ParseDiagnostic, ParseDiagnosticKind } from '@nixcord/shared';
+import { CLI_CONFIG, PARSE_DIAGNOSTIC_KINDS } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { relative } from 'pathe';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+interface ParseDiagnosticRule {
+  name: string;
+  description: string;
+  level: SarifLevel;
+}
+
+const PARSE_DIAGNOSTIC_RULES: Record<ParseDiagnosticKind, ParseDiagnosticRule> = {
+  'empty-settings-extraction': {
+    name: 'EmptySettingsExtraction',
+    description: 'definePluginSettings() was found but no settings could be extracted from it.',
+    level: 'warning',
+  },
+  'unsupported-settings-argument': {
+    name: 'UnsupportedSettingsArgument',
+    description:
+      'The argument passed to definePluginSettings() is not an object literal or a pattern the extractor understands.',
+    level: 'warning',
+  },
+  'unsupported-generated-settings-pattern': {
+    name: 'UnsupportedGeneratedSettingsPattern',
+    description:
+      'Settings are generated programmatically (e.g. with reduce or map) in a shape the extractor cannot evaluate.',
+    level: 'warning',
+  },
+  'unresolved-settings-identifier': {
+    name: 'UnresolvedSettingsIdentifier',
+    description: 'An identifier used in the settings definition could not be resolved statically.',
+    level: 'warning',
+  },
+  'unsupported-select-options-pattern': {
+    name: 'UnsupportedSelectOptionsPattern',
+    description: 'SELECT options are built in a way the extractor cannot turn into enum values.',
+    level: 'warning',
+  },
+  'unresolved-select-options-identifier': {
+    name: 'UnresolvedSelectOptionsIdentifier',
+    description: 'An identifier used for SELECT options could not be resolved statically.',
+    level: 'warning',
+  },
+  'component-only-setting-skipped': {
+    name: 'ComponentOnlySettingSkipped',
+    description:
+      'A COMPONENT setting with no persistent store-backed value was left out of the Nix options.',
+    level: 'note',
+  },
+  'hidden-setting-skipped': {
+    name: 'HiddenSettingSkipped',
+    description: 'A hidden setting was left out of the Nix options.',
+    level: 'note',
+  },
+  'custom-setting-without-default': {
+    name: 'CustomSettingWithoutDefault',
+    description: 'A CUSTOM setting has no default, so its Nix type could not be inferred.',
+    level: 'note',
+  },
+  'custom-component-setting-without-static-info': {
+    name: 'CustomComponentSettingWithoutStaticInfo',
+    description:
+      'A custom component setting exposes no static type or default and was left out of the Nix options.',
+    level: 'note',
+  },
+  'skipped-plugin': {
+    name: 'SkippedPlugin',
+    description: 'A plugin directory was skipped because no entry file or plugin name was found.',
+    level: 'warning',
+  },
+  'failed-plugin': {
+    name: 'FailedPlugin',
+    description: 'Parsing a plugin threw an error; none of its settings were extracted.',
+    level: 'error',
+  },
+};
+
+export interface SarifSourceRoot {
+  /** SARIF `uriBaseId` used for files under `path`. */
+  id: string;
+  path: string;
+}
+
+const fileUri = (path: string): string => pathToFileURL(path).href;
+
+const directoryUri = (path: string): string => {
+  const uri = fileUri(path);
+  return uri.endsWith('/') ? uri : `${uri}/`;
+};
+
+const artifactLocation = (filePath: string, roots: readonly SarifSourceRoot[]) => {
+  for (const root of roots) {
+    const relativePath = relative(root.path, filePath);
+    if (!relativePath.startsWith('..') && !relativePath.startsWith('/')) {
+      return { uri: encodeURI(relativePath), uriBaseId: root.id };
+    }
+  }
+  return { uri: fileUri(filePath) };
+};
+
+const sarifResult = (diagnostic: ParseDiagnostic, roots: readonly SarifSourceRoot[]) => {
+  const rule = PARSE_DIAGNOSTIC_RULES[diagnostic.kind];
+  const message = diagnostic.pluginName
+    ? `${diagnostic.pluginName}: ${diagnostic.message}`
+    : diagnostic.message;
+  return {
+    ruleId: diagnostic.kind,
+    ruleIndex: PARSE_DIAGNOSTIC_KINDS.indexOf(diagnostic.kind),
+    level: rule.level,
+    message: { text: message },
+    ...(diagnostic.filePath
+      ? {
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: artifactLocation(diagnostic.filePath, roots),
+                ...(diagnostic.range ? { region: { ...diagnostic.range } } : {}),
+              },
+            },
+          ],
+        }
+      : {}),
+  };
+};
+
+/**
+ * Build a SARIF 2.1.0 log with one rule per parse diagnostic kind. Files under a source root are
+ * referenced relative to its `uriBaseId` so viewers can map them onto an upstream checkout.
+ */
+export const buildSarifLog = (
+  diagnostics: readonly ParseDiagnostic[],
+  roots: readonly SarifSourceRoot[]
+) => ({
+  $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+  version: '2.1.0',
+  runs: [
+    {
+      tool: {
+        driver: {
+          name: 'nixcord',
+          version: CLI_CONFIG.version,
+          rules: PARSE_DIAGNOSTIC_KINDS.map((kind) => ({
+            id: kind,
+            name: PARSE_DIAGNOSTIC_RULES[kind].name,
+            shortDescription: { text: PARSE_DIAGNOSTIC_RULES[kind].description },
+            defaultConfiguration: { level: PARSE_DIAGNOSTIC_RULES[kind].level },
+          })),
+        },
+      },
+      originalUriBaseIds: Object.fromEntries(
+        roots.map((root) => [root.id, { uri: directoryUri(root.path) }])
+      ),
+      results: diagnostics.map((diagnostic) => sarifResult(diagnostic, roots)),
+    },
+  ],
+});
+
+export const writeSarifLog = async (
+  sarifPath: string,
+  diagnostics: readonly ParseDiagnostic[],
+  roots: readonly SarifSourceRoot[]
+): Promise<void> => {
+  await fse.outputFile(
+    sarifPath,
+    `${JSON.stringify(buildSarifLog(diagnostics, roots), null, 2)}\n`
+  );
+};
@@ -0,0 +1,72 @@
+import { toNixIdentifier } from '@nixcord/nix-generator';
+import type { PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
+import fse from 'fs-extra';
+import * as z from 'zod';
+
+/**
+ * Hand-maintained corrections to the extractor's sensitive-setting classification, keyed like
+ * the generated JSON: plugin name, then the dotted setting path, e.g.
+ * `{ "fileUpload": { "catboxUserhash": true } }`. `false` clears a false positive.
+ */
+const SensitiveSettingOverridesSchema = z.record(z.string(), z.record(z.string(), z.boolean()));
+
+type SensitiveSettingOverrides = z.infer<typeof SensitiveSettingOverridesSchema>;
+
+type Plugins = ReadonlyDeep<Record<string, PluginConfig>>;
+
+class SensitiveSettingOverridesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SensitiveSettingOverridesError';
+  }
+}
+
+/** A missing file means no overrides. */
+export const readSensitiveSettingOverrides = async (
+  filePath: string
+): Promise<SensitiveSettingOverrides> => {
+  if (!(await fse.pathExists(filePath))) return {};
+  const parsed = SensitiveSettingOverridesSchema.safeParse(await fse.readJson(filePath));
+  if (!parsed.success) {
+    throw new SensitiveSettingOverridesError(`Invalid sensitive settings file: ${filePath}`);
+  }
+  return parsed.data;
+};
+
+const applyToSettings = (
+  settings: PluginConfig['settings'],
+  overrides: Readonly<Record<string, boolean>>,
+  prefix: string
+): PluginConfig['settings'] =>
+  Object.fromEntries(
+    Object.entries(settings).map(([key, setting]) => {
+      const path = `${prefix}${toNixIdentifier(setting.name)}`;
+      if ('settings' in setting) {
+        return [
+          key,
+          { ...setting, settings: applyToSettings(setting.settings, overrides, `${path}.`) },
+        ];
+      }
+      const override = overrides[path];
+      if (override === undefined) return [key, setting];
+      const { sensitive: _, ...rest } = setting as PluginSetting;
+      return [key, override ? { ...rest, sensitive: true } : rest];
+    })
+  );
+
+/** Apply the overrides to every plugin they name; other plugins are returned unchanged. */
+export const applySensitiveSettingOverrides = (
+  plugins: Plugins,
+  overrides: SensitiveSettingOverrides
+): Plugins =>
+  Object.fromEntries(
+    Object.entries(plugins).map(([name, config]) => {
+      const pluginOverrides = overrides[toNixIdentifier(name)];
+      return [
+        name,
+        pluginOverrides
+          ? { ...config, settings: applyToSettings(config.settings, pluginOverrides, '') }
+          : config,
+      ];
+    })
+  ) as Plugins;
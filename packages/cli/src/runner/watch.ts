@@ -0,0 +1,137 @@
+import { type FSWatcher, watch } from 'node:fs';
+import {
+  categorizePlugins,
+  createPluginsParseSession,
+  type PluginsParseSession,
+} from '@nixcord/parser';
+import { CLI_CONFIG, Err, Ok, type Result } from '@nixcord/shared';
+import { join } from 'pathe';
+import {
+  type GeneratePluginOptionsParams,
+  GeneratePluginOptionsParamsSchema,
+  getArtifactFilenames,
+  getPluginsDir,
+  getSourceSettings,
+  renderSelectedPluginOutputs,
+  resolveSourcePaths,
+  validateParsedResults,
+  writeOutputs,
+} from './index.js';
+
+/** Editors write a file in several steps; batch the resulting events into one rebuild. */
+const REBUILD_DEBOUNCE_MS = 100;
+
+class WatchGeneratePluginOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchGeneratePluginOptionsError';
+  }
+}
+
+const waitForAbort = (signal: AbortSignal): Promise<void> =>
+  new Promise((resolve) => {
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+/**
+ * Generate plugin options, then keep the parsed projects alive and regenerate whenever a file
+ * below a plugins directory changes. Only the plugins containing changed files are re-extracted
+ * and only outputs whose contents changed are rewritten. Runs until `signal` is aborted.
+ * Migrations are not extracted in watch mode.
+ */
+export const runWatchGeneratePluginOptions = async (
+  rawParams: GeneratePluginOptionsParams,
+  signal: AbortSignal
+): Promise<Result<void, Error>> => {
+  const params = GeneratePluginOptionsParamsSchema.parse(rawParams);
+  const { logger } = params;
+  try {
+    const { vencordPath, equicordPath } = await resolveSourcePaths(params);
+    const vencord = getSourceSettings(params, 'vencord');
+    const equicord = getSourceSettings(params, 'equicord');
+
+    logger.info(`Parsing ${vencord.label} plugins from: ${vencordPath}`);
+    const vencordSession = await createPluginsParseSession(vencordPath, vencord.parseOptions);
+    let equicordSession: PluginsParseSession | undefined;
+    if (equicordPath) {
+      logger.info(`Parsing ${equicord.label} plugins from: ${equicordPath}`);
+      equicordSession = await createPluginsParseSession(equicordPath, equicord.parseOptions);
+    }
+    const sessions = equicordSession ? [vencordSession, equicordSession] : [vencordSession];
+
+    const pluginsDir = getPluginsDir(params);
+    const filenames = getArtifactFilenames(params);
+    const written = new Map<string, string>();
+    const build = async (): Promise<string[]> => {
+      const vencordResult = vencordSession.result();
+      const equicordResult = equicordSession?.result();
+      validateParsedResults(vencordResult, equicordResult);
+
+      const outputs = await renderSelectedPluginOutputs(
+        categorizePlugins(vencordResult, equicordResult),
+        params,
+        pluginsDir,
+        filenames
+      );
+      const changed = outputs.filter((output) => written.get(output.filename) !== output.contents);
+      await writeOutputs(pluginsDir, changed);
+      for (const output of changed) written.set(output.filename, output.contents);
+      return changed.map((output) => output.filename);
+    };
+
+    await build();
+    logger.success(`${CLI_CONFIG.symbols.success} Generated plugin options in ${pluginsDir}`);
+
+    const pendingPaths = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let rebuilding = Promise.resolve();
+
+    const rebuild = async (): Promise<void> => {
+      const changedPaths = [...pendingPaths];
+      pendingPaths.clear();
+
+      const reparsed: string[] = [];
+      for (const session of sessions) reparsed.push(...(await session.reparse(changedPaths)));
+      if (reparsed.length === 0) return;
+
+      const files = await build();
+      logger.success(
+        `${CLI_CONFIG.symbols.success} Re-extracted ${reparsed.length} plugin(s); ${
+          files.length > 0 ? `updated ${files.join(', ')}` : 'outputs unchanged'
+        }`
+      );
+    };
+
+    const schedule = (path: string): void => {
+      pendingPaths.add(path);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        // Rebuilds share one ts-morph project per source, so they must not overlap
+        rebuilding = rebuilding.then(rebuild).catch((error: unknown) => {
+          logger.error(
+            `Failed to regenerate plugin options: ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+      }, REBUILD_DEBOUNCE_MS);
+    };
+
+    const watchedPaths = sessions.flatMap((session) => session.pluginsPaths);
+    const watchers: FSWatcher[] = watchedPaths.map((pluginsPath) =>
+      watch(pluginsPath, { recursive: true }, (_event, filename) => {
+        if (filename) schedule(join(pluginsPath, filename.toString()));
+      })
+    );
+    logger.info(`Watching ${watchedPaths.length} plugin directories for changes`);
+
+    await waitForAbort(signal);
+    clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+    await rebuilding;
+    return Ok(undefined);
+  } catch (error) {
+    const normalized =
+      error instanceof Error ? error : new WatchGeneratePluginOptionsError(String(error));
+    return Err(normalized);
+  }
+};
@@ -0,0 +1,95 @@
+import { isNonNullObject, type NixType } from '@nixcord/shared';
+
+type EnumValue = string | number | boolean;
+
+/** Clients store BigInt settings such as IDs as digit strings. */
+const INTEGER_STRING_PATTERN = /^-?\d+$/;
+
+export interface SettingsFile {
+  settings: Record<string, unknown>;
+  quickCss?: string;
+  /** JSON pointer of `settings` within the file: empty for settings.json, `/settings` for a backup. */
+  pointer: string;
+}
+
+class SettingsFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsFileError';
+  }
+}
+
+/** Accept both a client's settings/settings.json and a settings-backup export. */
+export const unwrapSettingsFile = (contents: unknown): SettingsFile => {
+  if (!isNonNullObject(contents)) {
+    throw new SettingsFileError('Settings file must contain a JSON object');
+  }
+  if (isNonNullObject(contents.settings) && !('plugins' in contents)) {
+    return {
+      settings: contents.settings,
+      ...(typeof contents.quickCss === 'string' ? { quickCss: contents.quickCss } : {}),
+      pointer: '/settings',
+    };
+  }
+  return { settings: contents, pointer: '' };
+};
+
+/** Set a nested value, creating the objects on the way. */
+export const setSettingsPath = (
+  target: Record<string, unknown>,
+  path: readonly string[],
+  value: unknown
+) => {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    const next = current[key];
+    if (isNonNullObject(next)) current = next;
+    else {
+      const created: Record<string, unknown> = {};
+      current[key] = created;
+      current = created;
+    }
+  }
+  const last = path.at(-1);
+  if (last !== undefined) current[last] = value;
+};
+
+/** Whether a settings.json value is accepted by a Nix option type. Submodules accept anything. */
+export const matchesNixType = (
+  type: NixType,
+  value: unknown,
+  enumValues: readonly EnumValue[] = []
+): boolean => {
+  switch (type.kind) {
+    case 'nullOr':
+      return value === null || matchesNixType(type.elem, value, enumValues);
+    case 'listOf':
+      return (
+        Array.isArray(value) && value.every((item) => matchesNixType(type.elem, item, enumValues))
+      );
+    case 'attrsOf':
+      return (
+        isNonNullObject(value) &&
+        !Array.isArray(value) &&
+        Object.values(value).every((item) => matchesNixType(type.elem, item, enumValues))
+      );
+    case 'bool':
+      return typeof value === 'boolean';
+    case 'int':
+      return (
+        Number.isInteger(value) || (typeof value === 'string' && INTEGER_STRING_PATTERN.test(value))
+      );
+    case 'float':
+      return typeof value === 'number';
+    case 'between':
+      return typeof value === 'number' && value >= type.min && value <= type.max;
+    case 'str':
+      return typeof value === 'string';
+    case 'enum':
+      return enumValues.some((enumValue) => enumValue === value);
+    case 'attrs':
+      return isNonNullObject(value) && !Array.isArray(value);
+    default:
+      return true;
+  }
+};
@@ -1,9 +1,15 @@
-import { CLI_CONFIG, type Logger } from '@nixcord/shared';
-import type { GeneratePluginOptionsSummary } from './runner/index.js';
+import { CLI_CONFIG, type Logger, type ParseDiagnostic } from '@nixcord/shared';
+import type { OutputChange, OutputDrift } from './runner/drift.js';
+import {
+  type ArtifactFilenames,
+  DEFAULT_ARTIFACT_FILENAMES,
+  type GeneratePluginOptionsSummary,
+} from './runner/index.js';
 
 export function logGeneratePluginOptionsSummary(
   logger: Logger,
-  summary: GeneratePluginOptionsSummary
+  summary: GeneratePluginOptionsSummary,
+  filenames: ArtifactFilenames = DEFAULT_ARTIFACT_FILENAMES
 ): void {
   const diagnosticSummary = summary.diagnosticSummary
     ? `\n  - parser diagnostics: ${summary.diagnosticSummary.total} total` +
@@ -14,10 +20,13 @@ export function logGeneratePluginOptionsSummary(
 
   logger.success(
     `${CLI_CONFIG.symbols.success} Generated plugin options in ${summary.pluginsDir}:\n` +
-      `  - ${CLI_CONFIG.filenames.shared}: ${summary.sharedCount} plugins (shared)\n` +
-      `  - ${CLI_CONFIG.filenames.vencord}: ${summary.vencordOnlyCount} plugins (Vencord-only)\n` +
-      `  - ${CLI_CONFIG.filenames.equicord}: ${summary.equicordOnlyCount} plugins (Equicord-only)\n` +
-      `  - ${CLI_CONFIG.filenames.parseRules}: parser rename rules${diagnosticSummary}`
+      `  - ${filenames.shared}: ${summary.sharedCount} plugins (shared)\n` +
+      `  - ${filenames.vencord}: ${summary.vencordOnlyCount} plugins (Vencord-only)\n` +
+      `  - ${filenames.equicord}: ${summary.equicordOnlyCount} plugins (Equicord-only)\n` +
+      `  - ${filenames.parseRules}: parser rename rules\n` +
+      `  - ${filenames.dependencies}: plugin dependency graph per client\n` +
+      `  - ${filenames.jsonSchema}: JSON Schema for plugin configuration\n` +
+      `  - ${filenames.typeDeclarations}: TypeScript types for plugin settings${diagnosticSummary}`
   );
 }
 
@@ -28,3 +37,49 @@ const formatBuckets = (
   buckets.length === 0
     ? ''
     : `\n    ${label}: ${buckets.map((bucket) => `${bucket.name}=${bucket.count}`).join(', ')}`;
+
+const CHANGE_PREFIX: Record<OutputChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+const formatChange = (change: OutputChange): string => {
+  const value = change.value === undefined ? '' : ` ${JSON.stringify(change.value)}`;
+  return `${CHANGE_PREFIX[change.kind]} ${change.path || '(entry)'}${value}`;
+};
+
+const formatFileDrift = (fileDrift: OutputDrift): string => {
+  if (fileDrift.status === 'missing') return `\n  - ${fileDrift.filename}: missing on disk`;
+  if (fileDrift.status === 'invalid') return `\n  - ${fileDrift.filename}: not valid JSON on disk`;
+
+  return (
+    `\n  - ${fileDrift.filename}:` +
+    fileDrift.entries
+      .map(
+        (entry) => `\n    ${entry.key || '(root)'}: ${entry.changes.map(formatChange).join(', ')}`
+      )
+      .join('')
+  );
+};
+
+export function logOutputDrift(
+  logger: Logger,
+  pluginsDir: string,
+  drift: readonly OutputDrift[]
+): void {
+  logger.warn(
+    `Generated plugin options in ${pluginsDir} are stale:${drift.map(formatFileDrift).join('')}`
+  );
+}
+
+export function logNewDiagnostics(logger: Logger, diagnostics: readonly ParseDiagnostic[]): void {
+  logger.warn(
+    `Parser diagnostics not in the baseline:${diagnostics
+      .map(
+        (diagnostic) =>
+          `\n  - ${diagnostic.kind}${diagnostic.pluginName ? ` (${diagnostic.pluginName})` : ''}: ${diagnostic.message}`
+      )
+      .join('')}`
+  );
+}
@@ -0,0 +1,273 @@
+import { readDeprecatedJson, toNixIdentifier } from '@nixcord/nix-generator';
+import { parsePlugins } from '@nixcord/parser';
+import type {
+  DeprecatedData,
+  PluginConfig,
+  PluginSetting,
+  ReadonlyDeep,
+  Simplify,
+} from '@nixcord/shared';
+import {
+  CLI_CONFIG,
+  Err,
+  isNestedConfig,
+  isNonNullObject,
+  Ok,
+  type Result,
+  renderNixType,
+} from '@nixcord/shared';
+import fse from 'fs-extra';
+import { resolve } from 'pathe';
+import * as z from 'zod';
+import { matchesNixType, unwrapSettingsFile } from '../settings-file.js';
+
+const ValidateSettingsParamsSchema = z.object({
+  settingsPath: z.string().min(1),
+  sourcePaths: z.array(z.string().min(1)).min(1),
+  vencordPluginsDir: z.string().min(1),
+  equicordPluginsDir: z.string().min(1),
+  /** Directory holding deprecated.json. */
+  pluginsDir: z.string().min(1),
+});
+
+export type ValidateSettingsParams = Simplify<z.infer<typeof ValidateSettingsParamsSchema>>;
+
+export type SettingsIssueKind =
+  | 'unknown-plugin'
+  | 'renamed-plugin'
+  | 'removed-plugin'
+  | 'unknown-setting'
+  | 'renamed-setting'
+  | 'type-mismatch'
+  | 'invalid-enum-value';
+
+export interface SettingsIssue {
+  /** RFC 6901 JSON pointer to the offending value in the settings file. */
+  pointer: string;
+  kind: SettingsIssueKind;
+  message: string;
+}
+
+export interface SettingsValidation {
+  settingsPath: string;
+  issues: SettingsIssue[];
+}
+
+type PluginSchemas = Map<string, ReadonlyDeep<PluginConfig>>;
+type PluginSettings = ReadonlyDeep<PluginConfig['settings']>;
+
+class ValidateSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidateSettingsError';
+  }
+}
+
+const escapePointerToken = (token: string): string =>
+  token.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const formatValue = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+/**
+ * Collect every plugin the given source trees define. Plugins Equicord modifies are parsed from
+ * both trees; their settings are unioned so either fork's settings.json validates.
+ */
+const loadPluginSchemas = async (
+  sourcePaths: readonly string[],
+  params: Pick<ValidateSettingsParams, 'vencordPluginsDir' | 'equicordPluginsDir'>
+): Promise<PluginSchemas> => {
+  const schemas: PluginSchemas = new Map();
+  for (const sourcePath of sourcePaths) {
+    const result = await parsePlugins(sourcePath, {
+      vencordPluginsDir: params.vencordPluginsDir,
+      equicordPluginsDir: params.equicordPluginsDir,
+    });
+    for (const [name, plugin] of [
+      ...Object.entries(result.vencordPlugins),
+      ...Object.entries(result.equicordPlugins),
+    ]) {
+      const existing = schemas.get(name);
+      schemas.set(
+        name,
+        existing ? { ...existing, settings: { ...plugin.settings, ...existing.settings } } : plugin
+      );
+    }
+  }
+  return schemas;
+};
+
+const checkSettingValue = (
+  setting: ReadonlyDeep<PluginSetting>,
+  value: unknown,
+  pointer: string
+): SettingsIssue | undefined => {
+  if (matchesNixType(setting.type, value, setting.enumValues)) return undefined;
+  if (setting.enumValues && !Array.isArray(value)) {
+    return {
+      pointer,
+      kind: 'invalid-enum-value',
+      message: `Expected one of ${setting.enumValues.map(formatValue).join(', ')}, got ${formatValue(value)}`,
+    };
+  }
+  return {
+    pointer,
+    kind: 'type-mismatch',
+    message: `Expected ${renderNixType(setting.type)}, got ${formatValue(value)}`,
+  };
+};
+
+const validatePluginSettings = (
+  schema: PluginSettings,
+  values: Record<string, unknown>,
+  pointer: string,
+  settingRenames: Record<string, string> = {}
+): SettingsIssue[] =>
+  Object.entries(values).flatMap(([key, value]): SettingsIssue[] => {
+    const settingPointer = `${pointer}/${escapePointerToken(key)}`;
+    const setting = schema[key];
+    if (setting === undefined) {
+      const renamedTo = settingRenames[key];
+      return [
+        renamedTo === undefined
+          ? { pointer: settingPointer, kind: 'unknown-setting', message: `Unknown setting ${key}` }
+          : {
+              pointer: settingPointer,
+              kind: 'renamed-setting',
+              message: `Setting ${key} was renamed to ${renamedTo}`,
+            },
+      ];
+    }
+    if (isNestedConfig(setting)) {
+      if (!isNonNullObject(value)) {
+        return [
+          {
+            pointer: settingPointer,
+            kind: 'type-mismatch',
+            message: `Expected a group of settings, got ${formatValue(value)}`,
+          },
+        ];
+      }
+      return validatePluginSettings(
+        (setting as ReadonlyDeep<PluginConfig>).settings,
+        value,
+        settingPointer
+      );
+    }
+    const issue = checkSettingValue(setting as ReadonlyDeep<PluginSetting>, value, settingPointer);
+    return issue ? [issue] : [];
+  });
+
+const validatePlugin = (
+  name: string,
+  values: unknown,
+  schemas: PluginSchemas,
+  deprecated: DeprecatedData,
+  pointer: string
+): SettingsIssue[] => {
+  const schema = schemas.get(name);
+  if (schema === undefined) {
+    const renamedTo = deprecated.renames[name]?.to;
+    if (renamedTo !== undefined) {
+      return [
+        { pointer, kind: 'renamed-plugin', message: `Plugin ${name} was renamed to ${renamedTo}` },
+      ];
+    }
+    if (deprecated.removals[name] !== undefined) {
+      return [{ pointer, kind: 'removed-plugin', message: `Plugin ${name} was removed` }];
+    }
+    return [{ pointer, kind: 'unknown-plugin', message: `Unknown plugin ${name}` }];
+  }
+  if (!isNonNullObject(values)) {
+    return [
+      {
+        pointer,
+        kind: 'type-mismatch',
+        message: `Expected a group of settings, got ${formatValue(values)}`,
+      },
+    ];
+  }
+
+  const { enabled, ...settings } = values;
+  const issues: SettingsIssue[] = [];
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    issues.push({
+      pointer: `${pointer}/enabled`,
+      kind: 'type-mismatch',
+      message: `Expected types.bool, got ${formatValue(enabled)}`,
+    });
+  }
+  issues.push(
+    ...validatePluginSettings(
+      schema.settings,
+      settings,
+      pointer,
+      deprecated.settingRenames[toNixIdentifier(name)]
+    )
+  );
+  return issues;
+};
+
+/**
+ * Check every `plugins.<Name>.<setting>` value of a settings.json against the parsed plugins.
+ * Other top-level settings are not plugin options and are left alone.
+ */
+export const validateSettings = (
+  contents: unknown,
+  schemas: PluginSchemas,
+  deprecated: DeprecatedData
+): SettingsIssue[] => {
+  const { settings, pointer } = unwrapSettingsFile(contents);
+  const plugins = settings.plugins;
+  const pluginsPointer = `${pointer}/plugins`;
+  if (plugins === undefined) return [];
+  if (!isNonNullObject(plugins)) {
+    return [
+      {
+        pointer: pluginsPointer,
+        kind: 'type-mismatch',
+        message: `Expected a group of plugins, got ${formatValue(plugins)}`,
+      },
+    ];
+  }
+  return Object.entries(plugins).flatMap(([name, values]) =>
+    validatePlugin(
+      name,
+      values,
+      schemas,
+      deprecated,
+      `${pluginsPointer}/${escapePointerToken(name)}`
+    )
+  );
+};
+
+export const runValidateSettings = async (
+  rawParams: ValidateSettingsParams
+): Promise<Result<SettingsValidation, Error>> => {
+  const params = ValidateSettingsParamsSchema.parse(rawParams);
+  try {
+    const settingsPath = resolve(process.cwd(), params.settingsPath);
+    if (!(await fse.pathExists(settingsPath))) {
+      throw new ValidateSettingsError(`Settings file not found: ${settingsPath}`);
+    }
+    const sourcePaths = params.sourcePaths.map((path) => resolve(process.cwd(), path));
+    for (const sourcePath of sourcePaths) {
+      if (!(await fse.pathExists(resolve(sourcePath, CLI_CONFIG.filenames.packageJson)))) {
+        throw new ValidateSettingsError(`Not a Vencord/Equicord source tree: ${sourcePath}`);
+      }
+    }
+
+    const contents: unknown = await fse.readJson(settingsPath);
+    const schemas = await loadPluginSchemas(sourcePaths, params);
+    const deprecated = await readDeprecatedJson(
+      resolve(process.cwd(), params.pluginsDir, CLI_CONFIG.filenames.deprecated)
+    );
+    return Ok({ settingsPath, issues: validateSettings(contents, schemas, deprecated) });
+  } catch (error) {
+    const normalized = error instanceof Error ? error : new ValidateSettingsError(String(error));
+    return Err(normalized);
+  }
+};
+
+/** Render one line per issue, keyed by JSON pointer. */
+export const formatSettingsValidation = (validation: SettingsValidation): string =>
+  validation.issues.map((issue) => `${issue.pointer}: ${issue.message} (${issue.kind})\n`).join('');
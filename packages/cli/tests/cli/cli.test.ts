@@ -1,18 +1,36 @@
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { CLI_CONFIG, Err, Ok } from '@nixcord/shared';
+import type { Command, CommandContext, RouteMap } from '@stricli/core';
 import fse from 'fs-extra';
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 import { buildCli, CliExecutionError, handleCliError, runCli } from '../../src/cli.js';
+import { loadGeneratorConfig } from '../../src/config.js';
+import { runDiffPluginSurfaces } from '../../src/diff/index.js';
 import { runGeneratePluginOptions } from '../../src/runner/index.js';
+import { runWatchGeneratePluginOptions } from '../../src/runner/watch.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-vi.mock('../../src/runner/index.js', () => ({
+vi.mock('../../src/runner/index.js', async (orig) => ({
+  ...(await orig()),
   runGeneratePluginOptions: vi.fn(),
 }));
 
+vi.mock('../../src/config.js', () => ({
+  loadGeneratorConfig: vi.fn(),
+}));
+
+vi.mock('../../src/runner/watch.js', () => ({
+  runWatchGeneratePluginOptions: vi.fn(),
+}));
+
+vi.mock('../../src/diff/index.js', async (orig) => ({
+  ...(await orig()),
+  runDiffPluginSurfaces: vi.fn(),
+}));
+
 vi.mock('@nixcord/shared', async (orig) => ({
   ...(await orig()),
   createLogger: vi.fn(() => ({
@@ -26,6 +44,9 @@ vi.mock('@nixcord/shared', async (orig) => ({
 
 describe('buildCli', () => {
   const cli = buildCli();
+  const routes = cli.root as RouteMap<CommandContext>;
+  const generate = routes.getRoutingTargetForInput('generate') as Command<CommandContext>;
+
   test('builds a Stricli application with correct name and description', () => {
     expect(cli.config.name).toBe('generate-plugin-options');
     expect(cli.root.brief).toBe(
@@ -33,12 +54,50 @@ describe('buildCli', () => {
     );
   });
 
+  test('runs generate when no subcommand is given', () => {
+    expect(routes.getDefaultCommand()).toBe(generate);
+  });
+
+  test('has a diff subcommand', () => {
+    const diff = routes.getRoutingTargetForInput('diff') as Command<CommandContext>;
+    expect(diff.usesFlag('json')).toBe(true);
+  });
+
+  test('has an inspect subcommand', () => {
+    const inspect = routes.getRoutingTargetForInput('inspect') as Command<CommandContext>;
+    expect(inspect.usesFlag('source')).toBe(true);
+  });
+
+  test('has an import-settings subcommand', () => {
+    const importSettings = routes.getRoutingTargetForInput(
+      'import-settings'
+    ) as Command<CommandContext>;
+    expect(importSettings.usesFlag('pluginsDir')).toBe(true);
+  });
+
+  test('has a validate subcommand', () => {
+    const validate = routes.getRoutingTargetForInput('validate') as Command<CommandContext>;
+    expect(validate.usesFlag('source')).toBe(true);
+  });
+
+  test('has a drift subcommand', () => {
+    const drift = routes.getRoutingTargetForInput('drift') as Command<CommandContext>;
+    expect(drift.usesFlag('nix')).toBe(true);
+  });
+
+  test('has a migrate-config subcommand', () => {
+    const migrateConfig = routes.getRoutingTargetForInput(
+      'migrate-config'
+    ) as Command<CommandContext>;
+    expect(migrateConfig.usesFlag('dryRun')).toBe(true);
+  });
+
   test('has a version flag', () => {
-    expect(cli.root.usesFlag('version')).toBe(true);
+    expect(generate.usesFlag('version')).toBe(true);
   });
 
   test('has all expected options', () => {
-    const flags = Object.keys(cli.root.parameters.flags ?? {});
+    const flags = Object.keys(generate.parameters.flags ?? {});
 
     expect(flags).toContain('vencord');
     expect(flags).toContain('equicord');
@@ -46,10 +105,14 @@ describe('buildCli', () => {
     expect(flags).toContain('vencordPlugins');
     expect(flags).toContain('equicordPlugins');
     expect(flags).toContain('verbose');
+    expect(flags).toContain('report');
+    expect(flags).toContain('sarif');
+    expect(flags).toContain('watch');
+    expect(flags).toContain('config');
   });
 
   test('has positional argument for vencord path', () => {
-    const positional = cli.root.parameters.positional;
+    const positional = generate.parameters.positional;
     expect(positional?.kind).toBe('tuple');
     if (positional?.kind === 'tuple') {
       expect(positional.parameters[0]?.placeholder).toBe('vencord-path');
@@ -61,6 +124,7 @@ describe('CLI Argument Parsing', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(runGeneratePluginOptions).mockReset();
+    vi.mocked(loadGeneratorConfig).mockResolvedValue(Ok(undefined));
     process.exitCode = undefined;
   });
 
@@ -440,12 +504,177 @@ describe('CLI Argument Parsing', () => {
       await fse.remove(tempDir);
     }
   });
+
+  test('passes --report as a resolved report path', async () => {
+    const mockSummary = {
+      pluginsDir: '/tmp/plugins',
+      sharedCount: 5,
+      vencordOnlyCount: 3,
+      equicordOnlyCount: 2,
+    };
+
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(Ok(mockSummary));
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    const reportPath = join(tempDir, 'report.json');
+    await fse.ensureDir(vencordDir);
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+
+    try {
+      await runCli([
+        'node',
+        'cli.js',
+        vencordDir,
+        '--report',
+        reportPath,
+        '--output',
+        join(tempDir, 'output.nix'),
+      ]);
+
+      expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reportPath,
+        })
+      );
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('takes settings from the config file', async () => {
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({ pluginsDir: '/cfg/plugins', sharedCount: 0, vencordOnlyCount: 0, equicordOnlyCount: 0 })
+    );
+    vi.mocked(loadGeneratorConfig).mockResolvedValue(
+      Ok({
+        path: '/cfg/nixcord-gen.config.json',
+        config: {
+          sources: {
+            vencord: { path: '/cfg/vencord', pluginDirectories: { vencord: 'plugins' } },
+            equicord: { path: '/cfg/equicord', label: 'Fork' },
+          },
+          output: {
+            path: '/cfg/modules/plugins.nix',
+            pluginsDir: '/cfg/plugins',
+            filenames: { shared: 'common.json' },
+          },
+          diagnostics: { sarif: '/cfg/diagnostics.sarif' },
+          migrations: { git: false },
+        },
+      })
+    );
+
+    await runCli(['node', 'cli.js', '--config', '/cfg/nixcord-gen.config.json']);
+
+    expect(loadGeneratorConfig).toHaveBeenCalledWith('/cfg/nixcord-gen.config.json');
+    expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        vencordPath: '/cfg/vencord',
+        equicordPath: '/cfg/equicord',
+        outputPath: '/cfg/modules/plugins.nix',
+        pluginsDir: '/cfg/plugins',
+        vencordSource: { vencordPluginsDir: 'plugins' },
+        equicordSource: { label: 'Fork' },
+        filenames: { shared: 'common.json' },
+        sarifPath: '/cfg/diagnostics.sarif',
+        skipGitMigrations: true,
+      })
+    );
+  });
+
+  test('passes repeated --only and --exclude globs to the runner', async () => {
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({ pluginsDir: '/tmp/plugins', sharedCount: 0, vencordOnlyCount: 1, equicordOnlyCount: 0 })
+    );
+
+    await runCli([
+      'node',
+      'cli.js',
+      '--only',
+      'message*',
+      '--only',
+      'betterFolders',
+      '--exclude',
+      'messageLogger',
+    ]);
+
+    expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        only: ['message*', 'betterFolders'],
+        exclude: ['messageLogger'],
+      })
+    );
+  });
+
+  test('passes --nix-modules to the runner', async () => {
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({ pluginsDir: '/tmp/plugins', sharedCount: 0, vencordOnlyCount: 1, equicordOnlyCount: 0 })
+    );
+
+    await runCli(['node', 'cli.js', '--nix-modules']);
+
+    expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ nixModules: true })
+    );
+  });
+
+  test('rejects --update-baseline combined with --only', async () => {
+    await runCli([
+      'node',
+      'cli.js',
+      '--only',
+      'sample',
+      '--baseline',
+      'baseline.json',
+      '--update-baseline',
+    ]);
+
+    expect(runGeneratePluginOptions).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
+  test('lets flags override the config file', async () => {
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({ pluginsDir: '/tmp/plugins', sharedCount: 0, vencordOnlyCount: 0, equicordOnlyCount: 0 })
+    );
+    vi.mocked(loadGeneratorConfig).mockResolvedValue(
+      Ok({
+        path: '/cfg/nixcord-gen.config.json',
+        config: {
+          sources: { vencord: { path: '/cfg/vencord', pluginDirectories: { vencord: 'plugins' } } },
+          output: { path: '/cfg/modules/plugins.nix', pluginsDir: '/cfg/plugins' },
+        },
+      })
+    );
+
+    await runCli([
+      'node',
+      'cli.js',
+      '/flag/vencord',
+      '--output',
+      '/flag/out.nix',
+      '--vencord-plugins',
+      'src/custom',
+    ]);
+
+    const [params] = vi.mocked(runGeneratePluginOptions).mock.calls[0] ?? [];
+    expect(params).toMatchObject({
+      vencordPath: '/flag/vencord',
+      outputPath: '/flag/out.nix',
+      vencordPluginsDir: 'src/custom',
+      vencordSource: {},
+    });
+    expect(params).not.toHaveProperty('pluginsDir');
+  });
 });
 
 describe('CLI Error Handling', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(runGeneratePluginOptions).mockReset();
+    vi.mocked(loadGeneratorConfig).mockResolvedValue(Ok(undefined));
     process.exitCode = undefined;
   });
 
@@ -474,6 +703,166 @@ describe('CLI Error Handling', () => {
     }
   });
 
+  test('exits non-zero when --check finds stale outputs', async () => {
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({
+        pluginsDir: '/tmp/plugins',
+        sharedCount: 5,
+        vencordOnlyCount: 3,
+        equicordOnlyCount: 2,
+        drift: [{ filename: CLI_CONFIG.filenames.shared, status: 'missing', entries: [] }],
+      })
+    );
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+
+    try {
+      await runCli(['node', 'cli.js', vencordDir, '--check']);
+      expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ check: true })
+      );
+      expect(process.exitCode).toBe(1);
+      expect(stderrWrite).toHaveBeenCalledWith(expect.stringContaining('out of date'));
+    } finally {
+      stderrWrite.mockRestore();
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('exits non-zero when --check could not check the migration files', async () => {
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({
+        pluginsDir: '/tmp/plugins',
+        sharedCount: 5,
+        vencordOnlyCount: 3,
+        equicordOnlyCount: 2,
+        drift: [],
+        migrationError: 'Error: not a git repository',
+      })
+    );
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+
+    try {
+      await runCli(['node', 'cli.js', vencordDir, '--check']);
+      expect(process.exitCode).toBe(1);
+      expect(stderrWrite).toHaveBeenCalledWith(expect.stringContaining('were not checked'));
+    } finally {
+      stderrWrite.mockRestore();
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('exits non-zero when diagnostics are missing from the baseline', async () => {
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    vi.mocked(runGeneratePluginOptions).mockResolvedValue(
+      Ok({
+        pluginsDir: '/tmp/plugins',
+        sharedCount: 5,
+        vencordOnlyCount: 3,
+        equicordOnlyCount: 2,
+        newDiagnostics: [
+          {
+            pluginName: 'Sample',
+            kind: 'unsupported-generated-settings-pattern',
+            message: 'Unsupported generated settings pattern',
+          },
+        ],
+      })
+    );
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    const baselinePath = join(tempDir, 'baseline.json');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+
+    try {
+      await runCli([
+        'node',
+        'cli.js',
+        vencordDir,
+        '--baseline',
+        baselinePath,
+        '--output',
+        join(tempDir, 'output.nix'),
+      ]);
+      expect(runGeneratePluginOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ baselinePath, updateBaseline: false })
+      );
+      expect(process.exitCode).toBe(1);
+      expect(stderrWrite).toHaveBeenCalledWith(expect.stringContaining('not in the baseline'));
+    } finally {
+      stderrWrite.mockRestore();
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('rejects --update-baseline without --baseline', async () => {
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+
+    try {
+      await runCli(['node', 'cli.js', vencordDir, '--update-baseline']);
+      expect(runGeneratePluginOptions).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+      expect(stderrWrite).toHaveBeenCalledWith(
+        expect.stringContaining('--update-baseline requires --baseline')
+      );
+    } finally {
+      stderrWrite.mockRestore();
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('runs the watcher instead of a single generation with --watch', async () => {
+    vi.mocked(runWatchGeneratePluginOptions).mockResolvedValue(Ok(undefined));
+
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const vencordDir = join(tempDir, 'vencord');
+    await fse.ensureDir(join(vencordDir, 'src', 'plugins'));
+    await fse.writeFile(join(vencordDir, 'package.json'), '{}');
+
+    try {
+      await runCli(['node', 'cli.js', vencordDir, '--watch']);
+      expect(runGeneratePluginOptions).not.toHaveBeenCalled();
+      expect(runWatchGeneratePluginOptions).toHaveBeenCalledWith(
+        expect.objectContaining({ vencordPath: vencordDir }),
+        expect.any(AbortSignal)
+      );
+      expect(process.exitCode).not.toBe(1);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('rejects --watch combined with --check', async () => {
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    try {
+      await runCli(['node', 'cli.js', '--watch', '--check']);
+      expect(runWatchGeneratePluginOptions).not.toHaveBeenCalled();
+      expect(process.exitCode).toBe(1);
+      expect(stderrWrite).toHaveBeenCalledWith(
+        expect.stringContaining('--watch cannot be combined with --check')
+      );
+    } finally {
+      stderrWrite.mockRestore();
+    }
+  });
+
   test('handleCliError sets exit code for CliExecutionError', () => {
     const error = new CliExecutionError(new Error('Test error'), false);
     handleCliError(error);
@@ -501,10 +890,73 @@ describe('CLI Error Handling', () => {
   });
 });
 
+describe('diff command', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(runDiffPluginSurfaces).mockReset();
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = undefined;
+  });
+
+  const emptyDiff = { addedPlugins: [], removedPlugins: [], changedPlugins: [] };
+
+  test('passes both paths and plugin directories to the diff runner', async () => {
+    vi.mocked(runDiffPluginSurfaces).mockResolvedValue(Ok(emptyDiff));
+    const stdoutWrite = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      await runCli(['node', 'cli.js', 'diff', 'old', 'new', '--vencord-plugins', 'custom/plugins']);
+
+      expect(runDiffPluginSurfaces).toHaveBeenCalledWith({
+        beforePath: 'old',
+        afterPath: 'new',
+        vencordPluginsDir: 'custom/plugins',
+        equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      });
+      expect(stdoutWrite).toHaveBeenCalledWith('No plugin option changes.\n');
+    } finally {
+      stdoutWrite.mockRestore();
+    }
+  });
+
+  test('writes the diff as JSON to --output', async () => {
+    const diff = { ...emptyDiff, addedPlugins: ['fresh'] };
+    vi.mocked(runDiffPluginSurfaces).mockResolvedValue(Ok(diff));
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-cli-'));
+    const outputPath = join(tempDir, 'diff.json');
+
+    try {
+      await runCli(['node', 'cli.js', 'diff', 'old', 'new', '--json', '--output', outputPath]);
+
+      expect(await fse.readJson(outputPath)).toEqual(diff);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('reports diff runner errors', async () => {
+    vi.mocked(runDiffPluginSurfaces).mockResolvedValue(Err(new Error('Diff failed')));
+    const stderrWrite = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    try {
+      await runCli(['node', 'cli.js', 'diff', 'old', 'new']);
+
+      expect(runGeneratePluginOptions).not.toHaveBeenCalled();
+      expect(stderrWrite).toHaveBeenCalledWith(expect.stringContaining('Diff failed'));
+    } finally {
+      stderrWrite.mockRestore();
+    }
+  });
+});
+
 describe('runCli', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(runGeneratePluginOptions).mockReset();
+    vi.mocked(loadGeneratorConfig).mockResolvedValue(Ok(undefined));
   });
 
   test('calls buildCli and parses argv', async () => {
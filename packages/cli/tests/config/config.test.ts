@@ -0,0 +1,143 @@
+import { execFile } from 'node:child_process';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { loadGeneratorConfig } from '../../src/config.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const CLI_ENTRY = join(__dirname, '../../dist/index.js');
+
+describe('loadGeneratorConfig()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'config-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('resolves to undefined when no config file exists', async () => {
+    await expect(loadGeneratorConfig(undefined, tempDir)).resolves.toEqual({
+      ok: true,
+      value: undefined,
+    });
+  });
+
+  test('discovers a JSON config and resolves paths against its directory', async () => {
+    const configPath = join(tempDir, 'nixcord-gen.config.json');
+    await fse.writeJson(configPath, {
+      sources: { vencord: { path: 'vendor/vencord', pluginDirectories: { vencord: 'plugins' } } },
+      output: {
+        path: 'modules/plugins.nix',
+        filenames: { shared: 'common.json' },
+        markdown: 'docs/plugins',
+      },
+      diagnostics: { baseline: 'diagnostics-baseline.json' },
+      migrations: { git: false },
+    });
+
+    await expect(loadGeneratorConfig(undefined, tempDir)).resolves.toEqual({
+      ok: true,
+      value: {
+        path: configPath,
+        config: {
+          sources: {
+            vencord: {
+              path: join(tempDir, 'vendor/vencord'),
+              pluginDirectories: { vencord: 'plugins' },
+            },
+            equicord: undefined,
+          },
+          output: {
+            path: join(tempDir, 'modules/plugins.nix'),
+            pluginsDir: undefined,
+            report: undefined,
+            markdown: join(tempDir, 'docs/plugins'),
+            filenames: { shared: 'common.json' },
+          },
+          diagnostics: { baseline: join(tempDir, 'diagnostics-baseline.json'), sarif: undefined },
+          migrations: { git: false },
+        },
+      },
+    });
+  });
+
+  test('prefers a JavaScript module config and uses its default export', async () => {
+    await fse.writeJson(join(tempDir, 'nixcord-gen.config.json'), { output: { path: 'json.nix' } });
+    await fse.writeFile(
+      join(tempDir, 'nixcord-gen.config.mjs'),
+      "export default { output: { path: 'mjs.nix' } };\n"
+    );
+
+    const result = await loadGeneratorConfig(undefined, tempDir);
+
+    expect(result.ok && result.value?.config.output?.path).toBe(join(tempDir, 'mjs.nix'));
+  });
+
+  test('rejects a TypeScript config', async () => {
+    const configPath = join(tempDir, 'nixcord-gen.config.ts');
+    await fse.writeFile(configPath, "export default { output: { path: 'ts.nix' } };\n");
+
+    const result = await loadGeneratorConfig(configPath, tempDir);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toBe(
+        `Unsupported config file ${configPath}: use a .json, .js or .mjs file`
+      );
+    }
+  });
+
+  // Vitest transpiles TypeScript on import, so only the built CLI under Node shows what ships
+  test.skipIf(!fse.pathExistsSync(CLI_ENTRY))(
+    'the built CLI under Node ignores a stray TypeScript config and rejects an explicit one',
+    async () => {
+      await fse.writeFile(
+        join(tempDir, 'nixcord-gen.config.ts'),
+        "const path: string = 'ts.nix';\nexport default { output: { path } };\n"
+      );
+      const jsonPath = join(tempDir, 'nixcord-gen.config.json');
+      await fse.writeJson(jsonPath, { output: { pth: 'json.nix' } });
+      // The entry does not run the CLI when it sees the test environment
+      const { VITEST: _, NODE_ENV: __, ...env } = process.env;
+      const runCli = (args: string[]) =>
+        promisify(execFile)('node', [CLI_ENTRY, ...args], { cwd: tempDir, env }).then(
+          () => '',
+          (error: { stdout: string; stderr: string }) => `${error.stdout}${error.stderr}`
+        );
+
+      await expect(runCli([])).resolves.toContain(`Invalid config file ${jsonPath}`);
+      await expect(runCli(['--config', 'nixcord-gen.config.ts'])).resolves.toContain(
+        'Unsupported config file'
+      );
+    },
+    30_000
+  );
+
+  test('rejects unknown keys', async () => {
+    const configPath = join(tempDir, 'custom.json');
+    await fse.writeJson(configPath, { output: { pth: 'modules/plugins.nix' } });
+
+    const result = await loadGeneratorConfig(configPath, tempDir);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toContain(`Invalid config file ${configPath}`);
+      expect(result.error.message).toContain('pth');
+    }
+  });
+
+  test('fails when an explicit config file is missing', async () => {
+    const result = await loadGeneratorConfig('missing.json', tempDir);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toBe(`Config file not found: ${join(tempDir, 'missing.json')}`);
+    }
+  });
+});
@@ -0,0 +1,222 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CLI_CONFIG } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { formatPluginSurfaceDiff, runDiffPluginSurfaces } from '../../src/diff/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const writeGenerated = async (dir: string, files: Record<string, unknown>): Promise<void> => {
+  await fse.ensureDir(dir);
+  for (const [filename, contents] of Object.entries(files)) {
+    await fse.writeFile(join(dir, filename), `${JSON.stringify(contents, null, 2)}\n`);
+  }
+};
+
+const writeSourcePlugin = async (
+  root: string,
+  pluginsDir: string,
+  name: string,
+  settings: string
+): Promise<void> => {
+  const pluginDir = join(root, pluginsDir, name);
+  await fse.ensureDir(pluginDir);
+  await fse.writeFile(join(root, 'package.json'), '{}');
+  await fse.writeFile(
+    join(pluginDir, 'index.ts'),
+    `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+     const settings = definePluginSettings(${settings});
+     export default definePlugin({ name: "${name}", description: "${name}", settings });`
+  );
+};
+
+describe('runDiffPluginSurfaces()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'test-diff-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  const params = (beforePath: string, afterPath: string) => ({
+    beforePath,
+    afterPath,
+    vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+    equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+  });
+
+  test('reports plugin, setting, type, enum and default changes between generated directories', async () => {
+    const before = join(tempDir, 'before');
+    const after = join(tempDir, 'after');
+    await writeGenerated(before, {
+      [CLI_CONFIG.filenames.shared]: {
+        kept: {
+          description: 'Kept',
+          settings: {
+            mode: { type: 'types.enum', enumValues: ['a', 'b'], default: 'a' },
+            size: { type: 'types.int', default: 1 },
+            old: { type: 'types.bool', default: false },
+            nested: { description: '', settings: { inner: { type: 'types.str', default: 'x' } } },
+          },
+        },
+        gone: { description: 'Gone', settings: {} },
+      },
+    });
+    await writeGenerated(after, {
+      [CLI_CONFIG.filenames.shared]: {
+        kept: {
+          description: 'Kept, reworded',
+          settings: {
+            mode: { type: 'types.enum', enumValues: ['a', 'c'], default: 'c' },
+            size: { type: 'types.float', default: { __nixRaw: '1.0' } },
+            fresh: { type: 'types.str' },
+            nested: { description: '', settings: { inner: { type: 'types.str', default: 'x' } } },
+          },
+        },
+      },
+      [CLI_CONFIG.filenames.equicord]: { added: { description: 'Added', settings: {} } },
+    });
+
+    const result = await runDiffPluginSurfaces(params(before, after));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toEqual({
+      addedPlugins: ['added'],
+      removedPlugins: ['gone'],
+      changedPlugins: [
+        {
+          plugin: 'kept',
+          addedSettings: ['fresh'],
+          removedSettings: ['old'],
+          changes: [
+            { setting: 'mode', kind: 'enumValues', added: ['c'], removed: ['b'] },
+            { setting: 'mode', kind: 'default', before: 'a', after: 'c' },
+            { setting: 'size', kind: 'type', before: 'types.int', after: 'types.float' },
+            { setting: 'size', kind: 'default', before: 1, after: { __nixRaw: '1.0' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('does not report plugins that only moved between categories', async () => {
+    const plugin = { description: 'Moved', settings: { flag: { type: 'types.bool' } } };
+    const before = join(tempDir, 'before');
+    const after = join(tempDir, 'after');
+    await writeGenerated(before, { [CLI_CONFIG.filenames.shared]: { moved: plugin } });
+    await writeGenerated(after, {
+      [CLI_CONFIG.filenames.vencord]: { moved: plugin },
+      [CLI_CONFIG.filenames.equicord]: { moved: plugin },
+    });
+
+    const result = await runDiffPluginSurfaces(params(before, after));
+
+    expect(result.ok && formatPluginSurfaceDiff(result.value)).toBe('No plugin option changes.\n');
+  });
+
+  test('parses source trees with parsePlugins', async () => {
+    const before = join(tempDir, 'before');
+    const after = join(tempDir, 'after');
+    await writeSourcePlugin(
+      before,
+      CLI_CONFIG.directories.vencordPlugins,
+      'Sample',
+      '{ enabled: { type: OptionType.BOOLEAN, description: "Enabled", default: true } }'
+    );
+    await writeSourcePlugin(
+      after,
+      CLI_CONFIG.directories.vencordPlugins,
+      'Sample',
+      '{ enabled: { type: OptionType.BOOLEAN, description: "Enabled", default: false } }'
+    );
+    await writeSourcePlugin(
+      after,
+      CLI_CONFIG.directories.equicordPlugins,
+      'Extra',
+      '{ name: { type: OptionType.STRING, description: "Name", default: "x" } }'
+    );
+
+    const result = await runDiffPluginSurfaces(params(before, after));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.addedPlugins).toEqual(['extra']);
+    expect(result.value.changedPlugins).toEqual([
+      {
+        plugin: 'sample',
+        addedSettings: [],
+        removedSettings: [],
+        changes: [{ setting: 'enabled', kind: 'default', before: true, after: false }],
+      },
+    ]);
+  });
+
+  test('refuses to compare a source tree with a generated directory', async () => {
+    const source = join(tempDir, 'source');
+    const generated = join(tempDir, 'generated');
+    await fse.ensureDir(source);
+    await fse.writeFile(join(source, 'package.json'), '{}');
+    await writeGenerated(generated, { [CLI_CONFIG.filenames.shared]: {} });
+
+    const result = await runDiffPluginSurfaces(params(source, generated));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.message).toContain('Cannot compare a source directory');
+  });
+
+  test('fails for directories that are neither source trees nor generated output', async () => {
+    const result = await runDiffPluginSurfaces(params(tempDir, tempDir));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.message).toContain('Not a Vencord/Equicord source tree');
+  });
+});
+
+describe('formatPluginSurfaceDiff()', () => {
+  test('renders a Markdown changelog', () => {
+    const markdown = formatPluginSurfaceDiff({
+      addedPlugins: ['added'],
+      removedPlugins: [],
+      changedPlugins: [
+        {
+          plugin: 'kept',
+          addedSettings: ['fresh'],
+          removedSettings: ['old'],
+          changes: [
+            { setting: 'mode', kind: 'enumValues', added: ['c'], removed: ['b'] },
+            { setting: 'size', kind: 'type', before: 'types.int', after: 'types.float' },
+            { setting: 'size', kind: 'default', before: 1, after: { __nixRaw: '1.0' } },
+            { setting: 'name', kind: 'default', before: 'x' },
+          ],
+        },
+      ],
+    });
+
+    expect(markdown).toBe(
+      [
+        '### Added plugins',
+        '',
+        '- `added`',
+        '',
+        '### Changed plugins',
+        '',
+        '- `kept`',
+        '  - added `fresh`',
+        '  - removed `old`',
+        '  - `mode`: enum values added `"c"`; removed `"b"`',
+        '  - `size`: type `types.int` → `types.float`',
+        '  - `size`: default `1` → `1.0`',
+        '  - `name`: default `"x"` → (none)',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CLI_CONFIG } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { describe, expect, test } from 'vitest';
+import { diffSettings, formatSettingsDrift, runSettingsDrift } from '../../src/drift/index.js';
+import { formatSettingsImport } from '../../src/import-settings/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const surface = {
+  customRpc: {
+    description: 'Custom RPC',
+    settings: {
+      appId: { type: 'types.str', default: '' },
+      showTime: { type: 'types.bool', default: true },
+    },
+  },
+  oneko: { description: 'cat', settings: {} },
+};
+
+const rules = {
+  pluginRenames: { customRpc: 'CustomRPC' },
+  settingRenames: { customRpc: { appId: 'appID' } },
+};
+
+describe('diffSettings()', () => {
+  test('reports toggled plugins and changed settings, ignoring untouched defaults', () => {
+    const drift = diffSettings(
+      {
+        useQuickCSS: true,
+        plugins: {
+          CustomRPC: { enabled: true, appID: '1234' },
+          oneko: { enabled: false },
+        },
+      },
+      {
+        useQuickCSS: false,
+        cloud: { authenticated: true },
+        plugins: {
+          CustomRPC: { enabled: true, appID: '5678', showTime: true },
+          oneko: { enabled: true },
+          BetterFolders: { enabled: false },
+        },
+      },
+      surface,
+      rules
+    );
+
+    expect(drift.toggledPlugins).toEqual([{ plugin: 'oneko', enabled: true }]);
+    expect(drift.changedSettings).toEqual([
+      { path: 'plugins.CustomRPC.appID', declared: '1234', live: '5678' },
+      { path: 'useQuickCSS', declared: true, live: false },
+    ]);
+    expect(formatSettingsDrift(drift)).toBe(
+      [
+        'Toggled plugins:',
+        '  oneko: enabled',
+        'Changed settings:',
+        '  plugins.CustomRPC.appID: "1234" -> "5678"',
+        '  useQuickCSS: true -> false',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('renders the drift as Nixcord configuration, including values equal to defaults', () => {
+    const drift = diffSettings(
+      { plugins: { CustomRPC: { enabled: true, showTime: false } } },
+      { plugins: { CustomRPC: { enabled: false, showTime: true } } },
+      surface,
+      rules
+    );
+
+    expect(formatSettingsImport(drift.changes)).toBe(
+      [
+        '{',
+        '  programs = {',
+        '    nixcord = {',
+        '      config = {',
+        '        plugins = {',
+        '          customRpc = {',
+        '            enable = false;',
+        '            showTime = true;',
+        '          };',
+        '        };',
+        '      };',
+        '    };',
+        '  };',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('reports no drift for identical files', () => {
+    const settings = { plugins: { oneko: { enabled: true } } };
+
+    expect(formatSettingsDrift(diffSettings(settings, settings, surface, rules))).toBe(
+      'No changes from the declarative configuration.\n'
+    );
+  });
+});
+
+describe('runSettingsDrift()', () => {
+  test('fails when a settings file is missing', async () => {
+    const pluginsDir = await fse.mkdtemp(join(__dirname, 'test-drift-'));
+    try {
+      await fse.writeJson(join(pluginsDir, CLI_CONFIG.filenames.shared), surface);
+      const result = await runSettingsDrift({
+        livePath: join(pluginsDir, 'live.json'),
+        declaredPath: join(pluginsDir, 'declared.json'),
+        pluginsDir,
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe(
+          `Settings file not found: ${join(pluginsDir, 'live.json')}`
+        );
+      }
+    } finally {
+      await fse.remove(pluginsDir);
+    }
+  });
+});
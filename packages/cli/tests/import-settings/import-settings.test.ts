@@ -0,0 +1,233 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fse from 'fs-extra';
+import { describe, expect, test } from 'vitest';
+import {
+  formatSettingsImport,
+  importSettings,
+  runImportSettings,
+} from '../../src/import-settings/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const surface = {
+  customRpc: {
+    description: 'Custom RPC',
+    settings: {
+      appId: { type: 'types.str', default: '' },
+      refreshInterval: { type: 'types.float', default: { __nixRaw: '5.0' } },
+      activityType: { type: 'types.enum', enumValues: [0, 2], default: 0 },
+      showTime: { type: 'types.bool', default: true },
+      partyIds: { type: 'types.listOf types.int', default: [] },
+    },
+  },
+  oneko: { description: 'cat', settings: {} },
+  noTrack: { description: 'No tracking', enabledByDefault: true, settings: {} },
+};
+
+const rules = {
+  pluginRenames: { customRpc: 'CustomRPC' },
+  settingRenames: { customRpc: { appId: 'appID' } },
+};
+
+describe('importSettings()', () => {
+  test('maps upstream names and drops values equal to the defaults', () => {
+    const imported = importSettings(
+      {
+        useQuickCSS: true,
+        themeLinks: [],
+        uiElements: { chatBarButtons: { MessageLatency: { enabled: false } } },
+        plugins: {
+          CustomRPC: {
+            enabled: true,
+            appID: '1234',
+            refreshInterval: 10,
+            partyIds: ['123456789012345678', 2],
+            activityType: 0,
+            showTime: true,
+          },
+          oneko: { enabled: true },
+          BetterFolders: { enabled: false, sidebar: false },
+        },
+      },
+      surface,
+      rules
+    );
+
+    expect(imported).toEqual({
+      config: {
+        useQuickCss: true,
+        uiElements: { chatBarButtons: { MessageLatency: { enable: false } } },
+        plugins: {
+          customRpc: {
+            enable: true,
+            appId: '1234',
+            refreshInterval: { __nixRaw: '10.0' },
+            partyIds: [{ __nixRaw: '123456789012345678' }, 2],
+          },
+          oneko: { enable: true },
+        },
+      },
+      extraConfig: {},
+      unrepresentable: [],
+    });
+  });
+
+  test('keeps disabling plugins the client enables by default', () => {
+    const imported = importSettings(
+      {
+        plugins: {
+          NoTrack: { enabled: false, disableAnalytics: false },
+          oneko: { enabled: false },
+        },
+      },
+      surface,
+      rules
+    );
+
+    expect(imported.config).toEqual({ plugins: { noTrack: { enable: false } } });
+    expect(imported.unrepresentable).toEqual([]);
+  });
+
+  test('keeps settings without a Nixcord option under extraConfig', () => {
+    const imported = importSettings(
+      {
+        winCtrlQ: true,
+        plugins: {
+          CustomRPC: { enabled: true, activityType: 3, unknown: 'x', partyIds: ['1', 'x'] },
+          Mystery: { enabled: true, value: 1 },
+        },
+      },
+      surface,
+      rules
+    );
+
+    expect(imported.config).toEqual({ plugins: { customRpc: { enable: true } } });
+    expect(imported.extraConfig).toEqual({
+      winCtrlQ: true,
+      plugins: {
+        CustomRPC: { activityType: 3, unknown: 'x', partyIds: ['1', 'x'] },
+        Mystery: { enabled: true, value: 1 },
+      },
+    });
+    expect(imported.unrepresentable).toEqual([
+      { path: 'winCtrlQ', reason: 'no matching Nixcord option' },
+      { path: 'plugins.CustomRPC.activityType', reason: 'value does not match types.enum' },
+      { path: 'plugins.CustomRPC.unknown', reason: 'no matching Nixcord option' },
+      { path: 'plugins.CustomRPC.partyIds', reason: 'value does not match types.listOf types.int' },
+      { path: 'plugins.Mystery', reason: 'no matching Nixcord plugin' },
+    ]);
+  });
+});
+
+describe('formatSettingsImport()', () => {
+  test('renders a programs.nixcord snippet', () => {
+    const imported = importSettings(
+      {
+        settings: { plugins: { CustomRPC: { enabled: true, appID: 'say "${hi}"' } } },
+        quickCss: 'a {}\nb {}',
+      },
+      surface,
+      rules
+    );
+
+    expect(formatSettingsImport(imported)).toBe(
+      [
+        '{',
+        '  programs = {',
+        '    nixcord = {',
+        "      quickCss = ''",
+        '        a {}',
+        "        b {}'';",
+        '      config = {',
+        '        plugins = {',
+        '          customRpc = {',
+        '            enable = true;',
+        '            appId = "say \\"\\${hi}\\"";',
+        '          };',
+        '        };',
+        '      };',
+        '    };',
+        '  };',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('writes strings an indented string would alter as double-quoted literals', () => {
+    const render = (quickCss: string) =>
+      formatSettingsImport({ config: {}, extraConfig: {}, quickCss, unrepresentable: [] });
+
+    expect(render('  a {}\n  b {}')).toContain('quickCss = "  a {}\\n  b {}";');
+    expect(render('a {\n\tcolor: red;\n}')).toContain('quickCss = "a {\\n\\tcolor: red;\\n}";');
+    expect(render('a {}\nb {}\n')).toContain("quickCss = ''\n        a {}\n        b {}\n'';");
+  });
+
+  test('writes floats as valid Nix literals', () => {
+    const imported = importSettings(
+      { plugins: { CustomRPC: { enabled: true, refreshInterval: 1e-7 } } },
+      surface,
+      rules
+    );
+    expect(formatSettingsImport(imported)).toContain('refreshInterval = 1.0e-7;');
+
+    const large = importSettings(
+      { plugins: { CustomRPC: { enabled: true, refreshInterval: 1e21 } } },
+      surface,
+      rules
+    );
+    expect(formatSettingsImport(large)).toContain('refreshInterval = 1.0e+21;');
+  });
+});
+
+describe('runImportSettings()', () => {
+  test('reads the settings file and the generated plugin options', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'import-'));
+    try {
+      await fse.outputJson(join(tempDir, 'plugins', 'shared.json'), surface);
+      await fse.outputJson(join(tempDir, 'plugins', 'parse-rules.json'), rules);
+      await fse.outputJson(join(tempDir, 'settings.json'), {
+        plugins: { CustomRPC: { enabled: true, showTime: false } },
+      });
+
+      const result = await runImportSettings({
+        settingsPath: join(tempDir, 'settings.json'),
+        pluginsDir: join(tempDir, 'plugins'),
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        value: {
+          config: { plugins: { customRpc: { enable: true, showTime: false } } },
+          extraConfig: {},
+          unrepresentable: [],
+        },
+      });
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('fails when no generated plugin options are found', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'import-'));
+    try {
+      await fse.outputJson(join(tempDir, 'settings.json'), { plugins: {} });
+
+      const result = await runImportSettings({
+        settingsPath: join(tempDir, 'settings.json'),
+        pluginsDir: join(tempDir, 'plugins'),
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.message).toBe(
+          `No generated plugin options found in ${join(tempDir, 'plugins')}`
+        );
+      }
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+});
@@ -155,7 +155,7 @@ describe('CLI File Operations', () => {
           settings: {
             enable: {
               name: 'enable',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
             },
           },
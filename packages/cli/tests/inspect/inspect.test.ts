@@ -0,0 +1,129 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { formatPluginInspection, runInspectPlugin } from '../../src/inspect/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('runInspectPlugin()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'test-inspect-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  const writePlugin = async (): Promise<string> => {
+    const pluginDir = join(tempDir, 'src', 'plugins', 'sample');
+    await fse.ensureDir(pluginDir);
+    await fse.writeFile(join(tempDir, 'package.json'), '{}');
+    await fse.writeFile(
+      join(pluginDir, 'index.ts'),
+      `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+       const settings = definePluginSettings({
+         enabled: { type: OptionType.BOOLEAN, description: "Enabled", default: true },
+       });
+       export default definePlugin({ name: "Sample", description: "Sample plugin", settings });`
+    );
+    return pluginDir;
+  };
+
+  test('finds the source tree above the plugin directory', async () => {
+    const pluginDir = await writePlugin();
+
+    const result = await runInspectPlugin({ pluginPath: pluginDir });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.sourcePath).toBe(tempDir);
+    expect(result.value.plugin?.name).toBe('Sample');
+    expect(result.value.settingOrigins).toMatchObject([
+      { key: 'enabled', line: 3, extractor: 'object-literal-settings' },
+    ]);
+  });
+
+  test('fails for a missing plugin directory', async () => {
+    const result = await runInspectPlugin({
+      pluginPath: join(tempDir, 'missing'),
+      sourcePath: tempDir,
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.message).toContain('Plugin directory not found');
+  });
+});
+
+describe('formatPluginInspection()', () => {
+  test('renders settings with their source locations and diagnostics', () => {
+    const output = formatPluginInspection({
+      pluginPath: '/src/vencord/src/plugins/sample',
+      sourcePath: '/src/vencord',
+      plugin: {
+        name: 'Sample',
+        description: 'Sample plugin',
+        settings: {
+          mode: {
+            name: 'mode',
+            type: { kind: 'enum' },
+            default: 'a',
+            enumValues: ['a', 'b'],
+            description: 'Mode',
+          },
+          group: {
+            name: 'group',
+            settings: { inner: { name: 'inner', type: { kind: 'str' } } },
+          },
+        },
+      },
+      settingOrigins: [
+        {
+          key: 'mode',
+          filePath: '/src/vencord/src/plugins/sample/settings.ts',
+          line: 4,
+          extractor: 'object-literal-settings',
+        },
+        {
+          key: 'group.inner',
+          filePath: '/src/vencord/src/plugins/sample/settings.ts',
+          line: 9,
+          extractor: 'object-literal-settings',
+        },
+      ],
+      diagnostics: [
+        {
+          pluginName: 'Sample',
+          filePath: '/src/vencord/src/plugins/sample/settings.ts',
+          kind: 'hidden-setting-skipped',
+          message: 'Skipped hidden setting "secret"',
+        },
+      ],
+    });
+
+    expect(output).toBe(
+      [
+        'Sample (src/plugins/sample)',
+        '  description: Sample plugin',
+        '  settings:',
+        '    mode:',
+        '      type: types.enum',
+        '      default: "a"',
+        '      enum values: "a", "b"',
+        '      description: Mode',
+        '      source: src/plugins/sample/settings.ts:4 (object-literal-settings)',
+        '    group:',
+        '      inner:',
+        '        type: types.str',
+        '        source: src/plugins/sample/settings.ts:9 (object-literal-settings)',
+        '  diagnostics:',
+        '    - hidden-setting-skipped: Skipped hidden setting "secret" [src/plugins/sample/settings.ts]',
+        '',
+      ].join('\n')
+    );
+  });
+});
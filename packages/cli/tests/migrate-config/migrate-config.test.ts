@@ -0,0 +1,147 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { migrateNixConfig, runMigrateConfig } from '../../src/migrate-config/index.js';
+import { scanNixBindings } from '../../src/migrate-config/nix-bindings.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const migrations = {
+  renames: [
+    { from: ['oldRpc', 'enable'], to: ['richPresence', 'enable'], warn: false },
+    { from: ['oldRpc', 'appId'], to: ['richPresence', 'appId'], warn: false },
+    { from: ['declutter', 'removeDms'], to: ['declutter', 'removeDM'], warn: true },
+    { from: ['mover', 'flat'], to: ['mover', 'group', 'flat'], warn: true },
+  ],
+  identifierRenames: [
+    { from: ['AutoDNDWhilePlaying', 'enable'], to: ['autoDndWhilePlaying', 'enable'], warn: true },
+  ],
+  removals: ['gone'],
+};
+
+describe('scanNixBindings()', () => {
+  test('tracks nested paths and skips let bindings, patterns, strings and comments', () => {
+    const source = `{ pkgs, ... }:
+let
+  plugins = { ignored = true; };
+in
+{
+  # programs.nixcord.fake = 1;
+  programs.nixcord = lib.mkIf true {
+    config."plugins" = with pkgs; {
+      css = ''
+        a { b = c; }
+      '';
+      \${name}.enable = true;
+    };
+  };
+}
+`;
+
+    expect(scanNixBindings(source).map((binding) => binding.path)).toEqual([
+      ['programs', 'nixcord', 'config', 'plugins', 'css'],
+      ['programs', 'nixcord', 'config', 'plugins', undefined, 'enable'],
+      ['programs', 'nixcord', 'config', 'plugins'],
+      ['programs', 'nixcord'],
+    ]);
+  });
+});
+
+describe('migrateNixConfig()', () => {
+  test('renames plugins and settings in place and removes removed plugins', () => {
+    const source = `{
+  programs.nixcord.config.plugins = {
+    # keep this comment
+    oldRpc = {
+      enable = true;
+      appId = "123"; # and this one
+    };
+    declutter.removeDms = true;
+    AutoDNDWhilePlaying.enable = true;
+    gone = {
+      enable = true;
+    };
+    other.enable = true; gone.enable = false;
+  };
+  home-manager.users.me.programs.nixcord.config.plugins.oldRpc.enable = true;
+}
+`;
+
+    const migration = migrateNixConfig(source, migrations);
+
+    expect(migration.contents).toBe(`{
+  programs.nixcord.config.plugins = {
+    # keep this comment
+    richPresence = {
+      enable = true;
+      appId = "123"; # and this one
+    };
+    declutter.removeDM = true;
+    autoDndWhilePlaying.enable = true;
+    other.enable = true;
+  };
+  home-manager.users.me.programs.nixcord.config.plugins.richPresence.enable = true;
+}
+`);
+    expect(migration.changes).toEqual([
+      { kind: 'rename', from: 'plugins.oldRpc', to: 'plugins.richPresence' },
+      { kind: 'rename', from: 'plugins.declutter.removeDms', to: 'plugins.declutter.removeDM' },
+      {
+        kind: 'rename',
+        from: 'plugins.AutoDNDWhilePlaying.enable',
+        to: 'plugins.autoDndWhilePlaying.enable',
+      },
+      { kind: 'removal', path: 'plugins.gone' },
+      { kind: 'removal', path: 'plugins.gone.enable' },
+      {
+        kind: 'rename',
+        from: 'plugins.oldRpc.enable',
+        to: 'plugins.richPresence.enable',
+      },
+    ]);
+    expect(migration.warnings).toEqual([]);
+  });
+
+  test('reports migrations that change the shape of a path instead of applying them', () => {
+    const source = '{ programs.nixcord.config.plugins.mover.flat = 1; }\n';
+
+    const migration = migrateNixConfig(source, migrations);
+
+    expect(migration.contents).toBe(source);
+    expect(migration.warnings).toEqual([
+      'plugins.mover.flat was moved to plugins.mover.group.flat; update it by hand',
+    ]);
+  });
+});
+
+describe('runMigrateConfig()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'test-migrate-config-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('rewrites the file unless it is a dry run', async () => {
+    const configPath = join(tempDir, 'nixcord.nix');
+    const migrationsPath = join(tempDir, 'migrations.json');
+    await fse.writeFile(configPath, '{ programs.nixcord.config.plugins.oldRpc.enable = true; }\n');
+    await fse.writeJson(migrationsPath, migrations);
+
+    const dryRun = await runMigrateConfig({ configPath, migrationsPath, dryRun: true });
+    expect(dryRun.ok && dryRun.value.contents).toBe(
+      '{ programs.nixcord.config.plugins.richPresence.enable = true; }\n'
+    );
+    expect(await fse.readFile(configPath, 'utf8')).toContain('oldRpc');
+
+    await runMigrateConfig({ configPath, migrationsPath });
+    expect(await fse.readFile(configPath, 'utf8')).toBe(
+      '{ programs.nixcord.config.plugins.richPresence.enable = true; }\n'
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { ParseDiagnostic } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { findNewDiagnostics, writeDiagnosticsBaseline } from '../../src/runner/baseline.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const customWithoutDefault: ParseDiagnostic = {
+  pluginName: 'Sample',
+  filePath: '/src/vencord/src/plugins/sample/index.ts',
+  kind: 'custom-setting-without-default',
+  message: 'Custom setting has no default setting "colors"',
+  settingKey: 'colors',
+};
+
+const unsupportedPattern: ParseDiagnostic = {
+  pluginName: 'Other',
+  filePath: '/src/vencord/src/plugins/other/index.ts',
+  kind: 'unsupported-generated-settings-pattern',
+  message: 'Unsupported generated settings pattern',
+};
+
+describe('diagnostics baseline', () => {
+  let tempDir: string;
+  let baselinePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'baseline-'));
+    baselinePath = join(tempDir, 'baseline.json');
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('writes sorted, deduplicated entries keyed by kind, plugin and setting', async () => {
+    await writeDiagnosticsBaseline(baselinePath, [
+      unsupportedPattern,
+      customWithoutDefault,
+      customWithoutDefault,
+    ]);
+
+    await expect(fse.readJson(baselinePath)).resolves.toEqual({
+      version: 1,
+      diagnostics: [
+        { kind: 'custom-setting-without-default', plugin: 'Sample', setting: 'colors' },
+        { kind: 'unsupported-generated-settings-pattern', plugin: 'Other' },
+      ],
+    });
+  });
+
+  test('reports only diagnostics missing from the baseline, ignoring message changes', async () => {
+    await writeDiagnosticsBaseline(baselinePath, [customWithoutDefault]);
+
+    const newDiagnostics = await findNewDiagnostics(baselinePath, [
+      { ...customWithoutDefault, message: 'Reworded message' },
+      { ...customWithoutDefault, settingKey: 'size' },
+      unsupportedPattern,
+    ]);
+
+    expect(newDiagnostics).toEqual([
+      { ...customWithoutDefault, settingKey: 'size' },
+      unsupportedPattern,
+    ]);
+  });
+
+  test('fails when the baseline file does not exist', async () => {
+    await expect(findNewDiagnostics(baselinePath, [])).rejects.toThrow(
+      'rerun with --update-baseline'
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { mergeUnselectedPlugins } from '../../src/runner/partial.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+describe('mergeUnselectedPlugins()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'partial-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('keeps unselected plugins and moves regenerated ones between files', async () => {
+    await fse.outputJson(join(tempDir, 'shared.json'), {
+      alpha: { description: 'old alpha' },
+      moved: { description: 'old shared copy' },
+    });
+    await fse.outputJson(join(tempDir, 'vencord.json'), { zeta: { description: 'zeta' } });
+
+    const merged = await mergeUnselectedPlugins(
+      tempDir,
+      [
+        { filename: 'shared.json', contents: json({ alpha: { description: 'new alpha' } }) },
+        { filename: 'vencord.json', contents: json({ moved: { description: 'now vencord' } }) },
+        { filename: 'equicord.json', contents: json({}) },
+        { filename: 'parse-rules.json', contents: json({ upperNames: [] }) },
+      ],
+      ['shared.json', 'vencord.json', 'equicord.json']
+    );
+
+    expect(merged).toEqual([
+      { filename: 'shared.json', contents: json({ alpha: { description: 'new alpha' } }) },
+      {
+        filename: 'vencord.json',
+        contents: json({ moved: { description: 'now vencord' }, zeta: { description: 'zeta' } }),
+      },
+      { filename: 'equicord.json', contents: json({}) },
+    ]);
+  });
+});
@@ -18,8 +18,14 @@ const mocks = vi.hoisted(() => ({
     return `${label}:${Object.keys(plugins).join(',')}`;
   }),
   generateParseRulesModule: vi.fn(() => 'rules'),
+  generateDependencyGraphModule: vi.fn(() => 'dependencies'),
+  generatePluginJsonSchemaModule: vi.fn(() => 'schema'),
+  generatePluginTypesModule: vi.fn(() => 'types'),
+  generatePluginMarkdown: vi.fn((_plugins: unknown, category: string) => `# ${category}\n`),
   generateMigrationsJson: vi.fn(() => '{"renames":[],"removals":[]}'),
   updateDeprecatedPlugins: vi.fn(async () => ({ renames: {}, removals: {}, settingRenames: {} })),
+  mergeDeprecatedPlugins: vi.fn(async () => ({ renames: {}, removals: {}, settingRenames: {} })),
+  generateDeprecatedJson: vi.fn(() => 'deprecated'),
   oraPromise: vi.fn((promise: Promise<unknown>) => promise),
 }));
 
@@ -32,8 +38,14 @@ vi.mock('@nixcord/parser', () => ({
 vi.mock('@nixcord/nix-generator', () => ({
   generatePluginModule: mocks.generatePluginModule,
   generateParseRulesModule: mocks.generateParseRulesModule,
+  generateDependencyGraphModule: mocks.generateDependencyGraphModule,
+  generatePluginJsonSchemaModule: mocks.generatePluginJsonSchemaModule,
+  generatePluginTypesModule: mocks.generatePluginTypesModule,
+  generatePluginMarkdown: mocks.generatePluginMarkdown,
   generateMigrationsJson: mocks.generateMigrationsJson,
   updateDeprecatedPlugins: mocks.updateDeprecatedPlugins,
+  mergeDeprecatedPlugins: mocks.mergeDeprecatedPlugins,
+  generateDeprecatedJson: mocks.generateDeprecatedJson,
   toNixIdentifier: (name: string) => name,
 }));
 
@@ -134,12 +146,18 @@ describe('runGeneratePluginOptions', () => {
     const vencordPath = join(pluginsDir, CLI_CONFIG.filenames.vencord);
     const equicordPath = join(pluginsDir, CLI_CONFIG.filenames.equicord);
     const parseRulesPath = join(pluginsDir, CLI_CONFIG.filenames.parseRules);
+    const dependenciesPath = join(pluginsDir, CLI_CONFIG.filenames.dependencies);
+    const jsonSchemaPath = join(pluginsDir, CLI_CONFIG.filenames.jsonSchema);
+    const typeDeclarationsPath = join(pluginsDir, CLI_CONFIG.filenames.typeDeclarations);
     const migrationsPath = join(pluginsDir, CLI_CONFIG.filenames.migrations);
 
     await expect(fse.readFile(sharedPath, 'utf8')).resolves.toBe('shared:Shared');
     await expect(fse.readFile(vencordPath, 'utf8')).resolves.toBe('vencord:SoloV');
     await expect(fse.readFile(equicordPath, 'utf8')).resolves.toBe('equicord:SoloE');
     await expect(fse.readFile(parseRulesPath, 'utf8')).resolves.toBe('rules');
+    await expect(fse.readFile(dependenciesPath, 'utf8')).resolves.toBe('dependencies');
+    await expect(fse.readFile(jsonSchemaPath, 'utf8')).resolves.toBe('schema');
+    await expect(fse.readFile(typeDeclarationsPath, 'utf8')).resolves.toBe('types');
     await expect(fse.readFile(migrationsPath, 'utf8')).resolves.toBe(
       '{"renames":[],"removals":[]}'
     );
@@ -244,6 +262,350 @@ describe('runGeneratePluginOptions', () => {
     });
   });
 
+  test('writes a JSON run report when a report path is given', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    const diagnostic = {
+      pluginName: 'Only',
+      filePath: '/tmp/only/index.ts',
+      kind: 'component-only-setting-skipped',
+      message: 'Skipped component-only setting',
+    };
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+      diagnostics: [diagnostic],
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+      categorization: [{ name: 'Only', category: 'vencord', reason: 'no-equicord-counterpart' }],
+    });
+
+    const reportPath = join(tempDir, 'reports', 'run.json');
+    const result = await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath: join(tempDir, 'out.nix'),
+      reportPath,
+      logger,
+    });
+
+    const summary = unwrapOk<GeneratePluginOptionsSummary, Error>(result);
+    const report = await fse.readJson(reportPath);
+    expect(report).toMatchObject({
+      version: CLI_CONFIG.version,
+      summary: JSON.parse(JSON.stringify(summary)),
+      sources: [{ label: 'Vencord', path: vencordRepo, vencordPlugins: 1, equicordPlugins: 0 }],
+      diagnostics: [diagnostic],
+      categorization: [{ name: 'Only', category: 'vencord', reason: 'no-equicord-counterpart' }],
+      migrations: {
+        status: 'extracted',
+        vencord: { renames: [], deletions: [] },
+        deprecated: { renames: 0, removals: 0, settingRenames: 0 },
+        migrations: { renames: 0, identifierRenames: 0, removals: 0 },
+      },
+    });
+  });
+
+  test('writes the Markdown plugin reference to the markdown directory', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+    });
+
+    const markdownDir = join(tempDir, 'wiki', 'plugins');
+    await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath: join(tempDir, 'out.nix'),
+      markdownDir,
+      logger,
+    });
+
+    await expect(
+      fse.readFile(join(markdownDir, CLI_CONFIG.filenames.vencordMarkdown), 'utf8')
+    ).resolves.toBe('# vencord\n');
+    expect(mocks.generatePluginMarkdown).toHaveBeenCalledWith({ Only: basePlugin }, 'vencord');
+    await expect(
+      fse.pathExists(
+        join(tempDir, CLI_CONFIG.directories.output, CLI_CONFIG.filenames.sharedMarkdown)
+      )
+    ).resolves.toBe(false);
+  });
+
+  test('merges unselected plugins back from existing outputs in a filtered run', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    const pluginsDir = join(tempDir, CLI_CONFIG.directories.output);
+    await fse.outputJson(join(pluginsDir, CLI_CONFIG.filenames.vencord), {
+      Kept: { description: 'kept' },
+      Only: { description: 'stale' },
+    });
+    const renderJson = (plugins: Record<string, unknown>) =>
+      JSON.stringify(Object.fromEntries(Object.keys(plugins).map((name) => [name, { name }])));
+    mocks.generatePluginModule
+      .mockImplementationOnce(renderJson)
+      .mockImplementationOnce(renderJson)
+      .mockImplementationOnce(renderJson);
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+      categorization: [],
+    });
+
+    const reportPath = join(tempDir, 'report.json');
+    const result = await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath: join(tempDir, 'out.nix'),
+      only: ['only'],
+      reportPath,
+      logger,
+    });
+
+    unwrapOk<GeneratePluginOptionsSummary, Error>(result);
+    expect(mocks.parsePlugins).toHaveBeenCalledWith(
+      vencordRepo,
+      expect.objectContaining({ only: ['only'] })
+    );
+    expect(await fse.readJson(join(pluginsDir, CLI_CONFIG.filenames.vencord))).toEqual({
+      Kept: { description: 'kept' },
+      Only: { name: 'Only' },
+    });
+    expect(await fse.pathExists(join(pluginsDir, CLI_CONFIG.filenames.parseRules))).toBe(false);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining(`Left ${CLI_CONFIG.filenames.parseRules}`)
+    );
+    expect(mocks.updateDeprecatedPlugins).not.toHaveBeenCalled();
+    expect((await fse.readJson(reportPath)).migrations.status).toBe('skipped-plugin-filter');
+  });
+
+  test('refuses to write the Markdown reference in a filtered run', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+      categorization: [],
+    });
+
+    const markdownDir = join(tempDir, 'wiki');
+    const result = await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath: join(tempDir, 'out.nix'),
+      only: ['only'],
+      markdownDir,
+      logger,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(unwrapErr(result).message).toContain('cannot be written by a run filtered');
+    await expect(fse.pathExists(markdownDir)).resolves.toBe(false);
+  });
+
+  test('check mode reports per-file drift without writing outputs', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+    });
+    mocks.generatePluginModule.mockImplementation(
+      (plugins: Record<string, unknown>) =>
+        `${JSON.stringify(
+          Object.fromEntries(Object.keys(plugins).map((name) => [name, { settings: { a: 1 } }]))
+        )}\n`
+    );
+
+    const outputPath = join(tempDir, 'out.nix');
+    const pluginsDir = join(tempDir, CLI_CONFIG.directories.output);
+    await fse.ensureDir(pluginsDir);
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.shared), '{}\n');
+    await fse.writeFile(
+      join(pluginsDir, CLI_CONFIG.filenames.vencord),
+      '{"Only":{"settings":{"a":2}},"Gone":{"settings":{}}}\n'
+    );
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.equicord), '{}\n');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.parseRules), 'rules');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.dependencies), 'dependencies');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.jsonSchema), 'schema');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.typeDeclarations), 'types');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.deprecated), 'deprecated');
+
+    try {
+      const result = await runGeneratePluginOptions({
+        vencordPath: vencordRepo,
+        vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+        equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+        outputPath,
+        logger,
+        check: true,
+      });
+
+      const summary = unwrapOk<GeneratePluginOptionsSummary, Error>(result);
+      expect(summary.drift).toEqual([
+        {
+          filename: CLI_CONFIG.filenames.vencord,
+          status: 'stale',
+          entries: [
+            { key: 'Gone', changes: [{ path: '', kind: 'removed' }] },
+            { key: 'Only', changes: [{ path: 'settings.a', kind: 'changed' }] },
+          ],
+        },
+        { filename: CLI_CONFIG.filenames.migrations, status: 'missing', entries: [] },
+      ]);
+      expect(mocks.updateDeprecatedPlugins).not.toHaveBeenCalled();
+      expect(mocks.mergeDeprecatedPlugins).toHaveBeenCalledTimes(1);
+      await expect(
+        fse.readFile(join(pluginsDir, CLI_CONFIG.filenames.vencord), 'utf8')
+      ).resolves.toContain('Gone');
+      await expect(fse.pathExists(join(pluginsDir, CLI_CONFIG.filenames.migrations))).resolves.toBe(
+        false
+      );
+    } finally {
+      mocks.generatePluginModule.mockImplementation(
+        (plugins: Record<string, unknown>, label: string) =>
+          `${label}:${Object.keys(plugins).join(',')}`
+      );
+    }
+  });
+
+  test('check mode returns empty drift when outputs are current', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+    });
+
+    const outputPath = join(tempDir, 'out.nix');
+    const pluginsDir = join(tempDir, CLI_CONFIG.directories.output);
+    await fse.ensureDir(pluginsDir);
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.shared), 'shared:');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.vencord), 'vencord:Only');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.equicord), 'equicord:');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.parseRules), 'rules');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.dependencies), 'dependencies');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.jsonSchema), 'schema');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.typeDeclarations), 'types');
+    await fse.writeFile(join(pluginsDir, CLI_CONFIG.filenames.deprecated), 'deprecated');
+    await fse.writeFile(
+      join(pluginsDir, CLI_CONFIG.filenames.migrations),
+      '{"renames":[],"removals":[]}'
+    );
+
+    const result = await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath,
+      logger,
+      check: true,
+    });
+
+    expect(unwrapOk<GeneratePluginOptionsSummary, Error>(result).drift).toEqual([]);
+  });
+
+  test('extracts migrations from the per-source plugin directories', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    const equicordRepo = join(tempDir, 'fork');
+    await fse.ensureDir(join(equicordRepo, 'plugins/core'));
+    await fse.ensureDir(join(equicordRepo, 'plugins/extra'));
+    await fse.writeFile(join(equicordRepo, 'package.json'), '{}', 'utf8');
+    mocks.parsePlugins.mockResolvedValue({ vencordPlugins: {}, equicordPlugins: {} });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: {},
+      equicordOnly: {},
+      categorization: [],
+    });
+
+    unwrapOk(
+      await runGeneratePluginOptions({
+        vencordPath: vencordRepo,
+        equicordPath: equicordRepo,
+        vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+        equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+        equicordSource: { vencordPluginsDir: 'plugins/core', equicordPluginsDir: 'plugins/extra' },
+        outputPath: join(tempDir, 'out.nix'),
+        logger,
+      })
+    );
+
+    expect(mocks.extractMigrations).toHaveBeenCalledWith(vencordRepo, [
+      CLI_CONFIG.directories.vencordPlugins,
+    ]);
+    expect(mocks.extractMigrations).toHaveBeenCalledWith(equicordRepo, [
+      'plugins/core',
+      'plugins/extra',
+    ]);
+  });
+
+  test('check mode reports a migration extraction failure', async () => {
+    const logger = createLogger();
+    const vencordRepo = await createRepo(tempDir, 'vencord');
+    mocks.parsePlugins.mockResolvedValue({
+      vencordPlugins: { Only: basePlugin },
+      equicordPlugins: {},
+    });
+    mocks.categorizePlugins.mockReturnValue({
+      generic: {},
+      vencordOnly: { Only: basePlugin },
+      equicordOnly: {},
+    });
+    mocks.extractMigrations.mockRejectedValueOnce(new Error('not a git repository'));
+
+    const result = await runGeneratePluginOptions({
+      vencordPath: vencordRepo,
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      outputPath: join(tempDir, 'out.nix'),
+      logger,
+      check: true,
+    });
+
+    const summary = unwrapOk<GeneratePluginOptionsSummary, Error>(result);
+    expect(summary.migrationError).toBe('Error: not a git repository');
+    expect(summary.drift?.map((drift) => drift.filename)).not.toContain(
+      CLI_CONFIG.filenames.migrations
+    );
+  });
+
   test('returns error result when validation fails', async () => {
     const logger = createLogger();
     const vencordRepo = await createRepo(tempDir, 'vencord');
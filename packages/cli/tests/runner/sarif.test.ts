@@ -0,0 +1,71 @@
+import { CLI_CONFIG, PARSE_DIAGNOSTIC_KINDS } from '@nixcord/shared';
+import { describe, expect, test } from 'vitest';
+import { buildSarifLog } from '../../src/runner/sarif.js';
+
+describe('buildSarifLog()', () => {
+  const roots = [
+    { id: 'VENCORD', path: '/src/vencord' },
+    { id: 'EQUICORD', path: '/src/equicord' },
+  ];
+
+  test('declares one rule per parse diagnostic kind', () => {
+    const [run] = buildSarifLog([], roots).runs;
+
+    expect(run?.tool.driver).toMatchObject({ name: 'nixcord', version: CLI_CONFIG.version });
+    expect(run?.tool.driver.rules.map((rule) => rule.id)).toEqual([...PARSE_DIAGNOSTIC_KINDS]);
+    expect(run?.originalUriBaseIds).toEqual({
+      VENCORD: { uri: 'file:///src/vencord/' },
+      EQUICORD: { uri: 'file:///src/equicord/' },
+    });
+  });
+
+  test('maps diagnostics to results relative to their source root', () => {
+    const [run] = buildSarifLog(
+      [
+        {
+          pluginName: 'Sample',
+          filePath: '/src/equicord/src/equicordplugins/sample/settings.ts',
+          kind: 'unsupported-generated-settings-pattern',
+          message: 'Unsupported generated settings pattern',
+          range: { startLine: 3, startColumn: 5, endLine: 7, endColumn: 6 },
+        },
+        {
+          pluginName: 'Broken',
+          filePath: '/elsewhere/broken',
+          kind: 'failed-plugin',
+          message: 'Failed to parse plugin broken: boom',
+        },
+      ],
+      roots
+    ).runs;
+
+    expect(run?.results).toEqual([
+      {
+        ruleId: 'unsupported-generated-settings-pattern',
+        ruleIndex: PARSE_DIAGNOSTIC_KINDS.indexOf('unsupported-generated-settings-pattern'),
+        level: 'warning',
+        message: { text: 'Sample: Unsupported generated settings pattern' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: 'src/equicordplugins/sample/settings.ts',
+                uriBaseId: 'EQUICORD',
+              },
+              region: { startLine: 3, startColumn: 5, endLine: 7, endColumn: 6 },
+            },
+          },
+        ],
+      },
+      {
+        ruleId: 'failed-plugin',
+        ruleIndex: PARSE_DIAGNOSTIC_KINDS.indexOf('failed-plugin'),
+        level: 'error',
+        message: { text: 'Broken: Failed to parse plugin broken: boom' },
+        locations: [
+          { physicalLocation: { artifactLocation: { uri: 'file:///elsewhere/broken' } } },
+        ],
+      },
+    ]);
+  });
+});
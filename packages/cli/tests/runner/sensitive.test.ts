@@ -0,0 +1,67 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PluginConfig } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import {
+  applySensitiveSettingOverrides,
+  readSensitiveSettingOverrides,
+} from '../../src/runner/sensitive.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('sensitive setting overrides', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'sensitive-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('reads a missing file as no overrides and rejects malformed ones', async () => {
+    expect(await readSensitiveSettingOverrides(join(tempDir, 'missing.json'))).toEqual({});
+
+    const invalidPath = join(tempDir, 'invalid.json');
+    await fse.outputJson(invalidPath, { fileUpload: { token: 'yes' } });
+    await expect(readSensitiveSettingOverrides(invalidPath)).rejects.toThrow(
+      'Invalid sensitive settings file'
+    );
+  });
+
+  test('forces or clears the flag by Nix plugin name and setting path', () => {
+    const plugins: Record<string, PluginConfig> = {
+      FileUpload: {
+        name: 'FileUpload',
+        settings: {
+          catboxUserhash: { name: 'catboxUserhash', type: { kind: 'str' } },
+          ziplineToken: { name: 'ziplineToken', type: { kind: 'str' }, sensitive: true },
+          s3: {
+            name: 's3',
+            settings: { bucketKey: { name: 'bucketKey', type: { kind: 'str' } } },
+          },
+        },
+      },
+      Other: { name: 'Other', settings: {} },
+    };
+
+    const result = applySensitiveSettingOverrides(plugins, {
+      fileUpload: { catboxUserhash: true, ziplineToken: false, 's3.bucketKey': true },
+    });
+
+    expect(result.FileUpload?.settings).toEqual({
+      catboxUserhash: { name: 'catboxUserhash', type: { kind: 'str' }, sensitive: true },
+      ziplineToken: { name: 'ziplineToken', type: { kind: 'str' } },
+      s3: {
+        name: 's3',
+        settings: {
+          bucketKey: { name: 'bucketKey', type: { kind: 'str' }, sensitive: true },
+        },
+      },
+    });
+    expect(result.Other).toBe(plugins.Other);
+  });
+});
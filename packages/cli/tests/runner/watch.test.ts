@@ -0,0 +1,153 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CLI_CONFIG } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { runWatchGeneratePluginOptions } from '../../src/runner/watch.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const pluginIndex = (defaultValue: boolean) =>
+  `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+   const settings = definePluginSettings({
+     enabled: { type: OptionType.BOOLEAN, description: "Enabled", default: ${defaultValue} },
+   });
+   export default definePlugin({ name: "Sample", description: "Sample", settings });`;
+
+const pluginWithToken = (description: string) =>
+  `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+   const settings = definePluginSettings({
+     catboxUserhash: { type: OptionType.STRING, description: "${description}", default: "" },
+   });
+   export default definePlugin({ name: "Sample", description: "Sample", settings });`;
+
+function createLogger() {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+    debug: vi.fn(),
+  };
+}
+
+describe('runWatchGeneratePluginOptions', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'watch-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('regenerates outputs when a plugin file changes', async () => {
+    const vencordRepo = join(tempDir, 'vencord');
+    const pluginDir = join(vencordRepo, CLI_CONFIG.directories.vencordPlugins, 'sample');
+    await fse.ensureDir(pluginDir);
+    await fse.writeFile(join(vencordRepo, 'package.json'), '{}');
+    await fse.writeFile(join(pluginDir, 'index.ts'), pluginIndex(true));
+
+    const logger = createLogger();
+    const controller = new AbortController();
+    const outputPath = join(tempDir, 'out', 'modules.nix');
+    const vencordJsonPath = join(
+      tempDir,
+      'out',
+      CLI_CONFIG.directories.output,
+      CLI_CONFIG.filenames.vencord
+    );
+
+    const watching = runWatchGeneratePluginOptions(
+      {
+        vencordPath: vencordRepo,
+        vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+        equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+        outputPath,
+        logger,
+      },
+      controller.signal
+    );
+
+    try {
+      await vi.waitFor(
+        () => expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Watching')),
+        { timeout: 10_000 }
+      );
+      expect((await fse.readJson(vencordJsonPath)).sample.settings.enabled.default).toBe(true);
+
+      await fse.writeFile(join(pluginDir, 'index.ts'), pluginIndex(false));
+      await vi.waitFor(
+        () =>
+          expect(logger.success).toHaveBeenCalledWith(
+            expect.stringContaining(
+              `Re-extracted 1 plugin(s); updated ${CLI_CONFIG.filenames.vencord}`
+            )
+          ),
+        { timeout: 10_000 }
+      );
+      expect((await fse.readJson(vencordJsonPath)).sample.settings.enabled.default).toBe(false);
+    } finally {
+      controller.abort();
+    }
+
+    await expect(watching).resolves.toEqual({ ok: true, value: undefined });
+  });
+
+  test('keeps sensitive-setting overrides across rebuilds', async () => {
+    const vencordRepo = join(tempDir, 'vencord');
+    const pluginDir = join(vencordRepo, CLI_CONFIG.directories.vencordPlugins, 'sample');
+    await fse.ensureDir(pluginDir);
+    await fse.writeFile(join(vencordRepo, 'package.json'), '{}');
+    await fse.writeFile(join(pluginDir, 'index.ts'), pluginWithToken('Userhash'));
+
+    const pluginsDir = join(tempDir, 'out', CLI_CONFIG.directories.output);
+    await fse.outputJson(join(pluginsDir, CLI_CONFIG.filenames.sensitiveSettings), {
+      sample: { catboxUserhash: true },
+    });
+    const vencordJsonPath = join(pluginsDir, CLI_CONFIG.filenames.vencord);
+
+    const logger = createLogger();
+    const controller = new AbortController();
+    const watching = runWatchGeneratePluginOptions(
+      {
+        vencordPath: vencordRepo,
+        vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+        equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+        outputPath: join(tempDir, 'out', 'modules.nix'),
+        logger,
+      },
+      controller.signal
+    );
+
+    try {
+      await vi.waitFor(
+        () => expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Watching')),
+        { timeout: 10_000 }
+      );
+      expect((await fse.readJson(vencordJsonPath)).sample.settings.catboxUserhash.sensitive).toBe(
+        true
+      );
+
+      await fse.writeFile(join(pluginDir, 'index.ts'), pluginWithToken('Catbox userhash'));
+      await vi.waitFor(
+        () =>
+          expect(logger.success).toHaveBeenCalledWith(
+            expect.stringContaining(
+              `Re-extracted 1 plugin(s); updated ${CLI_CONFIG.filenames.vencord}`
+            )
+          ),
+        { timeout: 10_000 }
+      );
+      const rebuilt = (await fse.readJson(vencordJsonPath)).sample.settings.catboxUserhash;
+      expect(rebuilt.description).toBe('Catbox userhash');
+      expect(rebuilt.sensitive).toBe(true);
+    } finally {
+      controller.abort();
+    }
+
+    await expect(watching).resolves.toEqual({ ok: true, value: undefined });
+  });
+});
@@ -0,0 +1,158 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { PluginConfig } from '@nixcord/shared';
+import { CLI_CONFIG } from '@nixcord/shared';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import {
+  formatSettingsValidation,
+  runValidateSettings,
+  validateSettings,
+} from '../../src/validate/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const noDeprecations = { renames: {}, removals: {}, settingRenames: {} };
+
+const schemas = new Map<string, PluginConfig>([
+  [
+    'Sample',
+    {
+      name: 'Sample',
+      settings: {
+        'a/b': { name: 'a/b', type: { kind: 'nullOr', elem: { kind: 'str' } } },
+        group: {
+          name: 'group',
+          settings: { size: { name: 'size', type: { kind: 'int' } } },
+        },
+      },
+    },
+  ],
+]);
+
+describe('validateSettings()', () => {
+  test('escapes JSON pointers and descends into nested settings', () => {
+    const issues = validateSettings(
+      { plugins: { Sample: { enabled: 'yes', 'a/b': null, group: { size: 1.5, extra: 1 } } } },
+      schemas,
+      noDeprecations
+    );
+
+    expect(issues).toEqual([
+      {
+        pointer: '/plugins/Sample/enabled',
+        kind: 'type-mismatch',
+        message: 'Expected types.bool, got "yes"',
+      },
+      {
+        pointer: '/plugins/Sample/group/size',
+        kind: 'type-mismatch',
+        message: 'Expected types.int, got 1.5',
+      },
+      {
+        pointer: '/plugins/Sample/group/extra',
+        kind: 'unknown-setting',
+        message: 'Unknown setting extra',
+      },
+    ]);
+  });
+
+  test('points into the settings of a backup export', () => {
+    const issues = validateSettings(
+      { settings: { plugins: { Sample: { group: 'flat' } } }, quickCss: '' },
+      schemas,
+      noDeprecations
+    );
+
+    expect(issues.map((issue) => issue.pointer)).toEqual(['/settings/plugins/Sample/group']);
+  });
+});
+
+describe('runValidateSettings()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'test-validate-'));
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('checks settings against parsed plugins and deprecated.json', async () => {
+    const sourcePath = join(tempDir, 'source');
+    const pluginDir = join(sourcePath, CLI_CONFIG.directories.vencordPlugins, 'Sample');
+    await fse.ensureDir(pluginDir);
+    await fse.writeFile(join(sourcePath, 'package.json'), '{}');
+    await fse.writeFile(
+      join(pluginDir, 'index.ts'),
+      `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+       const settings = definePluginSettings({
+         mode: {
+           type: OptionType.SELECT,
+           description: "Mode",
+           options: [{ label: "A", value: "a", default: true }, { label: "B", value: "b" }],
+         },
+         count: { type: OptionType.NUMBER, description: "Count", default: 1 },
+         userId: { type: OptionType.BIGINT, description: "User", default: 0n },
+       });
+       export default definePlugin({ name: "Sample", description: "Sample", settings });`
+    );
+    const pluginsDir = join(tempDir, 'plugins');
+    await fse.outputJson(join(pluginsDir, CLI_CONFIG.filenames.deprecated), {
+      renames: { OldSample: { to: 'Sample', date: '2026-01-01' } },
+      removals: { Gone: { date: '2026-01-01' } },
+      settingRenames: { sample: { amount: 'count' } },
+    });
+    const settingsPath = join(tempDir, 'settings.json');
+    await fse.writeJson(settingsPath, {
+      autoUpdate: true,
+      plugins: {
+        Sample: { enabled: true, mode: 'c', count: '2.5', userId: '343383572805058560', amount: 3 },
+        OldSample: { enabled: true },
+        Gone: { enabled: false },
+        Missing: { enabled: true },
+      },
+    });
+
+    const result = await runValidateSettings({
+      settingsPath,
+      sourcePaths: [sourcePath],
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      pluginsDir,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(formatSettingsValidation(result.value)).toBe(
+      [
+        '/plugins/Sample/mode: Expected one of "a", "b", got "c" (invalid-enum-value)',
+        '/plugins/Sample/count: Expected types.int, got "2.5" (type-mismatch)',
+        '/plugins/Sample/amount: Setting amount was renamed to count (renamed-setting)',
+        '/plugins/OldSample: Plugin OldSample was renamed to Sample (renamed-plugin)',
+        '/plugins/Gone: Plugin Gone was removed (removed-plugin)',
+        '/plugins/Missing: Unknown plugin Missing (unknown-plugin)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('fails when the settings file is missing', async () => {
+    const result = await runValidateSettings({
+      settingsPath: join(tempDir, 'missing.json'),
+      sourcePaths: [tempDir],
+      vencordPluginsDir: CLI_CONFIG.directories.vencordPlugins,
+      equicordPluginsDir: CLI_CONFIG.directories.equicordPlugins,
+      pluginsDir: tempDir,
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.message).toBe(
+        `Settings file not found: ${join(tempDir, 'missing.json')}`
+      );
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { sortedEntries } from '@nixcord/shared';
+import { toNixIdentifier } from './identifier.js';
+
+type Plugins = ReadonlyDeep<Record<string, PluginConfig>>;
+
+/** The `dependencies` of the plugins one client ships, keyed by Nix plugin identifier. */
+interface ClientDependencyGraph {
+  /** Dependencies the client ships, as Nix plugin identifiers. */
+  dependencies: Record<string, string[]>;
+  /** Dependencies the client does not ship, as written upstream. */
+  missing: Record<string, string[]>;
+  /** Groups of plugins that depend on each other, sorted within and between groups. */
+  cycles: string[][];
+}
+
+/** Tarjan's algorithm, keeping the components that form a cycle (including self-dependencies). */
+const findCycles = (edges: Readonly<Record<string, readonly string[]>>): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (node: string): void => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node) as number);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges[node] ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node) as number, lowLink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node) as number, index.get(next) as number));
+      }
+    }
+
+    if (lowLink.get(node) !== index.get(node)) return;
+    const component: string[] = [];
+    let member: string | undefined;
+    do {
+      member = stack.pop() as string;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== node);
+    if (component.length > 1 || edges[node]?.includes(node)) cycles.push(component.sort());
+  };
+
+  for (const node of Object.keys(edges).sort()) {
+    if (!index.has(node)) visit(node);
+  }
+  return cycles.sort((left, right) => (left[0] as string).localeCompare(right[0] as string));
+};
+
+/** Resolve the `dependencies` of every plugin a client ships against the plugins it ships. */
+const buildClientDependencyGraph = (plugins: Plugins): ClientDependencyGraph => {
+  const nixNamesByUpstreamName = new Map(
+    Object.entries(plugins).map(([slug, config]) => [config.name || slug, toNixIdentifier(slug)])
+  );
+  const dependencies: Record<string, string[]> = {};
+  const missing: Record<string, string[]> = {};
+
+  for (const [slug, config] of Object.entries(plugins)) {
+    const resolved: string[] = [];
+    const unresolved: string[] = [];
+    for (const dependency of config.dependencies ?? []) {
+      const nixName = nixNamesByUpstreamName.get(dependency);
+      if (nixName === undefined) unresolved.push(dependency);
+      else resolved.push(nixName);
+    }
+    const nixName = toNixIdentifier(slug);
+    if (resolved.length > 0) dependencies[nixName] = resolved;
+    if (unresolved.length > 0) missing[nixName] = unresolved;
+  }
+
+  return {
+    dependencies: Object.fromEntries(sortedEntries(dependencies)),
+    missing: Object.fromEntries(sortedEntries(missing)),
+    cycles: findCycles(dependencies),
+  };
+};
+
+/**
+ * Generate the plugin dependency graph of each client: Vencord ships the shared and
+ * Vencord-only plugins, Equicord the shared and Equicord-only ones.
+ */
+export function generateDependencyGraphModule(
+  shared: Plugins,
+  vencordOnly: Plugins,
+  equicordOnly: Plugins
+): string {
+  return `${JSON.stringify(
+    {
+      vencord: buildClientDependencyGraph({ ...shared, ...vencordOnly }),
+      equicord: buildClientDependencyGraph({ ...shared, ...equicordOnly }),
+    },
+    null,
+    2
+  )}\n`;
+}
@@ -1,6 +1,11 @@
 import type { PluginMigrationInfo } from '@nixcord/git-analyzer';
 import type { DeprecatedData, DeprecatedRenameEntry, Logger, SettingRename } from '@nixcord/shared';
-import { REMOVAL_EXPIRY_DAYS, RENAME_EXPIRY_DAYS, sortedEntries } from '@nixcord/shared';
+import {
+  CLI_CONFIG,
+  REMOVAL_EXPIRY_DAYS,
+  RENAME_EXPIRY_DAYS,
+  sortedEntries,
+} from '@nixcord/shared';
 import fse from 'fs-extra';
 import { join } from 'pathe';
 
@@ -18,9 +23,9 @@ function isExpired(dateStr: string, expiryDays: number): boolean {
 }
 
 /**
- * Read and parse deprecated.json.
+ * Read and parse deprecated.json. A missing or unreadable file reads as empty.
  */
-async function readDeprecatedJson(filePath: string): Promise<DeprecatedData> {
+export async function readDeprecatedJson(filePath: string): Promise<DeprecatedData> {
   const empty: DeprecatedData = { renames: {}, removals: {}, settingRenames: {} };
   try {
     const raw = await fse.readFile(filePath, 'utf-8');
@@ -117,16 +122,19 @@ function removeSelfRenames(
   }
 }
 
-export async function updateDeprecatedPlugins(
+/**
+ * Merge new migrations into the deprecated.json found in `pluginsDir` without writing it back.
+ * `filename` overrides the deprecated.json name.
+ */
+export async function mergeDeprecatedPlugins(
   migrations: PluginMigrationInfo,
   pluginsDir: string,
-  verbose: boolean,
-  logger: Logger,
   settingRenames: SettingRename[] = [],
   activePluginNames?: Set<string>,
-  normalizePluginName?: (name: string) => string
+  normalizePluginName?: (name: string) => string,
+  filename: string = CLI_CONFIG.filenames.deprecated
 ): Promise<DeprecatedData> {
-  const deprecatedPath = join(pluginsDir, 'deprecated.json');
+  const deprecatedPath = join(pluginsDir, filename);
   const existing: DeprecatedData = (await fse.pathExists(deprecatedPath))
     ? await readDeprecatedJson(deprecatedPath)
     : { renames: {}, removals: {}, settingRenames: {} };
@@ -229,13 +237,35 @@ export async function updateDeprecatedPlugins(
     existing.settingRenames = deduped;
   }
 
+  return existing;
+}
+
+export async function updateDeprecatedPlugins(
+  migrations: PluginMigrationInfo,
+  pluginsDir: string,
+  verbose: boolean,
+  logger: Logger,
+  settingRenames: SettingRename[] = [],
+  activePluginNames?: Set<string>,
+  normalizePluginName?: (name: string) => string,
+  filename: string = CLI_CONFIG.filenames.deprecated
+): Promise<DeprecatedData> {
+  const existing = await mergeDeprecatedPlugins(
+    migrations,
+    pluginsDir,
+    settingRenames,
+    activePluginNames,
+    normalizePluginName,
+    filename
+  );
+
   const json = generateDeprecatedJson(existing);
-  await fse.writeFile(deprecatedPath, json);
+  await fse.writeFile(join(pluginsDir, filename), json);
 
   if (verbose) {
     const renameCount = Object.keys(existing.renames).length;
     const deletionCount = Object.keys(existing.removals).length;
-    logger.info(`Updated deprecated.json: ${renameCount} renames, ${deletionCount} removals`);
+    logger.info(`Updated ${filename}: ${renameCount} renames, ${deletionCount} removals`);
   }
 
   return existing;
@@ -1,4 +1,11 @@
-import type { PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
+import type {
+  NixType,
+  PluginConfig,
+  PluginPlatform,
+  PluginSetting,
+  PluginTargets,
+  ReadonlyDeep,
+} from '@nixcord/shared';
 import {
   INTEGER_STRING_PATTERN,
   isArray,
@@ -8,9 +15,8 @@ import {
   isNumber,
   isObject,
   isString,
-  NIX_ENUM_TYPE,
-  NIX_TYPE_FLOAT,
-  NIX_TYPE_INT,
+  NIX_TYPE_ATTRS,
+  renderNixType,
 } from '@nixcord/shared';
 import { toNixIdentifier } from './identifier.js';
 
@@ -23,11 +29,25 @@ export interface PluginSettingJson {
   description?: string;
   enumValues?: (string | number | boolean)[];
   example?: string;
+  /** The client only applies a change after it restarts. */
+  restartNeeded?: boolean;
+  /** The client does not show the setting in its settings UI. */
+  hidden?: boolean;
+  /** The setting holds a credential; the Nix side also offers a `<name>File` option for it. */
+  sensitive?: boolean;
 }
 
 /** JSON representation of a plugin for the Nix-side builder. */
 export interface PluginJson {
   description: string;
+  /** The client always runs the plugin; the Nix side refuses to disable it. */
+  required?: boolean;
+  /** The client runs the plugin unless disabled; the Nix side defaults `enable` to match. */
+  enabledByDefault?: boolean;
+  /** The builds the plugin is bundled into; absent when it is bundled into every build. */
+  targets?: { platforms: PluginPlatform[]; devOnly?: boolean };
+  /** Upstream authors, with their Discord user ID when known. */
+  authors?: { name: string; id?: string }[];
   settings: Record<string, PluginSettingJson | PluginJson>;
 }
 
@@ -42,7 +62,7 @@ const categoryLabel = (category: PluginCategory): string => {
   }
 };
 
-const buildEnumMappingDescription = (
+export const buildEnumMappingDescription = (
   enumValues: readonly (string | number | boolean)[],
   enumLabels?: ReadonlyDeep<Record<string, string> & Partial<Record<number, string>>>
 ): string | undefined => {
@@ -70,11 +90,11 @@ const resolveDefault = (setting: Readonly<PluginSetting>): unknown | undefined =
   const val = setting.default;
 
   // Float integers need to stay as floats (e.g. 1 -> 1.0)
-  if (isNumber(val) && type === NIX_TYPE_FLOAT && Number.isInteger(val))
+  if (isNumber(val) && type.kind === 'float' && Number.isInteger(val))
     return { __nixRaw: val.toFixed(1) };
 
   // String integers used as int defaults (e.g. BigInt IDs)
-  if (type === NIX_TYPE_INT && isString(val) && INTEGER_STRING_PATTERN.test(val))
+  if (type.kind === 'int' && isString(val) && INTEGER_STRING_PATTERN.test(val))
     return { __nixRaw: val };
 
   if (
@@ -93,7 +113,7 @@ const resolveDefault = (setting: Readonly<PluginSetting>): unknown | undefined =
 const buildSettingDescription = (setting: Readonly<PluginSetting>): string | undefined => {
   if (!setting.description) return undefined;
 
-  const isIntegerEnum = setting.enumValues?.every(isNumber) && setting.type === NIX_ENUM_TYPE;
+  const isIntegerEnum = setting.enumValues?.every(isNumber) && setting.type.kind === 'enum';
   if (!isIntegerEnum || !setting.enumValues) return setting.description;
 
   const mapping = buildEnumMappingDescription(setting.enumValues, setting.enumLabels);
@@ -102,13 +122,30 @@ const buildSettingDescription = (setting: Readonly<PluginSetting>): string | und
     : setting.description;
 };
 
+/**
+ * mkPluginOptions.nix only parses the type grammar of `parseNixType`, which has no submodules, so
+ * the JSON carries them as `types.attrs`.
+ */
+const toJsonNixType = (type: NixType): NixType => {
+  switch (type.kind) {
+    case 'submodule':
+      return NIX_TYPE_ATTRS;
+    case 'nullOr':
+    case 'listOf':
+    case 'attrsOf':
+      return { kind: type.kind, elem: toJsonNixType(type.elem) };
+    default:
+      return type;
+  }
+};
+
 export const generateSettingJson = (
   setting: Readonly<PluginSetting>,
   _category?: PluginCategory
 ): PluginSettingJson => {
-  const json: PluginSettingJson = { type: setting.type };
+  const json: PluginSettingJson = { type: renderNixType(toJsonNixType(setting.type)) };
 
-  if (setting.type?.includes('enum') && setting.enumValues) {
+  if (json.type.includes('types.enum') && setting.enumValues) {
     json.enumValues = [...setting.enumValues];
   }
 
@@ -122,9 +159,57 @@ export const generateSettingJson = (
     json.example = setting.example;
   }
 
+  if (setting.restartNeeded) json.restartNeeded = true;
+  if (setting.hidden) json.hidden = true;
+  if (setting.sensitive) json.sensitive = true;
+
   return json;
 };
 
+/** Describes the `<name>File` option `mkPluginOptions.nix` adds next to a sensitive setting. */
+export const describeSecretFileOption = (name: string): string =>
+  `Path to a file holding the value of \`${name}\`, read at activation so it stays out of the Nix store. Takes precedence over \`${name}\`.`;
+
+/**
+ * A setting's description followed by notes for its metadata flags, worded as
+ * `mkPluginOptions.nix` appends them to option descriptions.
+ */
+export const describeSetting = (
+  setting: Pick<PluginSettingJson, 'description' | 'restartNeeded' | 'hidden'>
+): string =>
+  [
+    setting.description,
+    setting.restartNeeded && 'Changing this setting requires restarting the client.',
+    setting.hidden && "This setting is hidden from the client's settings UI.",
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+const PLATFORM_LABELS: Record<PluginPlatform, string> = {
+  discordDesktop: 'Discord desktop',
+  vesktop: 'Vesktop',
+  web: 'web',
+};
+
+/**
+ * Notes on the builds a plugin is bundled into, worded as `mkPluginOptions.nix` appends them
+ * to the description of its `enable` option.
+ */
+export const describePluginTargets = (
+  targets: ReadonlyDeep<PluginTargets> | undefined
+): string[] => {
+  if (!targets) return [];
+  const { platforms } = targets;
+  return [
+    ...(platforms.length < Object.keys(PLATFORM_LABELS).length
+      ? [
+          `Only available in the ${platforms.map((platform) => PLATFORM_LABELS[platform]).join(' and ')} build${platforms.length === 1 ? '' : 's'}.`,
+        ]
+      : []),
+    ...(targets.devOnly ? ['Only available in development builds.'] : []),
+  ];
+};
+
 export const generatePluginJson = (
   _pluginName: string,
   config: Readonly<PluginConfig>,
@@ -144,7 +229,23 @@ export const generatePluginJson = (
 
   const description = `${config.description ?? ''}${category ? categoryLabel(category) : ''}`;
 
-  return { description, settings };
+  return {
+    description,
+    ...(config.required ? { required: true } : {}),
+    ...(config.enabledByDefault ? { enabledByDefault: true } : {}),
+    ...(config.targets
+      ? {
+          targets: {
+            platforms: [...config.targets.platforms],
+            ...(config.targets.devOnly ? { devOnly: true } : {}),
+          },
+        }
+      : {}),
+    ...(config.authors && config.authors.length > 0
+      ? { authors: config.authors.map((author) => ({ ...author })) }
+      : {}),
+    settings,
+  };
 };
 
 export const generatePluginModule = (
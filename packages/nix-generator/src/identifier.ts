@@ -1,3 +1,5 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { sortedEntries } from '@nixcord/shared';
 import { camelCase } from 'change-case';
 
 const PARENTHESES_PATTERN = /\s*\([^)]*\)\s*/g;
@@ -117,3 +119,19 @@ export function toNixIdentifier(name: string): string {
     needsPrefix
   );
 }
+
+/**
+ * Key plugin collections by Nix identifier, sorted; a plugin in several collections keeps the
+ * last one's config.
+ */
+export function sortedPluginsByNixIdentifier(
+  ...collections: ReadonlyArray<ReadonlyDeep<Record<string, PluginConfig>>>
+): [string, ReadonlyDeep<PluginConfig>][] {
+  const plugins: Record<string, ReadonlyDeep<PluginConfig>> = {};
+  for (const collection of collections) {
+    for (const [pluginName, config] of Object.entries(collection)) {
+      plugins[toNixIdentifier(pluginName)] = config;
+    }
+  }
+  return sortedEntries(plugins);
+}
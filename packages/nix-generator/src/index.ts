@@ -1,5 +1,10 @@
+export * from './dependency-graph.js';
 export * from './deprecated.js';
 export * from './generator.js';
 export * from './identifier.js';
+export * from './json-schema.js';
+export * from './markdown.js';
 export * from './migrations-generator.js';
+export * from './nix-module.js';
 export * from './parse-rules.js';
+export * from './type-declarations.js';
@@ -0,0 +1,159 @@
+import type { NixType, PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
+import { INTEGER_STRING_PATTERN, isNestedConfig, isString } from '@nixcord/shared';
+import { describeSecretFileOption } from './generator.js';
+import { sortedPluginsByNixIdentifier, toNixIdentifier } from './identifier.js';
+
+/** The subset of Draft 2020-12 keywords the plugin schema uses. */
+interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  enum?: (string | number | boolean)[];
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  const?: string | number | boolean;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  default?: unknown;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const SCALAR_TYPES: Partial<Record<NixType['kind'], string>> = {
+  bool: 'boolean',
+  int: 'integer',
+  float: 'number',
+  str: 'string',
+  attrs: 'object',
+};
+
+/** Map a Nix type such as `listOf str` to a schema; `enum` nodes take the setting's values. */
+const schemaForNixType = (type: NixType, enumSchema: () => JsonSchema): JsonSchema => {
+  switch (type.kind) {
+    case 'enum':
+      return enumSchema();
+    case 'listOf':
+      return { type: 'array', items: schemaForNixType(type.elem, enumSchema) };
+    case 'attrsOf':
+      return { type: 'object', additionalProperties: schemaForNixType(type.elem, enumSchema) };
+    case 'nullOr':
+      return { anyOf: [schemaForNixType(type.elem, enumSchema), { type: 'null' }] };
+    case 'between':
+      return { type: 'number', minimum: type.min, maximum: type.max };
+    case 'submodule':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(type.options).map(([name, option]) => [
+            name,
+            schemaForNixType(option, enumSchema),
+          ])
+        ),
+        additionalProperties: false,
+      };
+    default: {
+      const scalar = SCALAR_TYPES[type.kind];
+      return scalar ? { type: scalar } : {};
+    }
+  }
+};
+
+const schemaForEnum = (setting: ReadonlyDeep<PluginSetting>): JsonSchema => {
+  const values = [...(setting.enumValues ?? [])];
+  const labels = setting.enumLabels;
+  const labelled = values.map((value) => ({ value, label: labels?.[String(value)] }));
+  if (!labelled.some(({ label }) => label !== undefined)) return { enum: values };
+  return {
+    oneOf: labelled.map(({ value, label }) => ({
+      const: value,
+      ...(label === undefined ? {} : { title: label }),
+    })),
+  };
+};
+
+/** Int settings backed by BigInt IDs carry their default as a digit string. */
+const schemaDefault = (setting: ReadonlyDeep<PluginSetting>): unknown => {
+  const value = setting.default;
+  if (setting.type.kind === 'int' && isString(value) && INTEGER_STRING_PATTERN.test(value)) {
+    const parsed = Number(value);
+    return Number.isSafeInteger(parsed) ? parsed : undefined;
+  }
+  return value;
+};
+
+const generateSettingSchema = (setting: ReadonlyDeep<PluginSetting>): JsonSchema => {
+  const schema = schemaForNixType(setting.type, () => schemaForEnum(setting));
+  if (setting.description) schema.description = setting.description;
+  const defaultValue = schemaDefault(setting);
+  if (defaultValue !== undefined) schema.default = defaultValue;
+  return schema;
+};
+
+/** Mirrors `generatePluginJson`: settings keyed by Nix identifier, nested groups as objects. */
+const generateSettingsSchema = (config: ReadonlyDeep<PluginConfig>): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  for (const setting of Object.values(config.settings)) {
+    if (setting.name === 'enable') continue;
+    const nixName = toNixIdentifier(setting.name);
+    if (isNestedConfig(setting)) {
+      properties[nixName] = generateSettingsSchema(setting as ReadonlyDeep<PluginConfig>);
+      continue;
+    }
+    properties[nixName] = generateSettingSchema(setting as ReadonlyDeep<PluginSetting>);
+    // Matches the `<name>File` option mkPluginOptions.nix declares next to a sensitive setting
+    if ((setting as ReadonlyDeep<PluginSetting>).sensitive) {
+      properties[`${nixName}File`] = {
+        anyOf: [{ type: 'string' }, { type: 'null' }],
+        description: describeSecretFileOption(nixName),
+        default: null,
+      };
+    }
+  }
+  return {
+    type: 'object',
+    ...(config.description ? { description: config.description } : {}),
+    properties,
+    additionalProperties: false,
+  };
+};
+
+const generatePluginSchema = (config: ReadonlyDeep<PluginConfig>): JsonSchema => {
+  const schema = generateSettingsSchema(config);
+  // Matches the `mkEnableOption` every plugin module declares; required plugins stay enabled
+  const enable: JsonSchema = {
+    type: 'boolean',
+    description: `Whether to enable ${config.description ?? config.name}.`,
+    ...(config.required ? { const: true } : {}),
+    default: Boolean(config.required || config.enabledByDefault),
+  };
+  return { ...schema, properties: { enable, ...schema.properties } };
+};
+
+/**
+ * Generate a JSON Schema for `programs.nixcord.config.plugins` from the same plugin trees as the
+ * shared/vencord/equicord JSON, for validating freeform plugin configuration outside of Nix.
+ */
+export function generatePluginJsonSchemaModule(
+  shared: ReadonlyDeep<Record<string, PluginConfig>>,
+  vencordOnly: ReadonlyDeep<Record<string, PluginConfig>>,
+  equicordOnly: ReadonlyDeep<Record<string, PluginConfig>>
+): string {
+  const schema: JsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: 'Nixcord plugin configuration',
+    description: 'Plugin options under programs.nixcord.config.plugins',
+    type: 'object',
+    properties: Object.fromEntries(
+      sortedPluginsByNixIdentifier(shared, vencordOnly, equicordOnly).map(([nixName, config]) => [
+        nixName,
+        generatePluginSchema(config),
+      ])
+    ),
+    additionalProperties: false,
+  };
+  return `${JSON.stringify(schema, null, 2)}\n`;
+}
@@ -0,0 +1,117 @@
+import type { PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
+import { isNestedConfig, renderNixType } from '@nixcord/shared';
+import {
+  buildEnumMappingDescription,
+  describePluginTargets,
+  describeSetting,
+  generateSettingJson,
+  type PluginCategory,
+} from './generator.js';
+import { sortedPluginsByNixIdentifier, toNixIdentifier } from './identifier.js';
+import { renderNixInline, renderNixValue } from './nix-module.js';
+
+const NIX_PLUGINS_OPTION = 'programs.nixcord.config.plugins';
+
+const CATEGORY_HEADINGS: Record<PluginCategory, { title: string; summary: string }> = {
+  shared: { title: 'Shared plugins', summary: 'Plugins available in both Vencord and Equicord.' },
+  vencord: { title: 'Vencord-only plugins', summary: 'Plugins only available in Vencord.' },
+  equicord: { title: 'Equicord-only plugins', summary: 'Plugins only available in Equicord.' },
+};
+
+interface SettingRow {
+  path: string;
+  type: string;
+  default: string;
+  values: string;
+  description: string;
+}
+
+const escapeCell = (value: string): string =>
+  value.replaceAll('|', '\\|').replace(/\r?\n/g, '<br>');
+
+const code = (value: string): string => (value ? `\`${value}\`` : '');
+
+const collectRows = (config: ReadonlyDeep<PluginConfig>, path: string): SettingRow[] =>
+  Object.values(config.settings).flatMap((setting): SettingRow[] => {
+    if (setting.name === 'enable') return [];
+    const settingPath = `${path}.${toNixIdentifier(setting.name)}`;
+    if (isNestedConfig(setting)) {
+      return collectRows(setting as ReadonlyDeep<PluginConfig>, settingPath);
+    }
+
+    const option = setting as ReadonlyDeep<PluginSetting>;
+    const json = generateSettingJson(option as Readonly<PluginSetting>);
+    const enumValues = json.enumValues ?? [];
+    return [
+      {
+        path: settingPath,
+        type: renderNixType(option.type, () => `types.enum ${renderNixInline(enumValues)}`),
+        default: json.default === undefined ? '' : renderNixInline(json.default),
+        values: buildEnumMappingDescription(enumValues, option.enumLabels) ?? '',
+        description: describeSetting(option),
+      },
+    ];
+  });
+
+/** The plugin enabled with every setting at its default, as a starting point to copy. */
+const exampleValue = (config: ReadonlyDeep<PluginConfig>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.values(config.settings).flatMap((setting): [string, unknown][] => {
+      if (setting.name === 'enable') return [];
+      if (isNestedConfig(setting)) {
+        return [
+          [toNixIdentifier(setting.name), exampleValue(setting as ReadonlyDeep<PluginConfig>)],
+        ];
+      }
+      const json = generateSettingJson(setting as Readonly<PluginSetting>);
+      return json.default === undefined ? [] : [[toNixIdentifier(setting.name), json.default]];
+    })
+  );
+
+const renderPluginSection = (nixName: string, config: ReadonlyDeep<PluginConfig>): string[] => {
+  const path = `${NIX_PLUGINS_OPTION}.${nixName}`;
+  const rows = collectRows(config, path);
+  const example = { enable: true, ...exampleValue(config) };
+  const targetNotes = describePluginTargets(config.targets);
+  const authors = config.authors?.map((author) => author.name) ?? [];
+
+  return [
+    `## ${config.name?.trim() || nixName}`,
+    '',
+    ...(config.description ? [config.description, ''] : []),
+    ...(targetNotes.length > 0 ? [targetNotes.join(' '), ''] : []),
+    ...(authors.length > 0 ? [`Authors: ${authors.join(', ')}`, ''] : []),
+    ...(rows.length === 0
+      ? ['This plugin has no settings besides `enable`.', '']
+      : [
+          '| Option | Type | Default | Values | Description |',
+          '| --- | --- | --- | --- | --- |',
+          ...rows.map(
+            (row) =>
+              `| ${[code(row.path), code(row.type), code(row.default), row.values, row.description]
+                .map(escapeCell)
+                .join(' | ')} |`
+          ),
+          '',
+        ]),
+    '```nix',
+    `${path} = ${renderNixValue(example)};`,
+    '```',
+    '',
+  ];
+};
+
+/**
+ * Render a Markdown reference for one plugin category: a section per plugin with its settings
+ * table and an example configuration.
+ */
+export const generatePluginMarkdown = (
+  plugins: ReadonlyDeep<Record<string, PluginConfig>>,
+  category: PluginCategory
+): string => {
+  const { title, summary } = CATEGORY_HEADINGS[category];
+  const sections = sortedPluginsByNixIdentifier(plugins).flatMap(([nixName, config]) =>
+    renderPluginSection(nixName, config)
+  );
+  return [`# ${title}`, '', summary, '', ...sections].join('\n');
+};
@@ -0,0 +1,216 @@
+import { isNonNullObject, parseNixType, renderNixType, sortedEntries } from '@nixcord/shared';
+import {
+  describePluginTargets,
+  describeSecretFileOption,
+  describeSetting,
+  type PluginJson,
+  type PluginSettingJson,
+} from './generator.js';
+
+const NIX_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_'-]*$/;
+const NIX_KEYWORDS = new Set([
+  'assert',
+  'else',
+  'if',
+  'in',
+  'inherit',
+  'let',
+  'or',
+  'rec',
+  'then',
+  'with',
+]);
+const INDENT = '  ';
+
+const isPluginJson = (value: PluginSettingJson | PluginJson): value is PluginJson =>
+  'settings' in value && !('type' in value);
+
+const escapeDoubleQuoted = (value: string): string =>
+  value
+    .replaceAll('\\', '\\\\')
+    .replaceAll('"', '\\"')
+    .replaceAll('${', '\\${')
+    .replaceAll('\n', '\\n')
+    .replaceAll('\r', '\\r')
+    .replaceAll('\t', '\\t');
+
+/**
+ * Render a string literal. Multi-line text becomes an indented string so option descriptions
+ * stay readable; `''` and `${` are escaped as `'''` and `''${` there. Text an indented string
+ * would alter (tabs, carriage returns, blank or uniformly indented lines, a trailing `'`) stays
+ * double-quoted.
+ */
+const renderString = (value: string, indent: string): string => {
+  const indentable =
+    value.includes('\n') &&
+    !/[\r\t]/.test(value) &&
+    !/^ +$/m.test(value) &&
+    /^\S/m.test(value) &&
+    !value.endsWith("'");
+  if (!indentable) return `"${escapeDoubleQuoted(value)}"`;
+  const lines = value
+    .replaceAll("''", "'''")
+    .replaceAll('${', "''${")
+    .split('\n')
+    .map((line) => (line ? `${indent}${INDENT}${line}` : ''));
+  return `''\n${lines.join('\n')}''`;
+};
+
+/** Render an attribute name, quoting it when it is not a plain identifier. */
+export const renderNixAttrName = (name: string): string =>
+  NIX_IDENTIFIER_PATTERN.test(name) && !NIX_KEYWORDS.has(name)
+    ? name
+    : `"${escapeDoubleQuoted(name)}"`;
+
+const isRawExpression = (value: unknown): value is { __nixRaw: string } =>
+  isNonNullObject(value) && Object.keys(value).length === 1 && typeof value.__nixRaw === 'string';
+
+/**
+ * Nix float literals need a `.`, so `1e-7` is written as `1.0e-7`. Integers from `1e21` up only
+ * print in exponent form and become floats the same way.
+ */
+const renderNumber = (value: number): string => {
+  const rendered = String(value);
+  if (!rendered.includes('e') || rendered.includes('.')) return rendered;
+  return rendered.replace('e', '.0e');
+};
+
+/** Render a JSON value as a Nix expression; `{ __nixRaw }` values are emitted verbatim. */
+export const renderNixValue = (value: unknown, indent = ''): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return renderString(value, indent);
+  if (typeof value === 'number') return renderNumber(value);
+  if (typeof value === 'boolean') return String(value);
+  if (isRawExpression(value)) return value.__nixRaw;
+  const inner = `${indent}${INDENT}`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[ ]';
+    // A negative number would otherwise subtract from the previous list element
+    const items = value.map((item) => {
+      const rendered = renderNixValue(item, inner);
+      return rendered.startsWith('-') ? `(${rendered})` : rendered;
+    });
+    return `[\n${items.map((item) => `${inner}${item}`).join('\n')}\n${indent}]`;
+  }
+  if (isNonNullObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{ }';
+    return `{\n${entries
+      .map(([key, item]) => `${inner}${renderNixAttrName(key)} = ${renderNixValue(item, inner)};`)
+      .join('\n')}\n${indent}}`;
+  }
+  return 'null';
+};
+
+/** Render a JSON value as a single-line Nix expression, e.g. for a table cell. */
+export const renderNixInline = (value: unknown): string =>
+  typeof value === 'string'
+    ? `"${escapeDoubleQuoted(value)}"`
+    : renderNixValue(value).replace(/\n\s*/g, ' ');
+
+/** Apply enum values to `types.enum`; type strings the parser does not know are kept verbatim. */
+const renderType = (setting: PluginSettingJson, indent: string): string => {
+  const type = parseNixType(setting.type);
+  return type
+    ? renderNixType(type, () => `types.enum ${renderNixValue(setting.enumValues ?? [], indent)}`)
+    : setting.type;
+};
+
+const renderOption = (setting: PluginSettingJson, indent: string): string => {
+  const inner = `${indent}${INDENT}`;
+  const attrs = [
+    `type = ${renderType(setting, inner)};`,
+    `default = ${renderNixValue(setting.default, inner)};`,
+    // Docs render defaults from their evaluated value, which would print a float 1.0 as 1
+    ...(isRawExpression(setting.default)
+      ? [`defaultText = literalExpression ${renderString(setting.default.__nixRaw, inner)};`]
+      : []),
+    `description = ${renderString(describeSetting(setting), inner)};`,
+    ...(setting.example === undefined
+      ? []
+      : [`example = ${renderString(setting.example, inner)};`]),
+  ];
+  return `mkOption {\n${attrs.map((attr) => `${inner}${attr}`).join('\n')}\n${indent}}`;
+};
+
+const renderSecretFileOption = (name: string, indent: string): string => {
+  const inner = `${indent}${INDENT}`;
+  const attrs = [
+    'type = types.nullOr types.str;',
+    'default = null;',
+    `description = ${renderString(describeSecretFileOption(name), inner)};`,
+  ];
+  return `mkOption {\n${attrs.map((attr) => `${inner}${attr}`).join('\n')}\n${indent}}`;
+};
+
+const renderSettingBindings = (
+  name: string,
+  setting: PluginSettingJson | PluginJson,
+  indent: string
+): string[] => {
+  if (isPluginJson(setting))
+    return [`${renderNixAttrName(name)} = ${renderPlugin(setting, indent)};`];
+  return [
+    `${renderNixAttrName(name)} = ${renderOption(setting, indent)};`,
+    ...(setting.sensitive
+      ? [`${renderNixAttrName(`${name}File`)} = ${renderSecretFileOption(name, indent)};`]
+      : []),
+  ];
+};
+
+/**
+ * Like `mkPluginOptions.nix`, the `enable` option defaults to true for plugins the client runs
+ * unless disabled, and its description notes the builds the plugin is bundled into.
+ */
+const renderEnableOption = (plugin: PluginJson, indent: string): string => {
+  const inner = `${indent}${INDENT}`;
+  const notes = describePluginTargets(plugin.targets);
+  const overrides = [
+    ...(plugin.required || plugin.enabledByDefault ? ['default = true;'] : []),
+    ...(notes.length > 0
+      ? [
+          `description = ${renderString([`Whether to enable ${plugin.description}.`, ...notes].join('\n\n'), inner)};`,
+        ]
+      : []),
+  ];
+  const option = `mkEnableOption ${renderString(plugin.description, indent)}`;
+  return overrides.length === 0
+    ? option
+    : `${option} // {\n${overrides.map((binding) => `${inner}${binding}`).join('\n')}\n${indent}}`;
+};
+
+/** Like `mkPluginOptions.nix`, every plugin and nested setting group gets an `enable` option. */
+const renderPlugin = (plugin: PluginJson, indent: string): string => {
+  const inner = `${indent}${INDENT}`;
+  const bindings = [
+    `enable = ${renderEnableOption(plugin, inner)};`,
+    ...Object.entries(plugin.settings).flatMap(([name, setting]) =>
+      renderSettingBindings(name, setting, inner)
+    ),
+  ];
+  return `{\n${bindings.map((binding) => `${inner}${binding}`).join('\n')}\n${indent}}`;
+};
+
+/**
+ * Generate a Nix module fragment declaring the options of a shared/vencord/equicord plugin
+ * file directly, so evaluation does not go through `importJSON` and `mkPluginOptions.nix`.
+ */
+export const generateNixOptionsModule = (plugins: Readonly<Record<string, PluginJson>>): string => {
+  const bindings = sortedEntries(plugins).map(
+    ([name, plugin]) => `${INDENT}${renderNixAttrName(name)} = ${renderPlugin(plugin, INDENT)};`
+  );
+  return [
+    '# Generated by nixcord-gen. Do not edit.',
+    '{ lib, ... }:',
+    'let',
+    '  inherit (lib)',
+    '    literalExpression',
+    '    mkEnableOption',
+    '    mkOption',
+    '    types',
+    '    ;',
+    'in',
+    bindings.length === 0 ? '{ }' : `{\n${bindings.join('\n')}\n}`,
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,176 @@
+import type { NixType, PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
+import { INTEGER_STRING_PATTERN, isNestedConfig, isString } from '@nixcord/shared';
+import { sortedPluginsByNixIdentifier, toNixIdentifier } from './identifier.js';
+
+const NIX_PLUGINS_OPTION = 'programs.nixcord.config.plugins';
+const TS_IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+const INDENT = '  ';
+
+const SCALAR_TYPES: Partial<Record<NixType['kind'], string>> = {
+  bool: 'boolean',
+  int: 'number',
+  float: 'number',
+  str: 'string',
+  attrs: 'Record<string, unknown>',
+  between: 'number',
+};
+
+const formatPropertyKey = (name: string): string =>
+  TS_IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+
+/** Map a Nix type such as `nullOr str` to a TypeScript type; `enum` nodes take the setting's values. */
+const tsTypeForNixType = (type: NixType, enumType: string): string => {
+  switch (type.kind) {
+    case 'enum':
+      return enumType;
+    case 'listOf': {
+      const item = tsTypeForNixType(type.elem, enumType);
+      return item.includes(' ') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'attrsOf':
+      return `Record<string, ${tsTypeForNixType(type.elem, enumType)}>`;
+    case 'nullOr':
+      return `${tsTypeForNixType(type.elem, enumType)} | null`;
+    case 'submodule': {
+      const fields = Object.entries(type.options).map(
+        ([name, option]) => `${formatPropertyKey(name)}?: ${tsTypeForNixType(option, enumType)};`
+      );
+      return fields.length === 0 ? '{}' : `{ ${fields.join(' ')} }`;
+    }
+    default:
+      return SCALAR_TYPES[type.kind] ?? 'unknown';
+  }
+};
+
+const tsTypeForSetting = (setting: ReadonlyDeep<PluginSetting>): string =>
+  tsTypeForNixType(
+    setting.type,
+    setting.enumValues && setting.enumValues.length > 0
+      ? setting.enumValues.map((value) => JSON.stringify(value)).join(' | ')
+      : 'unknown'
+  );
+
+/** Digit-string defaults of int settings (BigInt IDs) are written to settings.json as numbers. */
+const formatDefault = (setting: ReadonlyDeep<PluginSetting>): string | undefined => {
+  const value = setting.default;
+  if (value === undefined) return undefined;
+  if (setting.type.kind === 'int' && isString(value) && INTEGER_STRING_PATTERN.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+};
+
+const renderDocComment = (lines: readonly string[], indent: string): string[] => {
+  const escaped = lines.flatMap((line) => line.replaceAll('*/', '*\\/').split('\n'));
+  if (escaped.length === 1) return [`${indent}/** ${escaped[0]} */`];
+  return [
+    `${indent}/**`,
+    ...escaped.map((line) => (line ? `${indent} * ${line}` : `${indent} *`)),
+    `${indent} */`,
+  ];
+};
+
+/** Render the members of a plugin or setting group, keyed by upstream setting name. */
+const renderMembers = (
+  config: ReadonlyDeep<PluginConfig>,
+  nixPath: string,
+  depth: number
+): string[] => {
+  const indent = INDENT.repeat(depth);
+  return Object.values(config.settings).flatMap((setting) => {
+    if (setting.name === 'enable') return [];
+    const settingNixPath = `${nixPath}.${toNixIdentifier(setting.name)}`;
+    const key = formatPropertyKey(setting.name);
+
+    if (isNestedConfig(setting)) {
+      const group = setting as ReadonlyDeep<PluginConfig>;
+      return [
+        ...renderDocComment(
+          [...(group.description ? [group.description, ''] : []), `@see ${settingNixPath}`],
+          indent
+        ),
+        `${indent}${key}?: {`,
+        ...renderMembers(group, settingNixPath, depth + 1),
+        `${indent}};`,
+      ];
+    }
+
+    const option = setting as ReadonlyDeep<PluginSetting>;
+    const defaultValue = formatDefault(option);
+    return [
+      ...renderDocComment(
+        [
+          ...(option.description ? [option.description, ''] : []),
+          ...(defaultValue === undefined ? [] : [`@default ${defaultValue}`]),
+          `@see ${settingNixPath}`,
+        ],
+        indent
+      ),
+      `${indent}${key}?: ${tsTypeForSetting(option)};`,
+    ];
+  });
+};
+
+const interfaceName = (nixName: string): string =>
+  `${nixName.charAt(0).toUpperCase()}${nixName.slice(1).replace(/[^A-Za-z0-9_$]/g, '_')}Settings`;
+
+/**
+ * Generate TypeScript declarations for the plugin settings in a client's settings.json: one
+ * interface per plugin keyed by upstream setting names, plus maps from both the upstream plugin
+ * names and the Nix identifiers to those interfaces.
+ */
+export function generatePluginTypesModule(
+  shared: ReadonlyDeep<Record<string, PluginConfig>>,
+  vencordOnly: ReadonlyDeep<Record<string, PluginConfig>>,
+  equicordOnly: ReadonlyDeep<Record<string, PluginConfig>>
+): string {
+  const sorted = sortedPluginsByNixIdentifier(shared, vencordOnly, equicordOnly).map(
+    ([nixName, config]) => ({
+      nixName,
+      upstreamName: config.name?.trim() || nixName,
+      config,
+    })
+  );
+
+  const interfaces = sorted.flatMap(({ nixName, config }) => [
+    ...renderDocComment(
+      [
+        ...(config.description ? [config.description, ''] : []),
+        `@see ${NIX_PLUGINS_OPTION}.${nixName}`,
+      ],
+      ''
+    ),
+    `export interface ${interfaceName(nixName)} {`,
+    `${INDENT}enabled?: boolean;`,
+    ...renderMembers(config, `${NIX_PLUGINS_OPTION}.${nixName}`, 1),
+    '}',
+    '',
+  ]);
+
+  return [
+    '// Generated by nixcord-gen from the Vencord and Equicord plugin sources. Do not edit.',
+    '',
+    ...interfaces,
+    '/** Plugin settings keyed by upstream plugin name, as in `settings.plugins` of settings.json. */',
+    'export interface PluginSettings {',
+    ...sorted.map(
+      ({ nixName, upstreamName }) =>
+        `${INDENT}${formatPropertyKey(upstreamName)}?: ${interfaceName(nixName)};`
+    ),
+    '}',
+    '',
+    `/** Upstream plugin names keyed by the Nix identifier used in \`${NIX_PLUGINS_OPTION}\`. */`,
+    'export interface NixPluginNames {',
+    ...sorted.map(
+      ({ nixName, upstreamName }) =>
+        `${INDENT}${formatPropertyKey(nixName)}: ${JSON.stringify(upstreamName)};`
+    ),
+    '}',
+    '',
+    '/** Plugin settings keyed by Nix identifier. */',
+    'export type NixPluginSettings = {',
+    `${INDENT}[Name in keyof NixPluginNames]: NonNullable<PluginSettings[NixPluginNames[Name]]>;`,
+    '};',
+    '',
+  ].join('\n');
+}
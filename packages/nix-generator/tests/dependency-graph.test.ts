@@ -0,0 +1,64 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { describe, expect, test } from 'vitest';
+import { generateDependencyGraphModule } from '../src/dependency-graph.js';
+
+type Plugins = ReadonlyDeep<Record<string, PluginConfig>>;
+
+const plugin = (name: string, dependencies?: string[]): PluginConfig => ({
+  name,
+  settings: {},
+  ...(dependencies ? { dependencies } : {}),
+});
+
+describe('generateDependencyGraphModule()', () => {
+  test('ends generated JSON with a newline', () => {
+    const output = generateDependencyGraphModule({}, {}, {});
+    expect(output.endsWith('\n')).toBe(true);
+    expect(JSON.parse(output)).toEqual({
+      vencord: { dependencies: {}, missing: {}, cycles: [] },
+      equicord: { dependencies: {}, missing: {}, cycles: [] },
+    });
+  });
+
+  test('resolves dependencies against the plugins each client ships', () => {
+    const shared: Plugins = {
+      CommandsAPI: plugin('CommandsAPI'),
+      FakeNitro: plugin('FakeNitro', ['CommandsAPI', 'MessageEventsAPI']),
+    };
+    const vencordOnly: Plugins = { MessageEventsAPI: plugin('MessageEventsAPI') };
+
+    const parsed = JSON.parse(generateDependencyGraphModule(shared, vencordOnly, {}));
+
+    expect(parsed.vencord.dependencies).toEqual({
+      fakeNitro: ['commandsApi', 'messageEventsApi'],
+    });
+    expect(parsed.vencord.missing).toEqual({});
+    expect(parsed.equicord.dependencies).toEqual({ fakeNitro: ['commandsApi'] });
+    expect(parsed.equicord.missing).toEqual({ fakeNitro: ['MessageEventsAPI'] });
+  });
+
+  test('resolves dependencies by upstream plugin name rather than directory', () => {
+    const shared: Plugins = {
+      'message-events': plugin('MessageEventsAPI'),
+      Logger: plugin('Logger', ['MessageEventsAPI']),
+    };
+
+    const parsed = JSON.parse(generateDependencyGraphModule(shared, {}, {}));
+
+    expect(parsed.vencord.dependencies).toEqual({ logger: ['messageEvents'] });
+  });
+
+  test('reports cycles, including plugins that depend on themselves', () => {
+    const shared: Plugins = {
+      Alpha: plugin('Alpha', ['Beta']),
+      Beta: plugin('Beta', ['Gamma']),
+      Gamma: plugin('Gamma', ['Alpha']),
+      Loop: plugin('Loop', ['Loop']),
+      Leaf: plugin('Leaf', ['Alpha']),
+    };
+
+    const parsed = JSON.parse(generateDependencyGraphModule(shared, {}, {}));
+
+    expect(parsed.vencord.cycles).toEqual([['alpha', 'beta', 'gamma'], ['loop']]);
+  });
+});
@@ -1,12 +1,17 @@
 import type { PluginConfig, PluginSetting, ReadonlyDeep } from '@nixcord/shared';
 import { describe, expect, test } from 'vitest';
-import { generatePluginJson, generatePluginModule, generateSettingJson } from '../src/generator.js';
+import {
+  describeSetting,
+  generatePluginJson,
+  generatePluginModule,
+  generateSettingJson,
+} from '../src/generator.js';
 
 describe('generateSettingJson()', () => {
   test('regular setting -> includes type', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'Message to display',
       default: 'Hello',
     };
@@ -19,7 +24,7 @@ describe('generateSettingJson()', () => {
   test('boolean type with default', () => {
     const setting: PluginSetting = {
       name: 'enabled',
-      type: 'types.bool',
+      type: { kind: 'bool' },
       description: 'Enable feature',
       default: true,
     };
@@ -31,7 +36,7 @@ describe('generateSettingJson()', () => {
   test('string type with default', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'Message',
       default: 'Hello World',
     };
@@ -43,7 +48,7 @@ describe('generateSettingJson()', () => {
   test('integer type with default', () => {
     const setting: PluginSetting = {
       name: 'count',
-      type: 'types.int',
+      type: { kind: 'int' },
       description: 'Count',
       default: 42,
     };
@@ -55,7 +60,7 @@ describe('generateSettingJson()', () => {
   test('float type with default', () => {
     const setting: PluginSetting = {
       name: 'ratio',
-      type: 'types.float',
+      type: { kind: 'float' },
       description: 'Ratio',
       default: 3.14,
     };
@@ -67,7 +72,7 @@ describe('generateSettingJson()', () => {
   test('float type with integer default emits __nixRaw', () => {
     const setting: PluginSetting = {
       name: 'pitch',
-      type: 'types.float',
+      type: { kind: 'float' },
       description: 'Pitch',
       default: 1,
     };
@@ -79,7 +84,7 @@ describe('generateSettingJson()', () => {
   test('int type with BigInt-like default string emits __nixRaw', () => {
     const setting: PluginSetting = {
       name: 'emojiId',
-      type: 'types.int',
+      type: { kind: 'int' },
       description: 'Emoji ID',
       default: '1026532993923293184',
     };
@@ -91,7 +96,7 @@ describe('generateSettingJson()', () => {
   test('enum type with enumValues', () => {
     const setting: PluginSetting = {
       name: 'choice',
-      type: 'types.enum',
+      type: { kind: 'enum' },
       description: 'Choose option',
       enumValues: ['option1', 'option2'],
     };
@@ -103,7 +108,7 @@ describe('generateSettingJson()', () => {
   test('enum type with enumLabels generates Values: description', () => {
     const setting: PluginSetting = {
       name: 'choice',
-      type: 'types.enum',
+      type: { kind: 'enum' },
       description: 'Choose option',
       enumValues: [0, 1, 2],
       enumLabels: {
@@ -120,7 +125,7 @@ describe('generateSettingJson()', () => {
   test('enum type with non-string labels are filtered out', () => {
     const setting: PluginSetting = {
       name: 'choice',
-      type: 'types.enum',
+      type: { kind: 'enum' },
       description: 'Choose option',
       enumValues: [0, 1, 2],
       enumLabels: {
@@ -138,7 +143,7 @@ describe('generateSettingJson()', () => {
   test('enum type without enumValues', () => {
     const setting: PluginSetting = {
       name: 'choice',
-      type: 'types.enum',
+      type: { kind: 'enum' },
       description: 'Choose option',
     };
     const result = generateSettingJson(setting);
@@ -149,7 +154,7 @@ describe('generateSettingJson()', () => {
   test('setting with description', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'A description\nwith multiple lines',
     };
     const result = generateSettingJson(setting);
@@ -159,7 +164,7 @@ describe('generateSettingJson()', () => {
   test('setting without description', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
     };
     const result = generateSettingJson(setting);
     expect(result.description).toBeUndefined();
@@ -168,7 +173,7 @@ describe('generateSettingJson()', () => {
   test('setting with example', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'Message',
       example: 'example-value',
     };
@@ -176,10 +181,44 @@ describe('generateSettingJson()', () => {
     expect(result.example).toBe('example-value');
   });
 
+  test('setting with restartNeeded and hidden flags', () => {
+    const setting: PluginSetting = {
+      name: 'message',
+      type: { kind: 'str' },
+      description: 'Message',
+      restartNeeded: true,
+      hidden: true,
+      sensitive: true,
+    };
+    const result = generateSettingJson(setting);
+    expect(result).toMatchObject({
+      description: 'Message',
+      restartNeeded: true,
+      hidden: true,
+      sensitive: true,
+    });
+    expect(describeSetting(result)).toBe(
+      "Message\n\nChanging this setting requires restarting the client.\n\nThis setting is hidden from the client's settings UI."
+    );
+  });
+
+  test('setting without flags omits them', () => {
+    const setting: PluginSetting = {
+      name: 'message',
+      type: { kind: 'str' },
+      restartNeeded: false,
+    };
+    const result = generateSettingJson(setting);
+    expect(result).not.toHaveProperty('restartNeeded');
+    expect(result).not.toHaveProperty('hidden');
+    expect(result).not.toHaveProperty('sensitive');
+    expect(describeSetting(result)).toBe('');
+  });
+
   test('setting without default', () => {
     const setting: PluginSetting = {
       name: 'message',
-      type: 'types.str',
+      type: { kind: 'str' },
       description: 'Message',
     };
     const result = generateSettingJson(setting);
@@ -189,7 +228,7 @@ describe('generateSettingJson()', () => {
   test('nullOr types.str with null default', () => {
     const setting: PluginSetting = {
       name: 'serverUrl',
-      type: 'types.nullOr types.str',
+      type: { kind: 'nullOr', elem: { kind: 'str' } },
       description: 'Server URL',
       default: null,
     };
@@ -198,10 +237,24 @@ describe('generateSettingJson()', () => {
     expect(result.default).toBeNull();
   });
 
+  test('submodule types are carried as types.attrs', () => {
+    const setting: PluginSetting = {
+      name: 'rules',
+      type: {
+        kind: 'listOf',
+        elem: { kind: 'submodule', options: { pattern: { kind: 'str' } } },
+      },
+      description: 'Rules',
+      default: [],
+    };
+    const result = generateSettingJson(setting);
+    expect(result.type).toBe('types.listOf types.attrs');
+  });
+
   test('nested default values (arrays)', () => {
     const setting: PluginSetting = {
       name: 'items',
-      type: 'types.listOf types.str',
+      type: { kind: 'listOf', elem: { kind: 'str' } },
       description: 'Items',
       default: ['item1', 'item2'],
     };
@@ -212,7 +265,7 @@ describe('generateSettingJson()', () => {
   test('nested default values (objects)', () => {
     const setting: PluginSetting = {
       name: 'config',
-      type: 'types.attrs',
+      type: { kind: 'attrs' },
       description: 'Configuration',
       default: { key: 'value' },
     };
@@ -229,13 +282,13 @@ describe('generatePluginJson()', () => {
       settings: {
         enable: {
           name: 'enable',
-          type: 'types.bool',
+          type: { kind: 'bool' },
           description: 'Enable plugin',
           default: true,
         },
         message: {
           name: 'message',
-          type: 'types.str',
+          type: { kind: 'str' },
           description: 'Message',
           default: 'test',
         },
@@ -255,7 +308,7 @@ describe('generatePluginJson()', () => {
       settings: {
         message: {
           name: 'message',
-          type: 'types.str',
+          type: { kind: 'str' },
           description: 'Message',
           default: 'test',
         },
@@ -306,7 +359,7 @@ describe('generatePluginJson()', () => {
           settings: {
             nested: {
               name: 'nested',
-              type: 'types.str',
+              type: { kind: 'str' },
               description: 'Nested setting',
               default: 'value',
             },
@@ -326,12 +379,12 @@ describe('generatePluginJson()', () => {
       settings: {
         setting1: {
           name: 'setting1',
-          type: 'types.str',
+          type: { kind: 'str' },
           description: 'Setting 1',
         },
         setting2: {
           name: 'setting2',
-          type: 'types.int',
+          type: { kind: 'int' },
           description: 'Setting 2',
         },
       },
@@ -351,6 +404,44 @@ describe('generatePluginJson()', () => {
     expect(result.description).toBe('Test plugin');
     expect(Object.keys(result.settings)).toHaveLength(0);
   });
+
+  test('plugin with targets carries its platforms and dev-only flag', () => {
+    const result = generatePluginJson('DevCompanion', {
+      name: 'DevCompanion',
+      targets: { platforms: ['discordDesktop', 'vesktop'], devOnly: true },
+      settings: {},
+    });
+    expect(result.targets).toEqual({ platforms: ['discordDesktop', 'vesktop'], devOnly: true });
+    expect(generatePluginJson('Plain', { name: 'Plain', settings: {} })).not.toHaveProperty(
+      'targets'
+    );
+  });
+
+  test('plugin with authors carries their names and IDs', () => {
+    const result = generatePluginJson('Petpet', {
+      name: 'Petpet',
+      authors: [{ name: 'Vee', id: '343383572805058560' }, { name: 'Nobody' }],
+      settings: {},
+    });
+    expect(result.authors).toEqual([{ name: 'Vee', id: '343383572805058560' }, { name: 'Nobody' }]);
+  });
+
+  test('plugin with enablement flags carries only the set ones', () => {
+    const required = generatePluginJson('NoTrack', {
+      name: 'NoTrack',
+      required: true,
+      enabledByDefault: false,
+      settings: {},
+    });
+    expect(required).toEqual({ description: '', required: true, settings: {} });
+
+    const enabled = generatePluginJson('BadgeAPI', {
+      name: 'BadgeAPI',
+      enabledByDefault: true,
+      settings: {},
+    });
+    expect(enabled).toEqual({ description: '', enabledByDefault: true, settings: {} });
+  });
 });
 
 describe('generatePluginModule()', () => {
@@ -452,7 +543,7 @@ describe('generatePluginModule()', () => {
         settings: {
           BadgeAPI: {
             name: 'BadgeAPI',
-            type: 'types.bool',
+            type: { kind: 'bool' },
             description: 'Show API badge',
             default: false,
           },
@@ -0,0 +1,168 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { describe, expect, test } from 'vitest';
+import { generatePluginJsonSchemaModule } from '../src/json-schema.js';
+
+describe('generatePluginJsonSchemaModule()', () => {
+  const shared: ReadonlyDeep<Record<string, PluginConfig>> = {
+    ClearURLs: {
+      name: 'ClearURLs',
+      description: 'Removes tracking garbage from URLs',
+      settings: {
+        enable: { name: 'enable', type: { kind: 'bool' }, default: true },
+        notifyOnClean: {
+          name: 'notifyOnClean',
+          type: { kind: 'bool' },
+          description: 'Show a toast',
+          default: false,
+        },
+      },
+    },
+  } as const;
+
+  const vencordOnly: ReadonlyDeep<Record<string, PluginConfig>> = {
+    CustomRPC: {
+      name: 'CustomRPC',
+      description: 'Custom rich presence',
+      settings: {
+        appID: { name: 'appID', type: { kind: 'int' }, default: '1234567890' },
+        timestampMode: {
+          name: 'timestampMode',
+          type: { kind: 'enum' },
+          enumValues: [0, 1],
+          enumLabels: { 0: 'None', 1: 'Since start' },
+          default: 0,
+        },
+        buttons: {
+          name: 'buttons',
+          description: 'Buttons',
+          settings: {
+            labels: {
+              name: 'labels',
+              type: { kind: 'listOf', elem: { kind: 'str' } },
+              default: [],
+            },
+            url: { name: 'url', type: { kind: 'nullOr', elem: { kind: 'str' } }, default: null },
+          },
+        },
+      },
+    },
+  } as const;
+
+  const equicordOnly: ReadonlyDeep<Record<string, PluginConfig>> = {
+    petpet: {
+      name: 'petpet',
+      description: 'Pet pets',
+      settings: {
+        mode: {
+          name: 'mode',
+          type: { kind: 'enum' },
+          enumValues: ['slow', 'fast'],
+          default: 'slow',
+        },
+        scale: { name: 'scale', type: { kind: 'float' }, default: 1 },
+      },
+    },
+  } as const;
+
+  const generate = () =>
+    JSON.parse(generatePluginJsonSchemaModule(shared, vencordOnly, equicordOnly));
+
+  test('describes every plugin with a closed set of properties', () => {
+    const schema = generate();
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.additionalProperties).toBe(false);
+    expect(Object.keys(schema.properties)).toEqual(['clearUrls', 'customRpc', 'petpet']);
+    expect(schema.properties.clearUrls).toEqual({
+      type: 'object',
+      description: 'Removes tracking garbage from URLs',
+      properties: {
+        enable: {
+          type: 'boolean',
+          description: 'Whether to enable Removes tracking garbage from URLs.',
+          default: false,
+        },
+        notifyOnClean: { type: 'boolean', description: 'Show a toast', default: false },
+      },
+      additionalProperties: false,
+    });
+  });
+
+  test('maps Nix types, enums with labels and nested groups', () => {
+    const { customRpc, petpet } = generate().properties;
+
+    expect(customRpc.properties.appId).toEqual({ type: 'integer', default: 1234567890 });
+    expect(customRpc.properties.timestampMode).toEqual({
+      oneOf: [
+        { const: 0, title: 'None' },
+        { const: 1, title: 'Since start' },
+      ],
+      default: 0,
+    });
+    expect(customRpc.properties.buttons).toEqual({
+      type: 'object',
+      description: 'Buttons',
+      properties: {
+        labels: { type: 'array', items: { type: 'string' }, default: [] },
+        url: { anyOf: [{ type: 'string' }, { type: 'null' }], default: null },
+      },
+      additionalProperties: false,
+    });
+    expect(petpet.properties.mode).toEqual({ enum: ['slow', 'fast'], default: 'slow' });
+    expect(petpet.properties.scale).toEqual({ type: 'number', default: 1 });
+  });
+
+  test('defaults enable to what the client does and pins required plugins on', () => {
+    const schema = JSON.parse(
+      generatePluginJsonSchemaModule(
+        {
+          NoTrack: { name: 'NoTrack', required: true, settings: {} },
+          BadgeAPI: { name: 'BadgeAPI', enabledByDefault: true, settings: {} },
+        },
+        {},
+        {}
+      )
+    );
+
+    expect(schema.properties.noTrack.properties.enable).toMatchObject({
+      const: true,
+      default: true,
+    });
+    expect(schema.properties.badgeApi.properties.enable).not.toHaveProperty('const');
+    expect(schema.properties.badgeApi.properties.enable.default).toBe(true);
+  });
+
+  test('adds a nullable file option next to each sensitive setting', () => {
+    const schema = JSON.parse(
+      generatePluginJsonSchemaModule(
+        {
+          FileUpload: {
+            name: 'FileUpload',
+            settings: {
+              ziplineToken: {
+                name: 'ziplineToken',
+                type: { kind: 'str' },
+                default: '',
+                sensitive: true,
+              },
+            },
+          },
+        },
+        {},
+        {}
+      )
+    );
+
+    expect(schema.properties.fileUpload.properties.ziplineTokenFile).toEqual({
+      anyOf: [{ type: 'string' }, { type: 'null' }],
+      description:
+        'Path to a file holding the value of `ziplineToken`, read at activation so it stays out of the Nix store. Takes precedence over `ziplineToken`.',
+      default: null,
+    });
+    expect(schema.properties.fileUpload.additionalProperties).toBe(false);
+  });
+
+  test('ends generated JSON with a newline', () => {
+    expect(generatePluginJsonSchemaModule({}, {}, {}).endsWith('\n')).toBe(true);
+  });
+});
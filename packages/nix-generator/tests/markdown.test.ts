@@ -0,0 +1,112 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { describe, expect, test } from 'vitest';
+import { generatePluginMarkdown } from '../src/markdown.js';
+
+describe('generatePluginMarkdown()', () => {
+  const plugins: ReadonlyDeep<Record<string, PluginConfig>> = {
+    CustomRPC: {
+      name: 'CustomRPC',
+      description: 'Custom rich presence',
+      settings: {
+        enable: { name: 'enable', type: { kind: 'bool' }, default: true },
+        timestampMode: {
+          name: 'timestampMode',
+          type: { kind: 'enum' },
+          description: 'When | to show timestamps',
+          enumValues: [0, 1],
+          enumLabels: { 0: 'None', 1: 'Since start' },
+          default: 0,
+        },
+        buttons: {
+          name: 'buttons',
+          settings: {
+            scale: { name: 'scale', type: { kind: 'float' }, default: 1 },
+          },
+        },
+      },
+    },
+    petpet: { name: 'petpet', description: 'Pet pets', settings: {} },
+  } as const;
+
+  test('renders a settings table and a Nix example per plugin', () => {
+    expect(generatePluginMarkdown(plugins, 'vencord')).toBe(
+      [
+        '# Vencord-only plugins',
+        '',
+        'Plugins only available in Vencord.',
+        '',
+        '## CustomRPC',
+        '',
+        'Custom rich presence',
+        '',
+        '| Option | Type | Default | Values | Description |',
+        '| --- | --- | --- | --- | --- |',
+        '| `programs.nixcord.config.plugins.customRpc.timestampMode` | `types.enum [ 0 1 ]` | `0` | 0 = None, 1 = Since start | When \\| to show timestamps |',
+        '| `programs.nixcord.config.plugins.customRpc.buttons.scale` | `types.float` | `1.0` |  |  |',
+        '',
+        '```nix',
+        'programs.nixcord.config.plugins.customRpc = {',
+        '  enable = true;',
+        '  timestampMode = 0;',
+        '  buttons = {',
+        '    scale = 1.0;',
+        '  };',
+        '};',
+        '```',
+        '',
+        '## petpet',
+        '',
+        'Pet pets',
+        '',
+        'This plugin has no settings besides `enable`.',
+        '',
+        '```nix',
+        'programs.nixcord.config.plugins.petpet = {',
+        '  enable = true;',
+        '};',
+        '```',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('notes the builds a plugin is bundled into below its description', () => {
+    const markdown = generatePluginMarkdown(
+      {
+        NoRPC: {
+          name: 'NoRPC',
+          description: 'Disables RPC',
+          targets: { platforms: ['discordDesktop'], devOnly: true },
+          settings: {},
+        },
+      },
+      'shared'
+    );
+
+    expect(markdown).toContain(
+      'Disables RPC\n\nOnly available in the Discord desktop build. Only available in development builds.\n\n'
+    );
+  });
+
+  test('lists the upstream authors below the description', () => {
+    const markdown = generatePluginMarkdown(
+      {
+        petpet: {
+          name: 'petpet',
+          description: 'Pet pets',
+          authors: [{ name: 'Vee', id: '343383572805058560' }, { name: 'Nobody' }],
+          settings: {},
+        },
+      },
+      'shared'
+    );
+
+    expect(markdown).toContain('Pet pets\n\nAuthors: Vee, Nobody\n\n');
+  });
+
+  test('renders only the heading for an empty category', () => {
+    expect(generatePluginMarkdown({}, 'shared')).toBe(
+      '# Shared plugins\n\nPlugins available in both Vencord and Equicord.\n'
+    );
+  });
+});
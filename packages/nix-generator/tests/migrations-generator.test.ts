@@ -87,7 +87,7 @@ describe('generateMigrationsData()', () => {
         settings: {
           format: {
             name: 'format',
-            type: 'types.str',
+            type: { kind: 'str' },
             description: '',
             default: 'compact',
           },
@@ -188,7 +188,7 @@ describe('generateMigrationsData()', () => {
         settings: {
           BadgeAPI: {
             name: 'BadgeAPI',
-            type: 'types.bool',
+            type: { kind: 'bool' },
             description: '',
             default: false,
           },
@@ -0,0 +1,189 @@
+import { describe, expect, test } from 'vitest';
+import type { PluginJson } from '../src/generator.js';
+import { generateNixOptionsModule } from '../src/nix-module.js';
+
+describe('generateNixOptionsModule()', () => {
+  test('declares enable plus one mkOption per setting', () => {
+    const plugins: Record<string, PluginJson> = {
+      petpet: {
+        description: 'Pet pets',
+        settings: {
+          scale: { type: 'types.float', default: { __nixRaw: '1.0' }, description: 'Scale' },
+          mode: { type: 'types.enum', enumValues: ['slow', 'fast'], default: 'slow' },
+          offsets: { type: 'types.listOf types.int', default: [-1, 2] },
+          group: {
+            description: 'Group',
+            settings: {
+              on: { type: 'types.bool', default: true, example: 'false', restartNeeded: true },
+            },
+          },
+        },
+      },
+    };
+
+    expect(generateNixOptionsModule(plugins)).toBe(
+      [
+        '# Generated by nixcord-gen. Do not edit.',
+        '{ lib, ... }:',
+        'let',
+        '  inherit (lib)',
+        '    literalExpression',
+        '    mkEnableOption',
+        '    mkOption',
+        '    types',
+        '    ;',
+        'in',
+        '{',
+        '  petpet = {',
+        '    enable = mkEnableOption "Pet pets";',
+        '    scale = mkOption {',
+        '      type = types.float;',
+        '      default = 1.0;',
+        '      defaultText = literalExpression "1.0";',
+        '      description = "Scale";',
+        '    };',
+        '    mode = mkOption {',
+        '      type = types.enum [',
+        '        "slow"',
+        '        "fast"',
+        '      ];',
+        '      default = "slow";',
+        '      description = "";',
+        '    };',
+        '    offsets = mkOption {',
+        '      type = types.listOf types.int;',
+        '      default = [',
+        '        (-1)',
+        '        2',
+        '      ];',
+        '      description = "";',
+        '    };',
+        '    group = {',
+        '      enable = mkEnableOption "Group";',
+        '      on = mkOption {',
+        '        type = types.bool;',
+        '        default = true;',
+        '        description = "Changing this setting requires restarting the client.";',
+        '        example = "false";',
+        '      };',
+        '    };',
+        '  };',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('escapes interpolations and quotes in double-quoted and indented strings', () => {
+    const output = generateNixOptionsModule({
+      'my plugin': {
+        description: 'Say "hi" to ${user}\\n',
+        settings: {
+          text: {
+            type: 'types.str',
+            default: "a ''b'' ${c}",
+            description: "Shows ''${name}''\nValues: 0 = Off, 1 = On",
+          },
+        },
+      },
+    });
+
+    expect(output).toContain('  "my plugin" = {');
+    expect(output).toContain('enable = mkEnableOption "Say \\"hi\\" to \\${user}\\\\n";');
+    expect(output).toContain("default = \"a ''b'' \\${c}\";");
+    expect(output).toContain(
+      [
+        "      description = ''",
+        "        Shows '''''${name}'''",
+        "        Values: 0 = Off, 1 = On'';",
+      ].join('\n')
+    );
+  });
+
+  test('applies enum values inside composite types', () => {
+    const output = generateNixOptionsModule({
+      petpet: {
+        description: 'Pet pets',
+        settings: {
+          modes: { type: 'types.listOf types.enum', enumValues: ['slow'], default: [] },
+          custom: { type: 'types.package', default: null },
+        },
+      },
+    });
+
+    expect(output).toContain(
+      ['      type = types.listOf (types.enum [', '        "slow"', '      ]);'].join('\n')
+    );
+    expect(output).toContain('      type = types.package;');
+  });
+
+  test('adds a file option next to sensitive settings', () => {
+    const output = generateNixOptionsModule({
+      lastFmRichPresence: {
+        description: 'Last.fm presence',
+        settings: { apiKey: { type: 'types.str', default: '', sensitive: true } },
+      },
+    });
+
+    expect(output).toContain(
+      [
+        '    apiKeyFile = mkOption {',
+        '      type = types.nullOr types.str;',
+        '      default = null;',
+        '      description = "Path to a file holding the value of `apiKey`, read at activation so it stays out of the Nix store. Takes precedence over `apiKey`.";',
+        '    };',
+      ].join('\n')
+    );
+  });
+
+  test('defaults enable to true for required and enabled-by-default plugins', () => {
+    const output = generateNixOptionsModule({
+      noTrack: { description: 'No tracking', required: true, settings: {} },
+      badgeApi: { description: 'Badges', enabledByDefault: true, settings: {} },
+      petpet: { description: 'Pet pets', settings: {} },
+    });
+
+    expect(output).toContain(
+      ['    enable = mkEnableOption "No tracking" // {', '      default = true;', '    };'].join(
+        '\n'
+      )
+    );
+    expect(output).toContain(
+      ['    enable = mkEnableOption "Badges" // {', '      default = true;', '    };'].join('\n')
+    );
+    expect(output).toContain('enable = mkEnableOption "Pet pets";');
+  });
+
+  test('notes the builds a plugin is bundled into on its enable option', () => {
+    const output = generateNixOptionsModule({
+      shikiCodeblocks: {
+        description: 'Syntax highlighting',
+        targets: { platforms: ['discordDesktop', 'vesktop'] },
+        settings: {},
+      },
+      devCompanion: {
+        description: 'Dev companion',
+        targets: { platforms: ['discordDesktop', 'vesktop', 'web'], devOnly: true },
+        settings: {},
+      },
+    });
+
+    expect(output).toContain(
+      [
+        '    enable = mkEnableOption "Syntax highlighting" // {',
+        "      description = ''",
+        '        Whether to enable Syntax highlighting.',
+        '',
+        "        Only available in the Discord desktop and Vesktop builds.'';",
+        '    };',
+      ].join('\n')
+    );
+    expect(output).toContain(
+      "Whether to enable Dev companion.\n\n        Only available in development builds.'';"
+    );
+  });
+
+  test('writes an empty attribute set when there are no plugins', () => {
+    expect(generateNixOptionsModule({}).endsWith('in\n{ }\n')).toBe(true);
+  });
+});
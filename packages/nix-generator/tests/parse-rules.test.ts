@@ -80,13 +80,13 @@ describe('generateParseRulesModule()', () => {
             betaSetting: {
               name: 'Beta Setting',
               description: 'Needs a rename',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: '',
             },
             alphaSetting: {
               name: 'Alpha Setting',
               description: 'Needs a rename',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: '',
             },
           },
@@ -98,7 +98,7 @@ describe('generateParseRulesModule()', () => {
             renamedSetting: {
               name: 'Renamed Setting',
               description: 'Needs a rename',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: '',
             },
           },
@@ -0,0 +1,102 @@
+import type { PluginConfig, ReadonlyDeep } from '@nixcord/shared';
+import { describe, expect, test } from 'vitest';
+import { generatePluginTypesModule } from '../src/type-declarations.js';
+
+describe('generatePluginTypesModule()', () => {
+  const vencordOnly: ReadonlyDeep<Record<string, PluginConfig>> = {
+    CustomRPC: {
+      name: 'CustomRPC',
+      description: 'Custom rich presence',
+      settings: {
+        enable: { name: 'enable', type: { kind: 'bool' }, default: true },
+        appID: { name: 'appID', type: { kind: 'int' }, default: '1234567890' },
+        timestampMode: {
+          name: 'timestampMode',
+          type: { kind: 'enum' },
+          description: 'When to show */ timestamps',
+          enumValues: [0, 1],
+          default: 0,
+        },
+        buttons: {
+          name: 'buttons',
+          settings: {
+            'button labels': {
+              name: 'button labels',
+              type: { kind: 'listOf', elem: { kind: 'str' } },
+            },
+            url: { name: 'url', type: { kind: 'nullOr', elem: { kind: 'str' } }, default: null },
+          },
+        },
+      },
+    },
+  } as const;
+
+  test('writes one interface per plugin keyed by upstream setting names', () => {
+    const output = generatePluginTypesModule({}, vencordOnly, {});
+
+    expect(output).toContain(
+      [
+        '/**',
+        ' * Custom rich presence',
+        ' *',
+        ' * @see programs.nixcord.config.plugins.customRpc',
+        ' */',
+        'export interface CustomRpcSettings {',
+        '  enabled?: boolean;',
+        '  /**',
+        '   * @default 1234567890',
+        '   * @see programs.nixcord.config.plugins.customRpc.appId',
+        '   */',
+        '  appID?: number;',
+        '  /**',
+        '   * When to show *\\/ timestamps',
+        '   *',
+        '   * @default 0',
+        '   * @see programs.nixcord.config.plugins.customRpc.timestampMode',
+        '   */',
+        '  timestampMode?: 0 | 1;',
+        '  /** @see programs.nixcord.config.plugins.customRpc.buttons */',
+        '  buttons?: {',
+        '    /** @see programs.nixcord.config.plugins.customRpc.buttons.buttonLabels */',
+        '    "button labels"?: string[];',
+        '    /**',
+        '     * @default null',
+        '     * @see programs.nixcord.config.plugins.customRpc.buttons.url',
+        '     */',
+        '    url?: string | null;',
+        '  };',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  test('maps both upstream plugin names and Nix identifiers to the interfaces', () => {
+    const output = generatePluginTypesModule(
+      { petpet: { name: 'petpet', description: 'Pet pets', settings: {} } },
+      vencordOnly,
+      {}
+    );
+
+    expect(output).toContain(
+      [
+        'export interface PluginSettings {',
+        '  CustomRPC?: CustomRpcSettings;',
+        '  petpet?: PetpetSettings;',
+        '}',
+      ].join('\n')
+    );
+    expect(output).toContain(
+      [
+        'export interface NixPluginNames {',
+        '  customRpc: "CustomRPC";',
+        '  petpet: "petpet";',
+        '}',
+      ].join('\n')
+    );
+    expect(output).toContain('export type NixPluginSettings = {');
+  });
+
+  test('ends generated declarations with a newline', () => {
+    expect(generatePluginTypesModule({}, {}, {}).endsWith('\n')).toBe(true);
+  });
+});
@@ -3,6 +3,31 @@ import { filterNullish } from '@nixcord/shared';
 
 const PLUGIN_RENAME_MAP: Record<string, string> = { oneko: 'CursorBuddy' };
 
+/**
+ * Why a plugin landed in its category:
+ * - `matched-by-*`: shared; Vencord and Equicord ship the same setting surface
+ * - `no-equicord-counterpart`, `modified-in-equicord`, `settings-differ`: Vencord-only
+ * - `equicord-plugin`, `equicord-modified-copy`, `equicord-shared-only`: Equicord-only
+ */
+export type PluginCategorizationReason =
+  | 'matched-by-name'
+  | 'matched-by-rename'
+  | 'matched-by-directory'
+  | 'no-equicord-counterpart'
+  | 'modified-in-equicord'
+  | 'settings-differ'
+  | 'equicord-plugin'
+  | 'equicord-modified-copy'
+  | 'equicord-shared-only';
+
+export interface PluginCategorization {
+  readonly name: string;
+  readonly category: 'shared' | 'vencord' | 'equicord';
+  readonly reason: PluginCategorizationReason;
+}
+
+type EquicordMatch = 'name' | 'rename' | 'directory';
+
 const collectSettingNames = (config: PluginConfig): readonly string[] => {
   const names: string[] = [];
   const collect = (settings: PluginConfig['settings']) => {
@@ -33,6 +58,7 @@ export function categorizePlugins(
   readonly generic: ReadonlyDeep<Record<string, PluginConfig>>;
   readonly vencordOnly: ReadonlyDeep<Record<string, PluginConfig>>;
   readonly equicordOnly: ReadonlyDeep<Record<string, PluginConfig>>;
+  readonly categorization: readonly PluginCategorization[];
 } {
   const vencordPlugins = vencordResult.vencordPlugins;
   const equicordSharedPlugins = equicordResult?.vencordPlugins ?? {};
@@ -46,27 +72,35 @@ export function categorizePlugins(
     }, new Map<string, string>());
 
   const pluginMatches = Object.entries(vencordPlugins).map(([name, config]) => {
-    const getEquicordConfig = (): PluginConfig | undefined => {
+    const getEquicordConfig = (): { config: PluginConfig; match: EquicordMatch } | undefined => {
       const existing = equicordSharedPlugins[name];
-      if (existing) return existing;
+      if (existing) return { config: existing, match: 'name' };
 
       const renamedPlugin = PLUGIN_RENAME_MAP[name];
       if (renamedPlugin) {
-        return equicordOnlyPlugins[renamedPlugin] || equicordSharedPlugins[renamedPlugin];
+        const renamed = equicordOnlyPlugins[renamedPlugin] || equicordSharedPlugins[renamedPlugin];
+        return renamed ? { config: renamed, match: 'rename' } : undefined;
       }
 
       const dirName = config?.directoryName;
       if (typeof dirName === 'string') {
         const equicordName = equicordDirectoryMap.get(dirName.toLowerCase());
         if (equicordName) {
-          return equicordSharedPlugins[equicordName];
+          const byDirectory = equicordSharedPlugins[equicordName];
+          return byDirectory ? { config: byDirectory, match: 'directory' } : undefined;
         }
       }
 
       return undefined;
     };
 
-    return { name, config, equicordConfig: getEquicordConfig() };
+    const equicordMatch = getEquicordConfig();
+    return {
+      name,
+      config,
+      equicordConfig: equicordMatch?.config,
+      equicordMatch: equicordMatch?.match,
+    };
   });
 
   const genericMatches = pluginMatches.filter(
@@ -131,7 +165,43 @@ export function categorizePlugins(
     )
   );
 
+  const vencordReason = ({
+    equicordConfig,
+  }: (typeof vencordMatches)[number]): PluginCategorizationReason => {
+    if (equicordConfig === undefined) return 'no-equicord-counterpart';
+    return equicordConfig.isModified ? 'modified-in-equicord' : 'settings-differ';
+  };
+
+  const categorization: PluginCategorization[] = [
+    ...genericMatches.map(({ name, equicordMatch }) => ({
+      name,
+      category: 'shared' as const,
+      reason: `matched-by-${equicordMatch ?? 'name'}` as const,
+    })),
+    ...vencordMatches.map((match) => ({
+      name: match.name,
+      category: 'vencord' as const,
+      reason: vencordReason(match),
+    })),
+    ...Object.keys(filteredEquicordOnly).map((name) => ({
+      name,
+      category: 'equicord' as const,
+      reason: 'equicord-plugin' as const,
+    })),
+    ...Object.keys(modifiedSharedPlugins).map((name) => ({
+      name,
+      category: 'equicord' as const,
+      reason: 'equicord-modified-copy' as const,
+    })),
+    ...Object.keys(equicordSharedExtras).map((name) => ({
+      name,
+      category: 'equicord' as const,
+      reason: 'equicord-shared-only' as const,
+    })),
+  ];
+
   return {
+    categorization,
     generic: filterNullish(Object.fromEntries(genericTuples)) as ReadonlyDeep<
       Record<string, PluginConfig>
     >,
@@ -4,30 +4,48 @@ import {
   findDefinePluginSettings,
   type SettingsExtractionDiagnostic,
 } from '@nixcord/ast';
-import type { ParseDiagnostic } from '@nixcord/shared';
+import type { ParseDiagnostic, ParseDiagnosticRange } from '@nixcord/shared';
+import type { Node } from 'ts-morph';
+
+type SettingsCall = NonNullable<ReturnType<typeof findDefinePluginSettings>>;
 
 export function diagnosticsFromSettingsExtraction(
   pluginName: string,
-  settingsCall: NonNullable<ReturnType<typeof findDefinePluginSettings>>,
+  settingsCall: SettingsCall,
   extractionResult: ExtractionResult<ExtractedSettings>
 ): ParseDiagnostic[] {
-  const filePath = settingsCall.getSourceFile().getFilePath();
   return extractionResult.diagnostics.map((diagnostic) =>
-    parseDiagnosticFromExtractionDiagnostic(pluginName, filePath, diagnostic)
+    parseDiagnosticFromExtractionDiagnostic(pluginName, settingsCall, diagnostic)
   );
 }
 
+function nodeRange(node: Node): ParseDiagnosticRange {
+  const sourceFile = node.getSourceFile();
+  const start = sourceFile.getLineAndColumnAtPos(node.getStart());
+  const end = sourceFile.getLineAndColumnAtPos(node.getEnd());
+  return {
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+  };
+}
+
 function parseDiagnosticFromExtractionDiagnostic(
   pluginName: string,
-  fallbackFilePath: string,
+  settingsCall: SettingsCall,
   diagnostic: SettingsExtractionDiagnostic
 ): ParseDiagnostic {
   const keyPrefix = diagnostic.key ? ` setting "${diagnostic.key}"` : '';
   const extractorSuffix = diagnostic.extractor ? ` (${diagnostic.extractor})` : '';
+  // Diagnostics without a node are reported against the settings call they came from
+  const node = diagnostic.node ?? settingsCall;
   return {
     pluginName,
-    filePath: diagnostic.node?.getSourceFile().getFilePath() ?? fallbackFilePath,
+    filePath: node.getSourceFile().getFilePath(),
     kind: diagnostic.kind,
     message: `${diagnostic.message}${keyPrefix}${extractorSuffix}`,
+    ...(diagnostic.key ? { settingKey: diagnostic.key } : {}),
+    range: nodeRange(node),
   };
 }
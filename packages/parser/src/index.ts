@@ -1,7 +1,13 @@
+export type { PluginCategorization, PluginCategorizationReason } from './categorize.js';
 export { categorizePlugins } from './categorize.js';
 export { extractMigrations } from './migrations.js';
-export type { ParsePluginsOptions } from './parse-plugins.js';
-export { parsePlugins } from './parse-plugins.js';
+export type { SettingOrigin } from './origins.js';
+export type {
+  ParsePluginsOptions,
+  PluginInspection,
+  PluginsParseSession,
+} from './parse-plugins.js';
+export { createPluginsParseSession, inspectPlugin, parsePlugins } from './parse-plugins.js';
 export type { PluginSource } from './plugin-source.js';
 export { createEquicordSource, createVencordSource } from './plugin-source.js';
 export { createProject } from './project.js';
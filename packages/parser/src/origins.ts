@@ -0,0 +1,35 @@
+import type {
+  ExtractedSettings,
+  ExtractionResult,
+  findDefinePluginSettings,
+  SettingsExtractionOrigin,
+} from '@nixcord/ast';
+
+/** Source location of an extracted setting, detached from the ts-morph project. */
+export interface SettingOrigin {
+  /** Setting key; dotted for settings inside a settings group. */
+  readonly key: string;
+  readonly filePath: string;
+  readonly line: number;
+  readonly extractor?: string;
+}
+
+export function settingOriginsFromExtraction(
+  settingsCall: NonNullable<ReturnType<typeof findDefinePluginSettings>>,
+  extractionResult: ExtractionResult<ExtractedSettings>
+): SettingOrigin[] {
+  return extractionResult.origins.map((origin) => settingOrigin(settingsCall, origin));
+}
+
+function settingOrigin(
+  settingsCall: NonNullable<ReturnType<typeof findDefinePluginSettings>>,
+  origin: SettingsExtractionOrigin
+): SettingOrigin {
+  const node = origin.node ?? settingsCall;
+  return {
+    key: origin.key,
+    filePath: node.getSourceFile().getFilePath(),
+    line: node.getStartLineNumber(),
+    ...(origin.extractor ? { extractor: origin.extractor } : {}),
+  };
+}
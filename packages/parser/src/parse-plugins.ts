@@ -4,6 +4,7 @@ import {
   extractSettingsFromCallDetailed,
   extractSettingsFromObject,
   findDefinePluginCall,
+  markFetchHeaderSettings,
 } from '@nixcord/ast';
 import type {
   ParseDiagnostic,
@@ -19,36 +20,57 @@ import { CLI_CONFIG } from '@nixcord/shared';
 import fg from 'fast-glob';
 import fse from 'fs-extra';
 import pLimit from 'p-limit';
-import { basename, dirname, join, normalize } from 'pathe';
+import { basename, dirname, isAbsolute, join, normalize, relative } from 'pathe';
 import { type Project, SyntaxKind } from 'ts-morph';
 import * as z from 'zod';
 import { diagnosticsFromSettingsExtraction } from './diagnostics.js';
+import { type SettingOrigin, settingOriginsFromExtraction } from './origins.js';
 import {
   createPluginSourceFileSession,
   findPluginSettingsCall,
   findPluginSourceFile,
   findSettingsSourceFile,
+  isSingleFilePlugin,
 } from './plugin-session.js';
 import { createProject } from './project.js';
 import { extractPluginRenames, extractSettingRenames } from './renames.js';
+import { parsePluginDirName } from './targets.js';
 
 const SERIAL_PROJECT_MUTATION_LIMIT = 1;
 const PROGRESS_REPORT_INTERVAL = 10;
 const PLUGIN_DIR_SEPARATOR_PATTERN = /[-_]/;
-const PLUGIN_FILE_GLOB_PATTERN = '*/index.{ts,tsx}';
+const PLUGIN_ENTRY_GLOB_PATTERN = 'index.{ts,tsx}';
+const PLUGIN_ENTRY_FILE_PATTERN = /^index\.tsx?$/i;
+// Core and API plugins live in `_core`, `_api`, ... as single files or directories
+const PLUGIN_GROUP_GLOB_PATTERN = '_*';
+const PLUGIN_GROUP_PREFIX = '_';
 const CURRENT_DIRECTORY = '.';
 
+const PluginDirPatternSchema = z
+  .string()
+  .min(1)
+  .refine((pattern) => !pattern.includes('/'), 'Plugin filters match a single directory name');
+
 const ParsePluginsOptionsSchema = z.object({
   vencordPluginsDir: z.string().min(1).optional(),
   equicordPluginsDir: z.string().min(1).optional(),
+  only: z.array(PluginDirPatternSchema).optional(),
+  exclude: z.array(PluginDirPatternSchema).optional(),
 });
 
+/** Glob patterns matched case-insensitively against plugin directory names. */
+interface PluginDirFilter {
+  readonly only?: readonly string[] | undefined;
+  readonly exclude?: readonly string[] | undefined;
+}
+
 interface SinglePluginResult {
   kind: 'parsed';
   entry: [string, PluginConfig];
   settingRenames: SettingRename[];
   pluginRenames: PluginRename[];
   diagnostics: ParseDiagnostic[];
+  settingOrigins: SettingOrigin[];
 }
 
 interface SkippedPluginResult {
@@ -70,17 +92,10 @@ interface DirectoryParseResult {
   diagnostics: ParseDiagnostic[];
 }
 
-const emptyDirectoryResult = (): DirectoryParseResult => ({
-  plugins: {} as ReadonlyDeep<Record<string, PluginConfig>>,
-  settingRenames: [],
-  pluginRenames: [],
-  diagnostics: [],
-});
-
 const inferPluginName = (pluginDir: string, pluginInfoName: string | undefined): string =>
   pluginInfoName ||
-  pluginDir
-    .split(PLUGIN_DIR_SEPARATOR_PATTERN)
+  parsePluginDirName(pluginDir)
+    .baseName.split(PLUGIN_DIR_SEPARATOR_PATTERN)
     .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
     .join('');
 
@@ -157,6 +172,10 @@ async function parseSinglePlugin(
 
   try {
     session = await createPluginSourceFileSession(pluginPath, entryPath, settingsPath, project);
+    // Plugin groups also hold helpers shared by their plugins
+    if (isSingleFilePlugin(pluginPath) && !findDefinePluginCall(session.sourceFile)) {
+      return { kind: 'skipped', diagnostics: [] };
+    }
     const pluginTypeChecker = project.getTypeChecker();
     const pluginInfo = extractPluginInfo(session.sourceFile, pluginTypeChecker);
     const pluginName = inferPluginName(pluginDir, pluginInfo.name);
@@ -189,13 +208,24 @@ async function parseSinglePlugin(
       settingsCall !== undefined && settingsExtraction !== undefined
         ? diagnosticsFromSettingsExtraction(pluginName, settingsCall, settingsExtraction)
         : [];
+    // Resolved before cleanup() removes the source files the origin nodes belong to
+    const settingOrigins =
+      settingsCall !== undefined && settingsExtraction !== undefined
+        ? settingOriginsFromExtraction(settingsCall, settingsExtraction)
+        : [];
 
+    const { targets } = parsePluginDirName(pluginDir);
     const pluginConfig: PluginConfig = {
       name: pluginName,
-      settings,
+      settings: markFetchHeaderSettings(settings, session.allSourceFiles),
       directoryName: pluginDir,
       ...(pluginInfo.description ? { description: pluginInfo.description } : {}),
       ...(pluginInfo.isModified !== undefined ? { isModified: pluginInfo.isModified } : {}),
+      ...(pluginInfo.dependencies ? { dependencies: [...pluginInfo.dependencies] } : {}),
+      ...(pluginInfo.required ? { required: true } : {}),
+      ...(pluginInfo.enabledByDefault ? { enabledByDefault: true } : {}),
+      ...(targets ? { targets } : {}),
+      ...(pluginInfo.authors ? { authors: [...pluginInfo.authors] } : {}),
     };
 
     return {
@@ -204,6 +234,7 @@ async function parseSinglePlugin(
       settingRenames: extractSettingRenames(session.allSourceFiles),
       pluginRenames: extractPluginRenames(session.allSourceFiles),
       diagnostics,
+      settingOrigins,
     };
   } catch (error) {
     return failedPluginResult(pluginDir, pluginPath, error);
@@ -212,18 +243,47 @@ async function parseSinglePlugin(
   }
 }
 
+/** Entry files of the plugins named `pattern`, whether top-level or inside a plugin group. */
+const pluginEntryPatterns = (pattern: string): string[] => [
+  `${pattern}/${PLUGIN_ENTRY_GLOB_PATTERN}`,
+  `${PLUGIN_GROUP_GLOB_PATTERN}/${pattern}.{ts,tsx}`,
+  `${PLUGIN_GROUP_GLOB_PATTERN}/${pattern}/${PLUGIN_ENTRY_GLOB_PATTERN}`,
+];
+
+/**
+ * Plugin paths relative to `pluginsPath`: a directory such as `fakeNitro` or `_api/badges`,
+ * or a single-file plugin inside a group such as `_core/noTrack.ts`.
+ */
+const listPluginDirs = async (
+  pluginsPath: string,
+  { only, exclude }: PluginDirFilter = {}
+): Promise<string[]> => {
+  const patterns =
+    only && only.length > 0 ? only.flatMap(pluginEntryPatterns) : pluginEntryPatterns('*');
+  const entryFiles = await fg(patterns, {
+    cwd: pluginsPath,
+    absolute: false,
+    onlyFiles: true,
+    caseSensitiveMatch: false,
+    ignore: (exclude ?? []).flatMap((pattern) => [
+      `${pattern}/**`,
+      `${PLUGIN_GROUP_GLOB_PATTERN}/${pattern}.{ts,tsx}`,
+      `${PLUGIN_GROUP_GLOB_PATTERN}/${pattern}/**`,
+    ]),
+  });
+  const pluginDirs = entryFiles.map((entryFile) =>
+    PLUGIN_ENTRY_FILE_PATTERN.test(basename(entryFile)) ? dirname(entryFile) : entryFile
+  );
+  return [...new Set(pluginDirs)].filter((dir) => dir !== CURRENT_DIRECTORY);
+};
+
 async function parsePluginsFromDirectory(
   pluginsPath: string,
   project: Project,
-  isTTY: boolean
-): Promise<DirectoryParseResult> {
-  const pluginDirs = [
-    ...new Set(
-      (
-        await fg(PLUGIN_FILE_GLOB_PATTERN, { cwd: pluginsPath, absolute: false, onlyFiles: true })
-      ).map(dirname)
-    ),
-  ].filter((dir) => dir !== CURRENT_DIRECTORY);
+  isTTY: boolean,
+  filter: PluginDirFilter
+): Promise<Map<string, SinglePluginParseResult>> {
+  const pluginDirs = await listPluginDirs(pluginsPath, filter);
 
   if (!isTTY)
     console.log(`Found ${pluginDirs.length} plugin directories in ${basename(pluginsPath)}`);
@@ -240,10 +300,16 @@ async function parsePluginsFromDirectory(
       if (!isTTY && processed % PROGRESS_REPORT_INTERVAL === 0) {
         console.log(`Processed ${processed}/${pluginDirs.length} plugins...`);
       }
-      return result;
+      return [pluginDir, result] as const;
     })
   );
 
+  return new Map(results);
+}
+
+const combineDirectoryResults = (
+  results: Iterable<SinglePluginParseResult>
+): DirectoryParseResult => {
   const allSettingRenames: SettingRename[] = [];
   const allPluginRenames: PluginRename[] = [];
   const allDiagnostics: ParseDiagnostic[] = [];
@@ -266,7 +332,7 @@ async function parsePluginsFromDirectory(
     pluginRenames: allPluginRenames,
     diagnostics: allDiagnostics,
   };
-}
+};
 
 export type ParsePluginsOptions = SetOptional<
   {
@@ -274,12 +340,56 @@ export type ParsePluginsOptions = SetOptional<
     equicordPluginsDir: string;
   },
   'vencordPluginsDir' | 'equicordPluginsDir'
->;
+> &
+  PluginDirFilter;
 
-export async function parsePlugins(
+interface PluginsDirectoryState {
+  readonly pluginsPath: string;
+  readonly results: Map<string, SinglePluginParseResult>;
+}
+
+/**
+ * A parse of one source tree that keeps its ts-morph project and per-plugin results around, so
+ * later edits only re-extract the plugins they touch.
+ */
+export interface PluginsParseSession {
+  /** Plugin directories that were parsed; changes below them are picked up by `reparse`. */
+  readonly pluginsPaths: readonly string[];
+  /** The combined result, shaped exactly like `parsePlugins` output. */
+  readonly result: () => ParsedPluginsResult;
+  /**
+   * Re-extract every plugin containing one of `changedPaths`, dropping plugins whose entry file
+   * is gone or that the `only`/`exclude` filters reject. Paths outside `pluginsPaths` are
+   * ignored. Returns the re-extracted plugin paths.
+   */
+  readonly reparse: (changedPaths: readonly string[]) => Promise<string[]>;
+}
+
+const changedPluginPaths = (
+  directories: readonly PluginsDirectoryState[],
+  changedPaths: readonly string[]
+): Map<string, { directory: PluginsDirectoryState; pluginDir: string }> => {
+  const changed = new Map<string, { directory: PluginsDirectoryState; pluginDir: string }>();
+  for (const changedPath of changedPaths) {
+    const normalizedPath = normalize(changedPath);
+    for (const directory of directories) {
+      const relativePath = relative(directory.pluginsPath, normalizedPath);
+      if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) continue;
+
+      const [topLevel, grouped] = relativePath.split('/');
+      if (!topLevel) continue;
+      const pluginDir =
+        topLevel.startsWith(PLUGIN_GROUP_PREFIX) && grouped ? `${topLevel}/${grouped}` : topLevel;
+      changed.set(normalize(join(directory.pluginsPath, pluginDir)), { directory, pluginDir });
+    }
+  }
+  return changed;
+};
+
+export async function createPluginsParseSession(
   sourcePath: string,
   options: ParsePluginsOptions = {}
-): Promise<ParsedPluginsResult> {
+): Promise<PluginsParseSession> {
   const validatedOptions = ParsePluginsOptionsSchema.parse(options);
   const vencordPluginsDir =
     validatedOptions.vencordPluginsDir ?? CLI_CONFIG.directories.vencordPlugins;
@@ -300,20 +410,105 @@ export async function parsePlugins(
 
   const project = await createProject(sourcePath);
   const isTTY = process.stdout.isTTY;
-  const emptyResult = emptyDirectoryResult();
+  const filter: PluginDirFilter = {
+    only: validatedOptions.only,
+    exclude: validatedOptions.exclude,
+  };
 
-  const vencordResult = hasVencordPlugins
-    ? await parsePluginsFromDirectory(pluginsPath, project, isTTY)
-    : emptyResult;
-  const equicordResult = hasEquicordPlugins
-    ? await parsePluginsFromDirectory(equicordPluginsPath, project, isTTY)
-    : emptyResult;
+  const vencordDirectory: PluginsDirectoryState = {
+    pluginsPath,
+    results: hasVencordPlugins
+      ? await parsePluginsFromDirectory(pluginsPath, project, isTTY, filter)
+      : new Map(),
+  };
+  const equicordDirectory: PluginsDirectoryState = {
+    pluginsPath: equicordPluginsPath,
+    results: hasEquicordPlugins
+      ? await parsePluginsFromDirectory(equicordPluginsPath, project, isTTY, filter)
+      : new Map(),
+  };
+  const directories = [
+    ...(hasVencordPlugins ? [vencordDirectory] : []),
+    ...(hasEquicordPlugins ? [equicordDirectory] : []),
+  ];
+
+  const result = (): ParsedPluginsResult => {
+    const vencordResult = combineDirectoryResults(vencordDirectory.results.values());
+    const equicordResult = combineDirectoryResults(equicordDirectory.results.values());
+    return {
+      vencordPlugins: vencordResult.plugins,
+      equicordPlugins: equicordResult.plugins,
+      settingRenames: [...vencordResult.settingRenames, ...equicordResult.settingRenames],
+      pluginRenames: [...vencordResult.pluginRenames, ...equicordResult.pluginRenames],
+      diagnostics: [...vencordResult.diagnostics, ...equicordResult.diagnostics],
+    };
+  };
 
-  return {
-    vencordPlugins: vencordResult.plugins,
-    equicordPlugins: equicordResult.plugins,
-    settingRenames: [...vencordResult.settingRenames, ...equicordResult.settingRenames],
-    pluginRenames: [...vencordResult.pluginRenames, ...equicordResult.pluginRenames],
-    diagnostics: [...vencordResult.diagnostics, ...equicordResult.diagnostics],
+  const reparse = async (changedPaths: readonly string[]): Promise<string[]> => {
+    // Files preloaded by createProject outlive plugin sessions and must be re-read explicitly
+    for (const changedPath of changedPaths) {
+      await project.getSourceFile(normalize(changedPath))?.refreshFromFileSystem();
+    }
+
+    const changed = changedPluginPaths(directories, changedPaths);
+    const selectedDirs = new Map<PluginsDirectoryState, Set<string>>();
+    for (const { directory } of changed.values()) {
+      if (!selectedDirs.has(directory)) {
+        selectedDirs.set(directory, new Set(await listPluginDirs(directory.pluginsPath, filter)));
+      }
+    }
+    for (const [pluginPath, { directory, pluginDir }] of changed) {
+      if (selectedDirs.get(directory)?.has(pluginDir)) {
+        directory.results.set(pluginDir, await parseSinglePlugin(pluginDir, pluginPath, project));
+      } else {
+        directory.results.delete(pluginDir);
+      }
+    }
+    return [...changed.keys()];
   };
+
+  return { pluginsPaths: directories.map((directory) => directory.pluginsPath), result, reparse };
+}
+
+export async function parsePlugins(
+  sourcePath: string,
+  options: ParsePluginsOptions = {}
+): Promise<ParsedPluginsResult> {
+  return (await createPluginsParseSession(sourcePath, options)).result();
+}
+
+export interface PluginInspection {
+  /** Undefined when the plugin was skipped or failed to parse; see `diagnostics`. */
+  readonly plugin?: PluginConfig;
+  readonly settingOrigins: readonly SettingOrigin[];
+  readonly diagnostics: readonly ParseDiagnostic[];
+}
+
+/**
+ * Run the same extraction `parsePlugins` performs, for a single plugin directory.
+ * `sourcePath` is the Vencord/Equicord checkout whose tsconfig resolves the plugin's imports.
+ */
+export async function inspectPlugin(
+  pluginPath: string,
+  sourcePath: string
+): Promise<PluginInspection> {
+  const normalizedPluginPath = normalize(pluginPath);
+  if (!(await fse.pathExists(normalizedPluginPath))) {
+    throw new Error(`Plugin directory not found: ${normalizedPluginPath}`);
+  }
+
+  const project = await createProject(sourcePath);
+  const result = await parseSinglePlugin(
+    basename(normalizedPluginPath),
+    normalizedPluginPath,
+    project
+  );
+
+  return result.kind === 'parsed'
+    ? {
+        plugin: result.entry[1],
+        settingOrigins: result.settingOrigins,
+        diagnostics: result.diagnostics,
+      }
+    : { settingOrigins: [], diagnostics: result.diagnostics };
 }
@@ -7,6 +7,7 @@ import type { Project, SourceFile } from 'ts-morph';
 const PLUGIN_SOURCE_FILE_PATTERNS = ['index.tsx', 'index.ts', 'settings.ts'] as const;
 const PLUGIN_SETTINGS_FILE_PATTERNS = ['settings.tsx', 'settings.ts'] as const;
 const PLUGIN_SOURCE_GLOB_PATTERN = '**/*.{ts,tsx}';
+const SOURCE_FILE_EXTENSION_PATTERN = /\.tsx?$/;
 
 export interface PluginSourceFileSession {
   readonly settingsSourceFile?: SourceFile;
@@ -15,7 +16,14 @@ export interface PluginSourceFileSession {
   readonly cleanup: () => void;
 }
 
+/** Core and API plugins may be a single source file rather than a directory. */
+export const isSingleFilePlugin = (pluginPath: string): boolean =>
+  SOURCE_FILE_EXTENSION_PATTERN.test(pluginPath);
+
 export async function findPluginSourceFile(pluginPath: string): Promise<string | undefined> {
+  if (isSingleFilePlugin(pluginPath)) {
+    return (await fse.pathExists(pluginPath)) ? pluginPath : undefined;
+  }
   for (const pattern of PLUGIN_SOURCE_FILE_PATTERNS) {
     const filePath = normalize(join(pluginPath, pattern));
     if (await fse.pathExists(filePath)) return filePath;
@@ -24,6 +32,7 @@ export async function findPluginSourceFile(pluginPath: string): Promise<string |
 }
 
 export async function findSettingsSourceFile(pluginPath: string): Promise<string | undefined> {
+  if (isSingleFilePlugin(pluginPath)) return undefined;
   for (const fileName of PLUGIN_SETTINGS_FILE_PATTERNS) {
     const filePath = normalize(join(pluginPath, fileName));
     if (await fse.pathExists(filePath)) return filePath;
@@ -48,11 +57,13 @@ export async function createPluginSourceFileSession(
 
   const settingsSourceFile = settingsPath ? getOrAddSourceFile(settingsPath) : undefined;
   const sourceFile = getOrAddSourceFile(entryPath);
-  const pluginSourceFiles = await fg(PLUGIN_SOURCE_GLOB_PATTERN, {
-    cwd: pluginPath,
-    absolute: true,
-    onlyFiles: true,
-  });
+  const pluginSourceFiles = isSingleFilePlugin(pluginPath)
+    ? [entryPath]
+    : await fg(PLUGIN_SOURCE_GLOB_PATTERN, {
+        cwd: pluginPath,
+        absolute: true,
+        onlyFiles: true,
+      });
   const allSourceFiles = pluginSourceFiles.map((filePath) =>
     getOrAddSourceFile(normalize(filePath))
   );
@@ -30,7 +30,11 @@ export function createVencordSource(pluginsDir: string): PluginSource {
     name: 'vencord',
     pluginsDirectory: pluginsDir,
     filePatterns: ['index.tsx', 'index.ts', 'settings.ts'],
-    additionalPaths: ['src/utils/types.ts', 'packages/discord-types/enums'],
+    additionalPaths: [
+      'src/utils/types.ts',
+      'src/utils/constants.ts',
+      'packages/discord-types/enums',
+    ],
   };
 }
 
@@ -44,6 +48,7 @@ export function createEquicordSource(pluginsDir: string): PluginSource {
     filePatterns: ['index.tsx', 'index.ts', 'settings.ts'],
     additionalPaths: [
       'src/utils/types.ts',
+      'src/utils/constants.ts',
       'packages/discord-types/enums',
       'src/plugins/shikiCodeblocks.desktop/api/themes.ts',
     ],
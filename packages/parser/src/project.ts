@@ -24,6 +24,10 @@ export async function createProject(sourcePath: string): Promise<Project> {
   const typesPath = normalize(join(sourcePath, 'src/utils/types.ts'));
   if (await fse.pathExists(typesPath)) project.addSourceFileAtPath(typesPath);
 
+  // `Devs`/`EquicordDevs`, which plugin `authors` refer to
+  const constantsPath = normalize(join(sourcePath, 'src/utils/constants.ts'));
+  if (await fse.pathExists(constantsPath)) project.addSourceFileAtPath(constantsPath);
+
   const discordEnumsDir = normalize(join(sourcePath, 'packages/discord-types/enums'));
   if (await fse.pathExists(discordEnumsDir)) {
     for (const file of await fg('**/*.ts', {
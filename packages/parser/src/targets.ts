@@ -0,0 +1,32 @@
+import type { PluginPlatform, PluginTargets } from '@nixcord/shared';
+import { PLUGIN_PLATFORMS } from '@nixcord/shared';
+import { basename } from 'pathe';
+
+const SOURCE_FILE_EXTENSION_PATTERN = /\.tsx?$/;
+const TARGET_SUFFIX_PATTERN = /\.(desktop|web|discordDesktop|vesktop|dev)$/;
+
+// Mirrors the exclusions in Vencord's `scripts/build/common.mjs`
+const TARGET_PLATFORMS: Record<string, readonly PluginPlatform[]> = {
+  desktop: ['discordDesktop', 'vesktop'],
+  web: ['vesktop', 'web'],
+  discordDesktop: ['discordDesktop'],
+  vesktop: ['vesktop'],
+  dev: PLUGIN_PLATFORMS,
+};
+
+/**
+ * Split a plugin path such as `shikiCodeblocks.desktop` or `_core/devCompanion.dev.tsx` into the
+ * plugin's base name and the builds its suffix bundles it into.
+ */
+export const parsePluginDirName = (
+  pluginDir: string
+): { baseName: string; targets?: PluginTargets } => {
+  const name = basename(pluginDir).replace(SOURCE_FILE_EXTENSION_PATTERN, '');
+  const suffix = TARGET_SUFFIX_PATTERN.exec(name)?.[1];
+  const platforms = suffix && TARGET_PLATFORMS[suffix];
+  if (!suffix || !platforms) return { baseName: name };
+  return {
+    baseName: name.slice(0, -suffix.length - 1),
+    targets: { platforms: [...platforms], ...(suffix === 'dev' ? { devOnly: true } : {}) },
+  };
+};
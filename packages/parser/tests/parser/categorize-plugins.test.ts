@@ -145,7 +145,7 @@ describe('categorizePlugins()', () => {
       settings: {
         colorEffects: {
           name: 'colorEffects',
-          type: 'types.bool',
+          type: { kind: 'bool' },
           default: true,
         },
       },
@@ -194,7 +194,7 @@ describe('categorizePlugins()', () => {
           settings: {
             buddy: {
               name: 'buddy',
-              type: 'types.enum',
+              type: { kind: 'enum' },
               default: 'oneko',
             },
           },
@@ -217,7 +217,7 @@ describe('categorizePlugins()', () => {
           settings: {
             useHyperLinks: {
               name: 'useHyperLinks',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
             },
           },
@@ -233,12 +233,12 @@ describe('categorizePlugins()', () => {
           settings: {
             useStickerHyperLinks: {
               name: 'useStickerHyperLinks',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
             },
             useEmojiHyperLinks: {
               name: 'useEmojiHyperLinks',
-              type: 'types.bool',
+              type: { kind: 'bool' },
               default: true,
             },
           },
@@ -253,6 +253,44 @@ describe('categorizePlugins()', () => {
     expect(result.equicordOnly.FakeNitro).toBeDefined();
   });
 
+  test('explains why each plugin landed in its category', () => {
+    const vencordResult: ParsedPluginsResult = {
+      vencordPlugins: {
+        Shared: { name: 'Shared', settings: {} },
+        Moved: { name: 'Moved', settings: {}, directoryName: 'moved' },
+        oneko: { name: 'oneko', settings: {} },
+        Solo: { name: 'Solo', settings: {} },
+        Tweaked: { name: 'Tweaked', settings: {} },
+      },
+      equicordPlugins: {},
+    };
+
+    const equicordResult: ParsedPluginsResult = {
+      vencordPlugins: {
+        Shared: { name: 'Shared', settings: {} },
+        MovedRenamed: { name: 'MovedRenamed', settings: {}, directoryName: 'moved' },
+        Tweaked: { name: 'Tweaked', settings: {}, isModified: true },
+        Extra: { name: 'Extra', settings: {} },
+      },
+      equicordPlugins: {
+        CursorBuddy: { name: 'CursorBuddy', settings: {} },
+        Native: { name: 'Native', settings: {} },
+      },
+    };
+
+    const result = categorizePlugins(vencordResult, equicordResult);
+    expect(result.categorization).toEqual([
+      { name: 'Shared', category: 'shared', reason: 'matched-by-name' },
+      { name: 'Moved', category: 'shared', reason: 'matched-by-directory' },
+      { name: 'oneko', category: 'shared', reason: 'matched-by-rename' },
+      { name: 'Solo', category: 'vencord', reason: 'no-equicord-counterpart' },
+      { name: 'Tweaked', category: 'vencord', reason: 'modified-in-equicord' },
+      { name: 'Native', category: 'equicord', reason: 'equicord-plugin' },
+      { name: 'Tweaked', category: 'equicord', reason: 'equicord-modified-copy' },
+      { name: 'Extra', category: 'equicord', reason: 'equicord-shared-only' },
+    ]);
+  });
+
   test('uses equicord config for shared plugins', () => {
     const vencordResult: ParsedPluginsResult = {
       vencordPlugins: {
@@ -262,7 +300,7 @@ describe('categorizePlugins()', () => {
           settings: {
             setting: {
               name: 'setting',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: 'vencord-value',
             },
           },
@@ -279,7 +317,7 @@ describe('categorizePlugins()', () => {
           settings: {
             setting: {
               name: 'setting',
-              type: 'types.str',
+              type: { kind: 'str' },
               default: 'equicord-value',
             },
           },
@@ -80,12 +80,12 @@ describe('Integration Tests with Real Plugin Structure', () => {
       // Verify setting properties
       const notices = plugin?.settings.notices as PluginSetting;
       expect(notices.name).toBe('notices');
-      expect(notices.type).toBe('types.bool');
+      expect(notices.type).toEqual({ kind: 'bool' });
       expect(notices.default).toBe(false);
 
       const friends = plugin?.settings.friends as PluginSetting;
       expect(friends.name).toBe('friends');
-      expect(friends.type).toBe('types.bool');
+      expect(friends.type).toEqual({ kind: 'bool' });
       expect(friends.default).toBe(true);
       expect(friends.description).toBe('Notify when a friend removes you');
     } finally {
@@ -128,7 +128,7 @@ describe('Integration Tests with Real Plugin Structure', () => {
 
       const preferNitro = plugin?.settings.preferNitro as PluginSetting;
       expect(preferNitro).toBeDefined();
-      expect(preferNitro.type).toBe('types.bool');
+      expect(preferNitro.type).toEqual({ kind: 'bool' });
       expect(preferNitro.default).toBe(true);
       expect(preferNitro.enumValues).toBeUndefined();
     } finally {
@@ -189,7 +189,8 @@ describe('Integration Tests with Real Plugin Structure', () => {
       // Regular defaults should work
       const volume = plugin?.settings.volume as PluginSetting;
       expect(volume.default).toBe(1);
-      expect(volume.type).toBe('types.float');
+      expect(volume.type).toEqual({ kind: 'between', min: 0, max: 1 });
+      expect(volume.description).toBe('Narrator Volume (between 0 and 1)');
 
       const joinMessage = plugin?.settings.joinMessage as PluginSetting;
       expect(joinMessage.default).toBe('{{USER}} joined');
@@ -321,19 +322,19 @@ describe('Integration Tests with Real Plugin Structure', () => {
 
       const deeper = deep.settings.deeper as PluginSetting;
       expect(deeper).toBeDefined();
-      expect(deeper.type).toBe('types.int');
+      expect(deeper.type).toEqual({ kind: 'int' });
       expect(deeper.default).toBe(42);
 
       // Verify another setting at same level as deeper
       const another = deep.settings.another as PluginSetting;
       expect(another).toBeDefined();
-      expect(another.type).toBe('types.str');
+      expect(another.type).toEqual({ kind: 'str' });
       expect(another.default).toBe('test');
 
       // Verify other setting at same level as deep
       const other = config.settings.other as PluginSetting;
       expect(other).toBeDefined();
-      expect(other.type).toBe('types.bool');
+      expect(other.type).toEqual({ kind: 'bool' });
       expect(other.default).toBe(true);
     } finally {
       await fse.remove(tempDir);
@@ -433,19 +434,19 @@ describe('Error Handling', () => {
 
       const level4 = level3.settings.level4 as PluginSetting;
       expect(level4).toBeDefined();
-      expect(level4.type).toBe('types.str');
+      expect(level4.type).toEqual({ kind: 'str' });
       expect(level4.default).toBe('deep-value');
 
       // Verify another setting at same level as level4
       const level4b = level3.settings.level4b as PluginSetting;
       expect(level4b).toBeDefined();
-      expect(level4b.type).toBe('types.int');
+      expect(level4b.type).toEqual({ kind: 'int' });
       expect(level4b.default).toBe(999);
 
       // Verify setting at level 3
       const level3b = level2.settings.level3b as PluginSetting;
       expect(level3b).toBeDefined();
-      expect(level3b.type).toBe('types.bool');
+      expect(level3b.type).toEqual({ kind: 'bool' });
       expect(level3b.default).toBe(true);
     } finally {
       await fse.remove(tempDir);
@@ -511,7 +512,7 @@ describe('Options Without Explicit Type', () => {
       const greetMode = plugin?.settings.greetMode as PluginSetting;
       expect(greetMode).toBeDefined();
       // Should infer SELECT/enum type from options array
-      expect(greetMode.type).toBe('types.enum');
+      expect(greetMode.type).toEqual({ kind: 'enum' });
       // Should extract enum values from options
       expect(greetMode.enumValues).toEqual(['value1', 'value2']);
       // Should extract default from options array
@@ -552,7 +553,7 @@ describe('Options Without Explicit Type', () => {
       const mode = plugin?.settings.mode as PluginSetting;
       expect(mode).toBeDefined();
       // Should infer enum type
-      expect(mode.type).toBe('types.enum');
+      expect(mode.type).toEqual({ kind: 'enum' });
       // Should extract numeric enum values
       expect(Array.isArray(mode.enumValues)).toBe(true);
       expect(mode.enumValues.length).toBeGreaterThan(0);
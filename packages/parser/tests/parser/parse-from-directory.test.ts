@@ -94,4 +94,115 @@ describe('parsePluginsFromDirectory()', () => {
       await fse.remove(tempDir);
     }
   });
+
+  test('parses core and API plugins from plugin groups with their enablement flags', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      const pluginsDir = join(tempDir, 'src', 'plugins');
+      const definePlugin = `export function definePlugin<T>(definition: T) {
+        return definition;
+      }`;
+
+      await createPluginFile(
+        join(pluginsDir, '_core'),
+        'noTrack.ts',
+        `${definePlugin}
+        export default definePlugin({ name: "NoTrack", required: true, enabledByDefault: true });`
+      );
+      await createPluginFile(
+        join(pluginsDir, '_core'),
+        'utils.ts',
+        `export const helper = () => "not a plugin";`
+      );
+      await createPluginFile(
+        join(pluginsDir, '_api', 'badges'),
+        'index.tsx',
+        `${definePlugin}
+        export default definePlugin({ name: "BadgeAPI", required: true });`
+      );
+      await createPlugin(tempDir, 'optional-plugin', {
+        indexContent: `${definePlugin}
+        export default definePlugin({ name: "OptionalPlugin", required: false });`,
+      });
+
+      await createTsConfig(tempDir);
+
+      const result = await parsePlugins(tempDir);
+      expect(Object.keys(result.vencordPlugins).sort()).toEqual([
+        'BadgeAPI',
+        'NoTrack',
+        'OptionalPlugin',
+      ]);
+      expect(result.vencordPlugins.NoTrack).toMatchObject({
+        directoryName: '_core/noTrack.ts',
+        required: true,
+        enabledByDefault: true,
+      });
+      expect(result.vencordPlugins.BadgeAPI).toMatchObject({
+        directoryName: '_api/badges',
+        required: true,
+      });
+      expect(result.vencordPlugins.OptionalPlugin).not.toHaveProperty('required');
+      expect(result.diagnostics).toEqual([]);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('derives targets from plugin directory and file suffixes', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      const pluginsDir = join(tempDir, 'src', 'plugins');
+      const definePlugin = `export function definePlugin<T>(definition: T) {
+        return definition;
+      }
+      export default definePlugin({});`;
+
+      await createPlugin(tempDir, 'shikiCodeblocks.desktop', { indexContent: definePlugin });
+      await createPlugin(tempDir, 'webKeybinds.web', { indexContent: definePlugin });
+      await createPlugin(tempDir, 'plain', { indexContent: definePlugin });
+      await createPluginFile(join(pluginsDir, '_core'), 'devCompanion.dev.tsx', definePlugin);
+
+      await createTsConfig(tempDir);
+
+      const { vencordPlugins } = await parsePlugins(tempDir);
+      expect(vencordPlugins.ShikiCodeblocks?.targets).toEqual({
+        platforms: ['discordDesktop', 'vesktop'],
+      });
+      expect(vencordPlugins.WebKeybinds?.targets).toEqual({ platforms: ['vesktop', 'web'] });
+      expect(vencordPlugins.DevCompanion?.targets).toEqual({
+        platforms: ['discordDesktop', 'vesktop', 'web'],
+        devOnly: true,
+      });
+      expect(vencordPlugins.Plain).not.toHaveProperty('targets');
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('resolves plugin authors from the upstream Devs constants', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      await fse.outputFile(
+        join(tempDir, 'src', 'utils', 'constants.ts'),
+        `export const Devs = /* #__PURE__*/ Object.freeze({
+          Ven: { name: "Vee", id: 343383572805058560n },
+        });`
+      );
+      await createPlugin(tempDir, 'petpet', {
+        indexContent: `import { Devs } from "../../utils/constants";
+        export function definePlugin<T>(definition: T) {
+          return definition;
+        }
+        export default definePlugin({ name: "Petpet", authors: [Devs.Ven] });`,
+      });
+
+      await createTsConfig(tempDir);
+
+      const { vencordPlugins } = await parsePlugins(tempDir);
+      expect(vencordPlugins.Petpet?.authors).toEqual([{ name: 'Vee', id: '343383572805058560' }]);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
 });
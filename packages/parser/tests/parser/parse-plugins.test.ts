@@ -63,7 +63,7 @@ describe('parsePlugins()', () => {
         result.vencordPlugins['ShikiDesktop'] ?? result.equicordPlugins['ShikiDesktop'];
       expect(plugin).toBeDefined();
       const theme = plugin?.settings.theme as PluginSetting;
-      expect(theme.type).toBe('types.enum');
+      expect(theme.type).toEqual({ kind: 'enum' });
       expect(theme.enumValues).toEqual(['https://darkplus', 'https://lightplus', 'https://moon']);
       expect(['string', 'undefined', 'object']).toContain(typeof theme.default);
     } finally {
@@ -152,7 +152,7 @@ describe('parsePlugins()', () => {
       const plugin = result.vencordPlugins['FloatFormat'] ?? result.equicordPlugins['FloatFormat'];
       const pitch = plugin?.settings.pitch as PluginSetting;
       // extractor yields number 1, generator test already checks 1.0 emission; here assert numeric
-      expect(pitch.type).toBe('types.float');
+      expect(pitch.type).toEqual({ kind: 'float' });
       expect(pitch.default).toBe(1);
     } finally {
       await fse.remove(tempDir);
@@ -186,7 +186,7 @@ describe('parsePlugins()', () => {
       const plugin =
         result.vencordPlugins['SelectSpread'] ?? result.equicordPlugins['SelectSpread'];
       const op = plugin?.settings.op as PluginSetting;
-      expect(op.type).toBe('types.enum');
+      expect(op.type).toEqual({ kind: 'enum' });
       expect(Array.isArray(op.enumValues ?? [])).toBe(true);
       expect(['string', 'undefined', 'number']).toContain(typeof op.default);
     } finally {
@@ -212,7 +212,7 @@ describe('parsePlugins()', () => {
       const result = await parsePlugins(tempDir);
       const plugin = result.vencordPlugins['StringNull'] ?? result.equicordPlugins['StringNull'];
       const country = plugin?.settings.country as PluginSetting;
-      expect(country.type).toBe('types.nullOr types.str');
+      expect(country.type).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
       expect(country.default).toBeNull();
     } finally {
       await fse.remove(tempDir);
@@ -242,10 +242,10 @@ describe('parsePlugins()', () => {
         result.vencordPlugins['ListDefaults'] ?? result.equicordPlugins['ListDefaults'];
       const reasons = plugin?.settings.reasons as PluginSetting;
       const list = plugin?.settings.list as PluginSetting;
-      expect(reasons.type).toBe('types.listOf types.str');
+      expect(reasons.type).toEqual({ kind: 'listOf', elem: { kind: 'str' } });
       expect(reasons.default).toEqual([]);
       // identifier array of objects is inferred as listOf attrs with its static default preserved
-      expect(list.type).toBe('types.listOf types.attrs');
+      expect(list.type).toEqual({ kind: 'listOf', elem: { kind: 'attrs' } });
       expect(list.default).toEqual([{ a: 1 }]);
     } finally {
       await fse.remove(tempDir);
@@ -294,7 +294,7 @@ describe('parsePlugins()', () => {
       expect(plugin).toBeDefined();
       const mode = plugin?.settings.mode as PluginSetting;
       // When enum values cannot be resolved at build time, fall back to types.str
-      expect(mode.type).toBe('types.nullOr types.str');
+      expect(mode.type).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
       expect(mode.enumValues).toBeUndefined();
       expect(['string', 'undefined', 'object']).toContain(typeof mode.default);
     } finally {
@@ -334,7 +334,7 @@ describe('parsePlugins()', () => {
       const plugin = result.vencordPlugins['AppleMusic'] ?? result.equicordPlugins['AppleMusic'];
       expect(plugin).toBeDefined();
       const method = plugin?.settings.method as PluginSetting;
-      expect(method.type).toBe('types.enum');
+      expect(method.type).toEqual({ kind: 'enum' });
       // enumValues may be empty if options resolution is partial in unit env
       expect(Array.isArray(method.enumValues ?? [])).toBe(true);
       // default may be unresolved in minimal env, or resolved to number/string
@@ -404,7 +404,7 @@ describe('parsePlugins()', () => {
       expect(plugin).toBeDefined();
 
       const display = plugin?.settings.questButtonDisplay as PluginSetting;
-      expect(display.type).toBe('types.enum');
+      expect(display.type).toEqual({ kind: 'enum' });
       expect(display.enumValues).toEqual(['always', 'unclaimed', 'never']);
       expect(display.default).toBe('always');
 
@@ -510,6 +510,8 @@ describe('parsePlugins()', () => {
             pluginName: 'MixedDiagnostics',
             kind: 'component-only-setting-skipped',
             message: expect.stringContaining('setting "preview"'),
+            settingKey: 'preview',
+            range: { startLine: 8, startColumn: 20, endLine: 11, endColumn: 12 },
           }),
         ])
       );
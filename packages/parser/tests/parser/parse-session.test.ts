@@ -0,0 +1,116 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import fse from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { createPluginsParseSession } from '../../src/index.js';
+import { createPlugin, createTsConfig } from '../helpers/test-utils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const pluginIndex = (name: string, defaultValue: boolean) =>
+  `import definePlugin, { definePluginSettings, OptionType } from "@utils/types";
+   const settings = definePluginSettings({
+     enabled: { type: OptionType.BOOLEAN, description: "Enabled", default: ${defaultValue} },
+   });
+   export default definePlugin({ name: "${name}", description: "${name}", settings });`;
+
+describe('createPluginsParseSession()', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fse.mkdtemp(join(__dirname, 'test-session-'));
+    await createTsConfig(tempDir);
+  });
+
+  afterEach(async () => {
+    await fse.remove(tempDir);
+  });
+
+  test('re-extracts only the plugins containing changed files', async () => {
+    const alphaDir = await createPlugin(tempDir, 'alpha', {
+      indexContent: pluginIndex('Alpha', true),
+    });
+    await createPlugin(tempDir, 'beta', { indexContent: pluginIndex('Beta', true) });
+
+    const session = await createPluginsParseSession(tempDir);
+    expect(Object.keys(session.result().vencordPlugins).sort()).toEqual(['Alpha', 'Beta']);
+
+    await fse.writeFile(join(alphaDir, 'index.ts'), pluginIndex('Alpha', false));
+    const reparsed = await session.reparse([join(alphaDir, 'index.ts')]);
+
+    expect(reparsed).toEqual([alphaDir]);
+    expect(session.result().vencordPlugins['Alpha']?.settings['enabled']).toMatchObject({
+      default: false,
+    });
+    expect(session.result().vencordPlugins['Beta']?.settings['enabled']).toMatchObject({
+      default: true,
+    });
+  });
+
+  test('picks up added plugins and drops deleted ones', async () => {
+    const alphaDir = await createPlugin(tempDir, 'alpha', {
+      indexContent: pluginIndex('Alpha', true),
+    });
+    const session = await createPluginsParseSession(tempDir);
+
+    const gammaDir = await createPlugin(tempDir, 'gamma', {
+      indexContent: pluginIndex('Gamma', true),
+    });
+    await fse.remove(alphaDir);
+    await session.reparse([join(gammaDir, 'index.ts'), alphaDir]);
+
+    expect(Object.keys(session.result().vencordPlugins)).toEqual(['Gamma']);
+  });
+
+  test('re-extracts single-file plugins inside plugin groups', async () => {
+    const coreDir = join(tempDir, 'src', 'plugins', '_core');
+    await fse.outputFile(join(coreDir, 'alpha.ts'), pluginIndex('Alpha', true));
+    await fse.outputFile(join(coreDir, 'beta.ts'), pluginIndex('Beta', true));
+    const session = await createPluginsParseSession(tempDir);
+
+    await fse.writeFile(join(coreDir, 'alpha.ts'), pluginIndex('Alpha', false));
+    const reparsed = await session.reparse([join(coreDir, 'alpha.ts')]);
+
+    expect(reparsed).toEqual([join(coreDir, 'alpha.ts')]);
+    expect(session.result().vencordPlugins['Alpha']?.settings['enabled']).toMatchObject({
+      default: false,
+    });
+    expect(Object.keys(session.result().vencordPlugins).sort()).toEqual(['Alpha', 'Beta']);
+  });
+
+  test('ignores paths outside the plugins directories', async () => {
+    await createPlugin(tempDir, 'alpha', { indexContent: pluginIndex('Alpha', true) });
+    const session = await createPluginsParseSession(tempDir);
+
+    await expect(session.reparse([join(tempDir, 'package.json')])).resolves.toEqual([]);
+    expect(session.pluginsPaths).toEqual([join(tempDir, 'src', 'plugins')]);
+  });
+
+  test('only parses plugins selected by the only/exclude filters', async () => {
+    await createPlugin(tempDir, 'alpha', { indexContent: pluginIndex('Alpha', true) });
+    await createPlugin(tempDir, 'alphaExtra', { indexContent: pluginIndex('AlphaExtra', true) });
+    await createPlugin(tempDir, 'beta', { indexContent: pluginIndex('Beta', true) });
+
+    const session = await createPluginsParseSession(tempDir, {
+      only: ['ALPHA*'],
+      exclude: ['*extra'],
+    });
+    expect(Object.keys(session.result().vencordPlugins)).toEqual(['Alpha']);
+
+    const gammaDir = await createPlugin(tempDir, 'gamma', {
+      indexContent: pluginIndex('Gamma', true),
+    });
+    await session.reparse([join(gammaDir, 'index.ts')]);
+
+    expect(Object.keys(session.result().vencordPlugins)).toEqual(['Alpha']);
+  });
+
+  test('rejects filters spanning more than one directory', async () => {
+    await createPlugin(tempDir, 'alpha', { indexContent: pluginIndex('Alpha', true) });
+
+    await expect(createPluginsParseSession(tempDir, { only: ['alpha/nested'] })).rejects.toThrow(
+      'Plugin filters match a single directory name'
+    );
+  });
+});
@@ -3,7 +3,7 @@ import { fileURLToPath } from 'node:url';
 import type { PluginSetting } from '@nixcord/shared';
 import fse from 'fs-extra';
 import { describe, expect, test } from 'vitest';
-import { parsePlugins } from '../../src/index.js';
+import { inspectPlugin, parsePlugins } from '../../src/index.js';
 import { createPlugin, createPluginFile, createTsConfig } from '../helpers/test-utils.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -170,7 +170,7 @@ describe('parseSinglePlugin()', () => {
       const result = await parsePlugins(tempDir);
       const plugin = result.vencordPlugins['GeneratedSettings'];
       expect(plugin).toBeDefined();
-      expect((plugin?.settings.spotify as PluginSetting).type).toBe('types.bool');
+      expect((plugin?.settings.spotify as PluginSetting).type).toEqual({ kind: 'bool' });
       expect((plugin?.settings.spotify as PluginSetting).description).toBe(
         'Open Spotify links in app'
       );
@@ -255,18 +255,18 @@ describe('parseSinglePlugin()', () => {
       expect(plugin?.settings.config).toBeUndefined();
 
       const appID = plugin?.settings.appID as PluginSetting;
-      expect(appID.type).toBe('types.nullOr types.str');
+      expect(appID.type).toEqual({ kind: 'nullOr', elem: { kind: 'str' } });
       expect(appID.default).toBeNull();
 
       const activityType = plugin?.settings.type as PluginSetting;
-      expect(activityType.type).toBe('types.enum');
+      expect(activityType.type).toEqual({ kind: 'enum' });
       expect(activityType.enumValues).toEqual([0, 1, 2, 3, 4, 5, 6]);
 
       const timestampMode = plugin?.settings.timestampMode as PluginSetting;
       expect(timestampMode.enumValues).toEqual([0, 1, 2, 3]);
 
       const startTime = plugin?.settings.startTime as PluginSetting;
-      expect(startTime.type).toBe('types.int');
+      expect(startTime.type).toEqual({ kind: 'int' });
       expect(startTime.default).toBe(0);
     } finally {
       await fse.remove(tempDir);
@@ -403,4 +403,127 @@ describe('parseSinglePlugin()', () => {
       await fse.remove(tempDir);
     }
   });
+
+  test('marks settings sent in fetch headers as sensitive', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      await createPlugin(tempDir, 'uploader', {
+        indexContent: `import definePlugin from "@utils/types";
+        import { settings } from "./settings";
+
+        export default definePlugin({
+          name: "Uploader",
+          description: "Uploads files",
+          settings,
+        });`,
+        settingsContent: `import { definePluginSettings } from "@api/Settings";
+        import { OptionType } from "@utils/types";
+
+        export const settings = definePluginSettings({
+          serviceUrl: {
+            type: OptionType.STRING,
+            description: "Upload service URL",
+            default: "",
+          },
+          uploadHeader: {
+            type: OptionType.STRING,
+            description: "Value of the upload header",
+            default: "",
+          },
+        });`,
+        additionalFiles: [
+          {
+            path: 'upload.ts',
+            content: `import { settings } from "./settings";
+
+            export const upload = (body: Blob) =>
+              fetch(settings.store.serviceUrl, {
+                method: "POST",
+                headers: { Authorization: \`Bearer \${settings.store.uploadHeader}\` },
+                body,
+              });`,
+          },
+        ],
+      });
+
+      await createTsConfig(tempDir);
+
+      const result = await parsePlugins(tempDir);
+      const settings = result.vencordPlugins.Uploader?.settings;
+      expect((settings?.uploadHeader as PluginSetting).sensitive).toBe(true);
+      // Only the headers count; the URL argument is not a credential
+      expect((settings?.serviceUrl as PluginSetting).sensitive).toBeUndefined();
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+});
+
+describe('inspectPlugin()', () => {
+  test('returns the plugin with the source location of each setting', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      const pluginDir = await createPlugin(tempDir, 'inspected', {
+        indexContent: `import definePlugin from "@utils/types";
+        export default definePlugin({ name: "Inspected", description: "Inspected plugin" });`,
+        settingsContent: `import { definePluginSettings } from "@api/Settings";
+        import { OptionType } from "@utils/types";
+
+        export default definePluginSettings({
+          enabled: {
+            type: OptionType.BOOLEAN,
+            description: "Enable the feature",
+            default: true,
+          },
+          secret: {
+            type: OptionType.STRING,
+            hidden: true,
+          },
+        }).withPrivateSettings<{ token: string }>();`,
+      });
+      await createTsConfig(tempDir);
+
+      const inspection = await inspectPlugin(pluginDir, tempDir);
+
+      expect(inspection.plugin?.name).toBe('Inspected');
+      expect(inspection.settingOrigins).toEqual([
+        {
+          key: 'enabled',
+          filePath: join(pluginDir, 'settings.ts'),
+          line: 5,
+          extractor: 'object-literal-settings',
+        },
+        {
+          key: 'secret',
+          filePath: join(pluginDir, 'settings.ts'),
+          line: 10,
+          extractor: 'object-literal-settings',
+        },
+        {
+          key: 'token',
+          filePath: join(pluginDir, 'settings.ts'),
+          line: 4,
+          extractor: 'withPrivateSettings',
+        },
+      ]);
+      expect(inspection.diagnostics).toEqual([]);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
+
+  test('reports skipped plugins through diagnostics', async () => {
+    const tempDir = await fse.mkdtemp(join(__dirname, 'test-'));
+    try {
+      const pluginDir = join(tempDir, 'src', 'plugins', 'empty');
+      await fse.ensureDir(pluginDir);
+
+      const inspection = await inspectPlugin(pluginDir, tempDir);
+
+      expect(inspection.plugin).toBeUndefined();
+      expect(inspection.diagnostics).toMatchObject([{ kind: 'skipped-plugin' }]);
+    } finally {
+      await fse.remove(tempDir);
+    }
+  });
 });
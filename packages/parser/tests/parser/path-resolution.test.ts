@@ -84,7 +84,7 @@ describe('Path Mapping Resolution', () => {
       const enabled = plugin?.settings.enabled as PluginSetting;
       // Verify that the TypeChecker resolved OptionType.BOOLEAN using path mappings
       // If path mappings weren't working, this would fail or be inferred incorrectly
-      expect(enabled.type).toBe('types.bool');
+      expect(enabled.type).toEqual({ kind: 'bool' });
       expect(enabled.default).toBe(true);
     } finally {
       await fse.remove(tempDir);
@@ -236,7 +236,7 @@ describe('Discord Enum Resolution', () => {
 
       const activity = plugin?.settings.activity as PluginSetting;
       expect(activity).toBeDefined();
-      expect(activity.type).toBe('types.enum');
+      expect(activity.type).toEqual({ kind: 'enum' });
       expect(Array.isArray(activity.enumValues)).toBe(true);
       expect(activity.enumValues).toContain(0); // ActivityType.Playing
       expect(activity.enumValues).toContain(1); // ActivityType.Streaming
@@ -244,7 +244,7 @@ describe('Discord Enum Resolution', () => {
 
       const channel = plugin?.settings.channel as PluginSetting;
       expect(channel).toBeDefined();
-      expect(channel.type).toBe('types.enum');
+      expect(channel.type).toEqual({ kind: 'enum' });
       expect(Array.isArray(channel.enumValues)).toBe(true);
       expect(channel.enumValues).toContain(0); // ChannelType.GUILD_TEXT
       expect(channel.enumValues).toContain(1); // ChannelType.DM
@@ -297,7 +297,7 @@ describe('Discord Enum Resolution', () => {
 
       const status = plugin?.settings.status as PluginSetting;
       expect(status).toBeDefined();
-      expect(status.type).toBe('types.enum');
+      expect(status.type).toEqual({ kind: 'enum' });
       expect(status.enumValues).toContain('online');
       expect(status.enumValues).toContain('idle');
       expect(status.enumValues).toContain('dnd');
@@ -448,7 +448,7 @@ describe('Complex TypeScript Config', () => {
       expect(plugin).toBeDefined();
       expect(plugin?.settings.enabled).toBeDefined();
       const enabled = plugin?.settings.enabled as PluginSetting;
-      expect(enabled.type).toBe('types.bool');
+      expect(enabled.type).toEqual({ kind: 'bool' });
       expect(enabled.default).toBe(true);
     } finally {
       await fse.remove(tempDir);
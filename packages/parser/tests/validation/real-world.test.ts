@@ -1,5 +1,10 @@
 import { existsSync } from 'node:fs';
-import { CLI_CONFIG, type ParsedPluginsResult, type PluginSetting } from '@nixcord/shared';
+import {
+  CLI_CONFIG,
+  type ParsedPluginsResult,
+  type PluginSetting,
+  renderNixType,
+} from '@nixcord/shared';
 import { beforeAll, describe, expect, test } from 'vitest';
 import { categorizePlugins, parsePlugins } from '../../src/index.js';
 
@@ -134,9 +139,9 @@ describe.skipIf(!hasVencord || !hasEquicord)('Real-world: categorize', () => {
         if ('type' in setting) {
           totalCount++;
           const s = setting as PluginSetting;
-          if (validTypes.has(s.type)) {
+          if (validTypes.has(renderNixType(s.type))) {
             validCount++;
-          } else if (s.type.startsWith('types.enum')) {
+          } else if (s.type.kind === 'enum') {
             enumCount++;
           }
         }
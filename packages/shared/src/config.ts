@@ -25,8 +25,18 @@ const CliConfigSchema = z.object({
     vencord: z.string().min(1),
     equicord: z.string().min(1),
     parseRules: z.string().min(1),
+    dependencies: z.string().min(1),
     deprecated: z.string().min(1),
     migrations: z.string().min(1),
+    sensitiveSettings: z.string().min(1),
+    jsonSchema: z.string().min(1),
+    typeDeclarations: z.string().min(1),
+    sharedModule: z.string().min(1),
+    vencordModule: z.string().min(1),
+    equicordModule: z.string().min(1),
+    sharedMarkdown: z.string().min(1),
+    vencordMarkdown: z.string().min(1),
+    equicordMarkdown: z.string().min(1),
   }),
   symbols: z.object({
     success: z.string(),
@@ -50,8 +60,18 @@ export const CLI_CONFIG = {
     vencord: 'vencord.json',
     equicord: 'equicord.json',
     parseRules: 'parse-rules.json',
+    dependencies: 'dependencies.json',
     deprecated: 'deprecated.json',
     migrations: 'migrations.json',
+    sensitiveSettings: 'sensitive-settings.json',
+    jsonSchema: 'plugins.schema.json',
+    typeDeclarations: 'plugins.d.ts',
+    sharedModule: 'shared.nix',
+    vencordModule: 'vencord.nix',
+    equicordModule: 'equicord.nix',
+    sharedMarkdown: 'shared.md',
+    vencordMarkdown: 'vencord.md',
+    equicordMarkdown: 'equicord.md',
   },
   symbols: {
     success: '✓',
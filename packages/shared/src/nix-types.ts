@@ -1,13 +1,118 @@
-// Canonical Nix type strings emitted in the generated module
-export const NIX_ENUM_TYPE = 'types.enum';
-export const NIX_TYPE_BOOL = 'types.bool';
-export const NIX_TYPE_STR = 'types.str';
-export const NIX_TYPE_INT = 'types.int';
-export const NIX_TYPE_FLOAT = 'types.float';
-export const NIX_TYPE_ATTRS = 'types.attrs';
-export const NIX_TYPE_NULL_OR_STR = 'types.nullOr types.str';
-export const NIX_TYPE_LIST_OF_STR = 'types.listOf types.str';
-export const NIX_TYPE_LIST_OF_ATTRS = 'types.listOf types.attrs';
+import * as z from 'zod';
+
+/**
+ * Structured Nix option type. Extractors build these and the generator serializes them with
+ * {@link renderNixType}, so composite types like `nullOr int` or `listOf (enum ...)` need no
+ * dedicated type string. The values of an `enum` live next to the type in `enumValues`, as in
+ * the generated JSON.
+ */
+export type NixType =
+  | { readonly kind: 'bool' | 'int' | 'float' | 'str' | 'attrs' | 'enum' }
+  | { readonly kind: 'nullOr' | 'listOf' | 'attrsOf'; readonly elem: NixType }
+  | { readonly kind: 'between'; readonly min: number; readonly max: number }
+  | { readonly kind: 'submodule'; readonly options: Readonly<Record<string, NixType>> };
+
+export const NixTypeSchema = z.lazy(() =>
+  z.discriminatedUnion('kind', [
+    z.object({ kind: z.enum(['bool', 'int', 'float', 'str', 'attrs', 'enum']) }),
+    z.object({ kind: z.enum(['nullOr', 'listOf', 'attrsOf']), elem: NixTypeSchema }),
+    z.object({ kind: z.literal('between'), min: z.number(), max: z.number() }),
+    z.object({ kind: z.literal('submodule'), options: z.record(z.string(), NixTypeSchema) }),
+  ])
+) as z.ZodType<NixType>;
+
+// Canonical Nix types emitted in the generated module
+export const NIX_ENUM_TYPE: NixType = { kind: 'enum' };
+export const NIX_TYPE_BOOL: NixType = { kind: 'bool' };
+export const NIX_TYPE_STR: NixType = { kind: 'str' };
+export const NIX_TYPE_INT: NixType = { kind: 'int' };
+export const NIX_TYPE_FLOAT: NixType = { kind: 'float' };
+export const NIX_TYPE_ATTRS: NixType = { kind: 'attrs' };
+export const NIX_TYPE_NULL_OR_STR: NixType = { kind: 'nullOr', elem: NIX_TYPE_STR };
+export const NIX_TYPE_LIST_OF_STR: NixType = { kind: 'listOf', elem: NIX_TYPE_STR };
+export const NIX_TYPE_LIST_OF_ATTRS: NixType = { kind: 'listOf', elem: NIX_TYPE_ATTRS };
 
 // Regex for detecting integer-only strings (used by nix-generator and ast)
 export const INTEGER_STRING_PATTERN = /^[0-9]+$/;
+
+/** A negative bound would otherwise subtract from the function application. */
+const renderBound = (value: number): string => (value < 0 ? `(${value})` : String(value));
+
+const renderArgument = (type: NixType, renderEnum: () => string): string => {
+  const rendered = renderNixType(type, renderEnum);
+  return /\s/.test(rendered) ? `(${rendered})` : rendered;
+};
+
+/**
+ * Serialize a type as the Nix expression the JSON `type` field carries, e.g.
+ * `types.nullOr (types.listOf types.str)`. `enum` renders as plain `types.enum` unless
+ * `renderEnum` supplies the applied form.
+ */
+export const renderNixType = (
+  type: NixType,
+  renderEnum: () => string = () => 'types.enum'
+): string => {
+  switch (type.kind) {
+    case 'enum':
+      return renderEnum();
+    case 'nullOr':
+    case 'listOf':
+    case 'attrsOf':
+      return `types.${type.kind} ${renderArgument(type.elem, renderEnum)}`;
+    case 'between':
+      return `types.numbers.between ${renderBound(type.min)} ${renderBound(type.max)}`;
+    case 'submodule': {
+      const options = Object.entries(type.options).map(
+        ([name, option]) =>
+          `${name} = lib.mkOption { type = ${renderNixType(option, renderEnum)}; };`
+      );
+      return `types.submodule { options = { ${options.join(' ')} }; }`;
+    }
+    default:
+      return `types.${type.kind}`;
+  }
+};
+
+export const nixTypeEquals = (a: NixType, b: NixType): boolean =>
+  renderNixType(a) === renderNixType(b);
+
+const SIMPLE_KINDS = new Set(['bool', 'int', 'float', 'str', 'attrs', 'enum']);
+const WRAPPER_KINDS = new Set(['nullOr', 'listOf', 'attrsOf']);
+
+const parseBound = (tokens: readonly string[], start: number): [number, number] | undefined => {
+  const wrapped = tokens[start] === '(';
+  const value = Number(tokens[wrapped ? start + 1 : start]);
+  if (!Number.isFinite(value)) return undefined;
+  if (!wrapped) return [value, start + 1];
+  return tokens[start + 2] === ')' ? [value, start + 3] : undefined;
+};
+
+const parseTokens = (tokens: readonly string[], start: number): [NixType, number] | undefined => {
+  const token = tokens[start];
+  if (token === '(') {
+    const inner = parseTokens(tokens, start + 1);
+    return inner && tokens[inner[1]] === ')' ? [inner[0], inner[1] + 1] : undefined;
+  }
+  if (token === 'types.numbers.between') {
+    const min = parseBound(tokens, start + 1);
+    const max = min && parseBound(tokens, min[1]);
+    return min && max ? [{ kind: 'between', min: min[0], max: max[0] }, max[1]] : undefined;
+  }
+  const kind = token?.startsWith('types.') ? token.slice('types.'.length) : undefined;
+  if (kind && SIMPLE_KINDS.has(kind)) return [{ kind } as NixType, start + 1];
+  if (kind && WRAPPER_KINDS.has(kind)) {
+    const elem = parseTokens(tokens, start + 1);
+    return elem && [{ kind, elem: elem[0] } as NixType, elem[1]];
+  }
+  return undefined;
+};
+
+/**
+ * Read back a type string produced by {@link renderNixType}, e.g. from the generated JSON.
+ * Submodules and anything outside that grammar yield `undefined`.
+ */
+export const parseNixType = (text: string): NixType | undefined => {
+  const tokens = text.match(/[()]|[^\s()]+/g) ?? [];
+  const parsed = parseTokens(tokens, 0);
+  return parsed && parsed[1] === tokens.length ? parsed[0] : undefined;
+};
@@ -1,9 +1,10 @@
 import * as z from 'zod';
+import { type NixType, NixTypeSchema } from './nix-types.js';
 import type { Exact, ReadonlyDeep, SetRequired, Simplify } from './type-utils.js';
 
 export interface PluginSetting {
   readonly name: string;
-  readonly type: string;
+  readonly type: NixType;
   readonly description?: string;
   readonly default?: unknown;
   readonly enumValues?: readonly (string | number | boolean)[];
@@ -11,21 +12,50 @@ export interface PluginSetting {
   readonly example?: string;
   readonly hidden?: boolean;
   readonly restartNeeded?: boolean;
+  /** Holds a credential, so Nix should not write the value into the store. */
+  readonly sensitive?: boolean;
 }
 
 export type PluginSettingRequired = SetRequired<PluginSetting, 'name' | 'type'>;
 
+/** Client builds a plugin can be bundled into. Equibop uses the Vesktop build. */
+export const PLUGIN_PLATFORMS = ['discordDesktop', 'vesktop', 'web'] as const;
+
+export type PluginPlatform = (typeof PLUGIN_PLATFORMS)[number];
+
+/** Where a plugin is bundled, from its directory suffix such as `.desktop`, `.web` or `.dev`. */
+export interface PluginTargets {
+  readonly platforms: readonly PluginPlatform[];
+  /** Only bundled into development builds. */
+  readonly devOnly?: boolean;
+}
+
+/** A plugin author from upstream's `Devs`/`EquicordDevs`; `id` is their Discord user ID. */
+export interface PluginAuthor {
+  readonly name: string;
+  readonly id?: string;
+}
+
 export interface PluginConfig {
   readonly name: string;
   readonly description?: string;
   readonly isModified?: boolean;
+  /** Names of the plugins this one lists in `dependencies`, as written upstream. */
+  readonly dependencies?: readonly string[];
+  /** The client always runs the plugin; it cannot be disabled. */
+  readonly required?: boolean;
+  /** The client runs the plugin until the user disables it. */
+  readonly enabledByDefault?: boolean;
+  /** Absent when the plugin is bundled into every build. */
+  readonly targets?: PluginTargets;
+  readonly authors?: readonly PluginAuthor[];
   readonly settings: ReadonlyDeep<Record<string, PluginSetting | PluginConfig>>;
   readonly directoryName?: string;
 }
 
 const PluginSettingSchema = z.object({
   name: z.string(),
-  type: z.string(),
+  type: NixTypeSchema,
   description: z.string().optional(),
   default: z.unknown().optional(),
   enumValues: z.array(z.union([z.string(), z.number(), z.boolean()])).optional(),
@@ -33,6 +63,12 @@ const PluginSettingSchema = z.object({
   example: z.string().optional(),
   hidden: z.boolean().optional(),
   restartNeeded: z.boolean().optional(),
+  sensitive: z.boolean().optional(),
+});
+
+const PluginTargetsSchema = z.object({
+  platforms: z.array(z.enum(PLUGIN_PLATFORMS)),
+  devOnly: z.boolean().optional(),
 });
 
 const PluginConfigSchema = z.lazy(() =>
@@ -40,6 +76,11 @@ const PluginConfigSchema = z.lazy(() =>
     name: z.string(),
     description: z.string().optional(),
     isModified: z.boolean().optional(),
+    dependencies: z.array(z.string()).optional(),
+    required: z.boolean().optional(),
+    enabledByDefault: z.boolean().optional(),
+    targets: PluginTargetsSchema.optional(),
+    authors: z.array(z.object({ name: z.string(), id: z.string().optional() })).optional(),
     settings: z.record(z.string(), z.union([PluginSettingSchema, PluginConfigSchema])),
     directoryName: z.string().optional(),
   })
@@ -73,11 +114,20 @@ export const PARSE_DIAGNOSTIC_KINDS = [
 
 export type ParseDiagnosticKind = (typeof PARSE_DIAGNOSTIC_KINDS)[number];
 
+const ParseDiagnosticRangeSchema = z.object({
+  startLine: z.number().int().positive(),
+  startColumn: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+  endColumn: z.number().int().positive(),
+});
+
 const ParseDiagnosticSchema = z.object({
   pluginName: z.string().optional(),
   filePath: z.string().optional(),
   kind: z.enum(PARSE_DIAGNOSTIC_KINDS),
   message: z.string(),
+  settingKey: z.string().optional(),
+  range: ParseDiagnosticRangeSchema.optional(),
 });
 
 export const ParsedPluginsResultSchema = z.object({
@@ -107,11 +157,22 @@ export interface PluginRename {
   readonly newName: string;
 }
 
+/** 1-based line/column span of the node a diagnostic was raised for; the end is exclusive. */
+export interface ParseDiagnosticRange {
+  readonly startLine: number;
+  readonly startColumn: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+}
+
 export interface ParseDiagnostic {
   readonly pluginName?: string;
   readonly filePath?: string;
   readonly kind: ParseDiagnosticKind;
   readonly message: string;
+  /** Key of the setting the diagnostic is about, when it concerns a single setting. */
+  readonly settingKey?: string;
+  readonly range?: ParseDiagnosticRange;
 }
 
 export interface PluginInfo {
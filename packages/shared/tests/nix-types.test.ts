@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import {
+  NIX_TYPE_NULL_OR_STR,
+  type NixType,
+  NixTypeSchema,
+  nixTypeEquals,
+  parseNixType,
+  renderNixType,
+} from '../src/nix-types.js';
+
+describe('Nix type model', () => {
+  const nullOrListOfStr: NixType = {
+    kind: 'nullOr',
+    elem: { kind: 'listOf', elem: { kind: 'str' } },
+  };
+
+  describe('renderNixType', () => {
+    test('parenthesizes composite arguments', () => {
+      expect(renderNixType(nullOrListOfStr)).toBe('types.nullOr (types.listOf types.str)');
+      expect(renderNixType({ kind: 'nullOr', elem: { kind: 'int' } })).toBe(
+        'types.nullOr types.int'
+      );
+      expect(renderNixType({ kind: 'between', min: 0, max: 1.5 })).toBe(
+        'types.numbers.between 0 1.5'
+      );
+      expect(renderNixType({ kind: 'between', min: -1, max: 1 })).toBe(
+        'types.numbers.between (-1) 1'
+      );
+    });
+
+    test('renders enums plain unless given the applied form', () => {
+      const listOfEnum: NixType = { kind: 'listOf', elem: { kind: 'enum' } };
+      expect(renderNixType(listOfEnum)).toBe('types.listOf types.enum');
+      expect(renderNixType(listOfEnum, () => 'types.enum [ "a" "b" ]')).toBe(
+        'types.listOf (types.enum [ "a" "b" ])'
+      );
+    });
+
+    test('renders submodule options', () => {
+      expect(renderNixType({ kind: 'submodule', options: { name: { kind: 'str' } } })).toBe(
+        'types.submodule { options = { name = lib.mkOption { type = types.str; }; }; }'
+      );
+    });
+  });
+
+  describe('parseNixType', () => {
+    test('reads back rendered types', () => {
+      const types: NixType[] = [
+        nullOrListOfStr,
+        { kind: 'attrsOf', elem: { kind: 'nullOr', elem: { kind: 'enum' } } },
+        { kind: 'listOf', elem: { kind: 'between', min: -1, max: 1 } },
+        NIX_TYPE_NULL_OR_STR,
+      ];
+      for (const type of types) expect(parseNixType(renderNixType(type))).toEqual(type);
+    });
+
+    test('rejects text outside the generated grammar', () => {
+      expect(parseNixType('types.package')).toBeUndefined();
+      expect(parseNixType('types.listOf')).toBeUndefined();
+      expect(parseNixType('types.nullOr (types.str')).toBeUndefined();
+      expect(parseNixType('types.str types.int')).toBeUndefined();
+    });
+  });
+
+  test('nixTypeEquals compares structurally', () => {
+    expect(nixTypeEquals({ kind: 'nullOr', elem: { kind: 'str' } }, NIX_TYPE_NULL_OR_STR)).toBe(
+      true
+    );
+    expect(nixTypeEquals({ kind: 'str' }, NIX_TYPE_NULL_OR_STR)).toBe(false);
+  });
+
+  test('NixTypeSchema validates nested types', () => {
+    expect(NixTypeSchema.safeParse(nullOrListOfStr).success).toBe(true);
+    expect(NixTypeSchema.safeParse({ kind: 'listOf', elem: { kind: 'package' } }).success).toBe(
+      false
+    );
+    expect(NixTypeSchema.safeParse('types.str').success).toBe(false);
+  });
+});
@@ -27,10 +27,12 @@ stdenvNoCC.mkDerivation (finalAttrs: {
       ../tsconfig.base.json
       ../vitest.workspace.ts
       ../vite.config.shared.ts
+      ../nixcord-gen.config.json
       ../modules/plugins/overrides.json
       ../modules/plugins/deprecated.nix
       ../modules/plugins/deprecated.json
       ../modules/plugins/migrations.nix
+      ../modules/plugins/sensitive-settings.json
       ../packages
     ];
   };
@@ -123,12 +125,12 @@ stdenvNoCC.mkDerivation (finalAttrs: {
     cp modules/plugins/deprecated.nix "$out/plugins/deprecated.nix"
     cp modules/plugins/deprecated.json "$out/plugins/deprecated.json"
     cp modules/plugins/migrations.nix "$out/plugins/migrations.nix"
+    cp modules/plugins/sensitive-settings.json "$out/plugins/sensitive-settings.json"
 
     ${lib.getExe nodejs} packages/cli/dist/index.js \
+      --config nixcord-gen.config.json \
       --vencord "${vencordSource}" \
-      --vencord-plugins src/plugins \
       --equicord "${equicordSource}" \
-      --equicord-plugins src/equicordplugins \
       --output "$out/dummy.nix" \
       ${lib.optionalString skipGitMigrations "--skip-git-migrations"} \
       --verbose